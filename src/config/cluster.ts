@@ -0,0 +1,213 @@
+/**
+ * Socket.IO Cluster Adapter
+ * Lets several server instances share rooms, broadcasts, `fetchSockets` and
+ * `serverSideEmit` through a publish/subscribe broker.
+ */
+
+import { EventEmitter } from "events";
+import { createClient } from "redis";
+import {
+  ClusterAdapterWithHeartbeat,
+  type ClusterAdapterOptions,
+  type ClusterMessage,
+  type ClusterResponse,
+  type Offset,
+} from "socket.io-adapter";
+import type { Namespace } from "socket.io";
+
+// ===== Broker =====
+
+/**
+ * Minimal publish/subscribe transport the adapter runs on. Messages are
+ * JSON strings; binary attachments are not supported.
+ */
+export interface ClusterBroker {
+  publish(channel: string, message: string): Promise<void>;
+  subscribe(channel: string, listener: (message: string) => void): Promise<void>;
+  unsubscribe(channel: string, listener: (message: string) => void): Promise<void>;
+}
+
+/**
+ * Creates an in-process broker. Server instances created in the same
+ * process with the same broker behave like replicas of one cluster, which
+ * is how the multi-node behaviour is exercised without a Redis server.
+ *
+ * Delivery is asynchronous, as it would be over the network.
+ *
+ * @returns {ClusterBroker} In-memory broker
+ * @example
+ * const broker = createLocalBroker();
+ * nodeA.adapter(createBrokerAdapter(broker));
+ * nodeB.adapter(createBrokerAdapter(broker));
+ */
+export const createLocalBroker = (): ClusterBroker => {
+  const channels = new EventEmitter();
+  channels.setMaxListeners(0);
+
+  return {
+    async publish(channel, message) {
+      setImmediate(() => channels.emit(channel, message));
+    },
+    async subscribe(channel, listener) {
+      channels.on(channel, listener);
+    },
+    async unsubscribe(channel, listener) {
+      channels.off(channel, listener);
+    },
+  };
+};
+
+type RedisClient = ReturnType<typeof createClient>;
+
+/**
+ * Creates a broker on top of Redis pub/sub. Redis needs a dedicated
+ * connection for subscriptions, hence the two clients.
+ *
+ * @param {RedisClient} pubClient - Connected client used to publish
+ * @param {RedisClient} subClient - Connected client used to subscribe
+ * @returns {ClusterBroker} Redis broker
+ * @example
+ * const pub = createClient({ url: process.env.REDIS_URL });
+ * const sub = pub.duplicate();
+ * await Promise.all([pub.connect(), sub.connect()]);
+ * io.adapter(createBrokerAdapter(createRedisBroker(pub, sub)));
+ */
+export const createRedisBroker = (
+  pubClient: RedisClient,
+  subClient: RedisClient
+): ClusterBroker => ({
+  async publish(channel, message) {
+    await pubClient.publish(channel, message);
+  },
+  async subscribe(channel, listener) {
+    await subClient.subscribe(channel, listener);
+  },
+  async unsubscribe(channel, listener) {
+    await subClient.unsubscribe(channel, listener);
+  },
+});
+
+// ===== Adapter =====
+
+/**
+ * Options of the broker adapter.
+ */
+export interface BrokerAdapterOptions extends ClusterAdapterOptions {
+  /** Prefix of the broker channels, to share a broker between applications. */
+  channelPrefix?: string;
+}
+
+/**
+ * Cluster adapter that forwards Socket.IO's inter-node messages through a
+ * `ClusterBroker`. Every node listens on one channel per namespace for
+ * requests and on a channel of its own for responses.
+ */
+class BrokerAdapter extends ClusterAdapterWithHeartbeat {
+  private readonly requestChannel: string;
+  private readonly responseChannel: string;
+
+  constructor(
+    nsp: Namespace,
+    private readonly broker: ClusterBroker,
+    opts: BrokerAdapterOptions
+  ) {
+    super(nsp, opts);
+
+    const prefix = opts.channelPrefix || "charlaton";
+    this.requestChannel = `${prefix}#${nsp.name}#`;
+    this.responseChannel = this.responseChannelOf(this.uid);
+
+    // Socket.IO never calls init(); announce the node once it can hear replies
+    Promise.all([
+      this.broker.subscribe(this.requestChannel, this.onRequestMessage),
+      this.broker.subscribe(this.responseChannel, this.onResponseMessage),
+    ])
+      .then(() => this.init())
+      .catch((error) =>
+        console.error("[CLUSTER] ❌ Error subscribing to the broker:", error)
+      );
+  }
+
+  private responseChannelOf(uid: string) {
+    return `${this.requestChannel}${uid}#`;
+  }
+
+  private readonly onRequestMessage = (raw: string) => {
+    this.onMessage(JSON.parse(raw) as ClusterMessage);
+  };
+
+  private readonly onResponseMessage = (raw: string) => {
+    this.onResponse(JSON.parse(raw) as ClusterResponse);
+  };
+
+  protected async doPublish(message: ClusterMessage): Promise<Offset> {
+    await this.broker.publish(this.requestChannel, JSON.stringify(message));
+    return "";
+  }
+
+  protected async doPublishResponse(
+    requesterUid: string,
+    response: ClusterResponse
+  ): Promise<void> {
+    await this.broker.publish(
+      this.responseChannelOf(requesterUid),
+      JSON.stringify(response)
+    );
+  }
+
+  close(): void {
+    super.close();
+    this.broker
+      .unsubscribe(this.requestChannel, this.onRequestMessage)
+      .catch(() => undefined);
+    this.broker
+      .unsubscribe(this.responseChannel, this.onResponseMessage)
+      .catch(() => undefined);
+  }
+}
+
+/**
+ * Creates the adapter factory to pass to `io.adapter()`.
+ *
+ * @param {ClusterBroker} broker - Transport shared by all the nodes
+ * @param {BrokerAdapterOptions} [opts] - Heartbeat timings and channel prefix
+ * @returns Adapter factory, called once per namespace
+ * @example
+ * io.adapter(createBrokerAdapter(createLocalBroker()));
+ */
+export const createBrokerAdapter = (
+  broker: ClusterBroker,
+  opts: BrokerAdapterOptions = {}
+) =>
+  // Socket.IO instantiates the adapter with `new`, so no arrow function here
+  function (nsp: Namespace) {
+    return new BrokerAdapter(nsp, broker, opts);
+  };
+
+/**
+ * Builds the cluster adapter configured through the environment.
+ *
+ * With `REDIS_URL` set, nodes share state through Redis pub/sub. Without it
+ * the default in-memory adapter is kept, which only works for one instance.
+ *
+ * @returns Adapter factory, or null when running as a single instance
+ * @example
+ * const adapter = await createClusterAdapterFromEnv();
+ * if (adapter) io.adapter(adapter);
+ */
+export const createClusterAdapterFromEnv = async () => {
+  if (!process.env.REDIS_URL) return null;
+
+  const pubClient = createClient({ url: process.env.REDIS_URL });
+  const subClient = pubClient.duplicate();
+
+  pubClient.on("error", (error) => console.error("[CLUSTER] Redis error:", error));
+  subClient.on("error", (error) => console.error("[CLUSTER] Redis error:", error));
+
+  await Promise.all([pubClient.connect(), subClient.connect()]);
+  console.log("[CLUSTER] 🔗 Connected to Redis, cluster mode enabled");
+
+  return createBrokerAdapter(createRedisBroker(pubClient, subClient), {
+    channelPrefix: process.env.CLUSTER_CHANNEL_PREFIX,
+  });
+};
@@ -0,0 +1,48 @@
+/**
+ * Socket Event Protocol Versioning
+ * Version of the event contract declared in `types/index.ts`
+ */
+
+/**
+ * Current version of the Socket.IO event contract.
+ * Bump it whenever an event is renamed or a payload changes shape.
+ */
+export const PROTOCOL_VERSION = 1;
+
+/**
+ * Oldest client protocol version the server still understands.
+ * Clients below it are rejected during the handshake.
+ */
+export const MIN_PROTOCOL_VERSION = 1;
+
+/**
+ * Error code sent in `connect_error.data.code` when the client's
+ * protocol version is not supported.
+ */
+export const UNSUPPORTED_PROTOCOL = "UNSUPPORTED_PROTOCOL_VERSION";
+
+/**
+ * Resolves the protocol version requested by a client.
+ *
+ * Clients send it as `auth.protocolVersion` in the handshake. Clients that
+ * predate versioning send nothing and are treated as version 1.
+ *
+ * @param {unknown} requested - The raw value sent by the client
+ * @returns {{version: number | null, supported: boolean}}
+ *          The parsed version (null if unparseable) and whether it is supported
+ * @example
+ * const { supported } = negotiateProtocol(socket.handshake.auth?.protocolVersion);
+ */
+export const negotiateProtocol = (requested: unknown) => {
+  if (requested === undefined || requested === null) {
+    return { version: 1, supported: MIN_PROTOCOL_VERSION <= 1 };
+  }
+
+  const version = Number(requested);
+  if (!Number.isInteger(version)) return { version: null, supported: false };
+
+  return {
+    version,
+    supported: version >= MIN_PROTOCOL_VERSION && version <= PROTOCOL_VERSION,
+  };
+};
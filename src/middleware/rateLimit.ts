@@ -0,0 +1,292 @@
+/**
+ * Socket Event Rate Limiting
+ * Token-bucket limiter keyed by user and room, with per-event budgets and a
+ * pluggable store so buckets can later be shared across instances.
+ */
+
+import type { Socket } from "socket.io";
+import type {
+  ClientToServerEvents,
+  ServerToClientEvents,
+  InterServerEvents,
+  SocketData,
+} from "../types";
+import { EVENT_SCHEMAS } from "./validation";
+
+// ===== Budgets =====
+
+/**
+ * Token bucket budget: up to `capacity` events in a burst, refilled at
+ * `refillPerSecond` tokens per second.
+ */
+export interface RateLimitBudget {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+/**
+ * Budget applied to events without an explicit entry in `RATE_LIMIT_BUDGETS`.
+ */
+export const DEFAULT_BUDGET: RateLimitBudget = {
+  capacity: 30,
+  refillPerSecond: 5,
+};
+
+/**
+ * Per-event budgets. ICE candidates come in bursts during negotiation, while
+ * access requests and joins only need a handful per minute.
+ */
+export const RATE_LIMIT_BUDGETS: Partial<
+  Record<keyof ClientToServerEvents, RateLimitBudget>
+> = {
+  message: { capacity: 10, refillPerSecond: 1 },
+  edit_message: { capacity: 5, refillPerSecond: 0.5 },
+  delete_message: { capacity: 5, refillPerSecond: 0.5 },
+  add_reaction: { capacity: 20, refillPerSecond: 3 },
+  remove_reaction: { capacity: 20, refillPerSecond: 3 },
+  typing_start: { capacity: 10, refillPerSecond: 2 },
+  join_room: { capacity: 5, refillPerSecond: 0.2 },
+  set_presence: { capacity: 10, refillPerSecond: 1 },
+  subscribe_presence: { capacity: 5, refillPerSecond: 0.2 },
+  send_access: { capacity: 3, refillPerSecond: 1 / 30 },
+  grant_access: { capacity: 10, refillPerSecond: 1 },
+  deny_access: { capacity: 10, refillPerSecond: 1 },
+  create_invite: { capacity: 10, refillPerSecond: 0.2 },
+  list_invites: { capacity: 10, refillPerSecond: 1 },
+  revoke_invite: { capacity: 10, refillPerSecond: 1 },
+  lobby_admit: { capacity: 20, refillPerSecond: 2 },
+  lobby_reject: { capacity: 20, refillPerSecond: 2 },
+  kick_user: { capacity: 10, refillPerSecond: 1 },
+  ban_user: { capacity: 10, refillPerSecond: 1 },
+  unban_user: { capacity: 10, refillPerSecond: 1 },
+  lock_room: { capacity: 5, refillPerSecond: 0.5 },
+  request_mute: { capacity: 10, refillPerSecond: 1 },
+  end_room: { capacity: 3, refillPerSecond: 0.1 },
+  create_room: { capacity: 5, refillPerSecond: 0.1 },
+  update_room: { capacity: 10, refillPerSecond: 1 },
+  archive_room: { capacity: 5, refillPerSecond: 0.5 },
+  delete_room: { capacity: 5, refillPerSecond: 0.5 },
+  promote: { capacity: 10, refillPerSecond: 1 },
+  demote: { capacity: 10, refillPerSecond: 1 },
+  webrtc_offer: { capacity: 20, refillPerSecond: 2 },
+  webrtc_answer: { capacity: 20, refillPerSecond: 2 },
+  webrtc_ice_candidate: { capacity: 100, refillPerSecond: 20 },
+};
+
+// ===== Store =====
+
+/**
+ * Result of consuming tokens from a bucket.
+ */
+export interface ConsumeResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number; // 0 when allowed
+}
+
+/**
+ * Storage backend of the limiter. The in-memory store below is enough for a
+ * single process; a shared implementation (e.g. Redis) only needs to
+ * provide these two operations atomically.
+ */
+export interface RateLimitStore {
+  /**
+   * Takes `cost` tokens from the bucket `key`, creating it full if missing.
+   */
+  consume(
+    key: string,
+    budget: RateLimitBudget,
+    cost?: number
+  ): Promise<ConsumeResult>;
+  /**
+   * Records a violation for `key` and returns how many happened within `windowMs`.
+   */
+  recordViolation(key: string, windowMs: number): Promise<number>;
+}
+
+/**
+ * Buckets idle for this long are dropped by the in-memory store.
+ */
+const IDLE_BUCKET_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Creates a process-local rate limit store.
+ *
+ * @param {() => number} [now] - Clock, injectable for tests
+ * @returns {RateLimitStore} In-memory store
+ * @example
+ * const store = createInMemoryRateLimitStore();
+ * const { allowed } = await store.consume("message:user1:room1", { capacity: 10, refillPerSecond: 1 });
+ */
+export const createInMemoryRateLimitStore = (
+  now: () => number = Date.now
+): RateLimitStore => {
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+  const violations = new Map<string, number[]>();
+  let lastSweep = now();
+
+  /**
+   * Drops idle buckets and old violations so the maps do not grow forever.
+   */
+  const sweep = (time: number) => {
+    if (time - lastSweep < IDLE_BUCKET_TTL_MS) return;
+    lastSweep = time;
+
+    for (const [key, bucket] of buckets) {
+      if (time - bucket.updatedAt > IDLE_BUCKET_TTL_MS) buckets.delete(key);
+    }
+    for (const [key, times] of violations) {
+      if (time - times[times.length - 1] > IDLE_BUCKET_TTL_MS) {
+        violations.delete(key);
+      }
+    }
+  };
+
+  return {
+    async consume(key, budget, cost = 1) {
+      const time = now();
+      sweep(time);
+
+      const bucket = buckets.get(key) || {
+        tokens: budget.capacity,
+        updatedAt: time,
+      };
+
+      const elapsed = (time - bucket.updatedAt) / 1000;
+      bucket.tokens = Math.min(
+        budget.capacity,
+        bucket.tokens + elapsed * budget.refillPerSecond
+      );
+      bucket.updatedAt = time;
+      buckets.set(key, bucket);
+
+      if (bucket.tokens >= cost) {
+        bucket.tokens -= cost;
+        return {
+          allowed: true,
+          remaining: Math.floor(bucket.tokens),
+          retryAfterMs: 0,
+        };
+      }
+
+      return {
+        allowed: false,
+        remaining: 0,
+        retryAfterMs: Math.ceil(
+          ((cost - bucket.tokens) / budget.refillPerSecond) * 1000
+        ),
+      };
+    },
+
+    async recordViolation(key, windowMs) {
+      const time = now();
+      const recent = (violations.get(key) || []).filter(
+        (t) => time - t < windowMs
+      );
+      recent.push(time);
+      violations.set(key, recent);
+      return recent.length;
+    },
+  };
+};
+
+// ===== Middleware =====
+
+/**
+ * Options of the rate limit middleware.
+ */
+export interface RateLimitOptions {
+  store: RateLimitStore;
+  budgets?: Partial<Record<keyof ClientToServerEvents, RateLimitBudget>>;
+  /** Violations within `violationWindowMs` after which the socket is disconnected. */
+  maxViolations?: number;
+  violationWindowMs?: number;
+}
+
+/**
+ * Creates the per-socket middleware that enforces the event budgets.
+ *
+ * Buckets are keyed by event, user and current room, so a user flooding
+ * one room does not exhaust their budget in another. Events over budget are
+ * dropped and the client gets `rate_limited` with the time to wait (and a
+ * `RATE_LIMITED` acknowledgement when it passed a callback); after
+ * `maxViolations` rejections within the window the socket is disconnected.
+ *
+ * @param {RateLimitOptions} options - Store, budgets and offender policy
+ * @returns Factory that builds the middleware for one socket
+ * @example
+ * const rateLimit = createRateLimiter({ store: createInMemoryRateLimitStore() });
+ * io.on("connection", (socket) => socket.use(rateLimit(socket)));
+ */
+export const createRateLimiter = (options: RateLimitOptions) => {
+  const budgets = { ...RATE_LIMIT_BUDGETS, ...options.budgets };
+  const maxViolations =
+    options.maxViolations ?? (Number(process.env.RATE_LIMIT_MAX_VIOLATIONS) || 20);
+  const violationWindowMs = options.violationWindowMs ?? 60 * 1000;
+
+  return (
+      socket: Socket<
+        ClientToServerEvents,
+        ServerToClientEvents,
+        InterServerEvents,
+        SocketData
+      >
+    ) =>
+    async (
+      [event, ...args]: [string, ...unknown[]],
+      next: (err?: Error) => void
+    ) => {
+      const userId = socket.data.userId || socket.id;
+      const roomId = socket.data.roomId || "-";
+      // Unknown event names share one bucket so they cannot grow the store
+      const eventKey = Object.prototype.hasOwnProperty.call(EVENT_SCHEMAS, event)
+        ? event
+        : "unknown";
+      const budget =
+        budgets[eventKey as keyof ClientToServerEvents] || DEFAULT_BUDGET;
+
+      try {
+        const result = await options.store.consume(
+          `${eventKey}:${userId}:${roomId}`,
+          budget
+        );
+
+        if (result.allowed) return next();
+
+        const count = await options.store.recordViolation(
+          `violations:${userId}`,
+          violationWindowMs
+        );
+
+        console.warn(
+          `[RATE_LIMIT] ⚠️ '${event}' from ${userId} in ${roomId} over budget (${count}/${maxViolations} violations)`
+        );
+
+        socket.emit("rate_limited", {
+          event,
+          retryAfterMs: result.retryAfterMs,
+          message: "Demasiadas solicitudes, intenta de nuevo más tarde",
+        });
+
+        const ack = args[args.length - 1];
+        if (typeof ack === "function") {
+          ack({
+            success: false,
+            code: "RATE_LIMITED",
+            message: "Demasiadas solicitudes, intenta de nuevo más tarde",
+          });
+        }
+
+        if (count >= maxViolations) {
+          console.warn(
+            `[RATE_LIMIT] 🚫 Disconnecting ${userId} (${socket.id}) for repeated flooding`
+          );
+          socket.disconnect(true);
+        }
+      } catch (error) {
+        // Never block traffic because the limiter backend failed
+        console.error("[RATE_LIMIT] Store error, allowing event:", error);
+        next();
+      }
+    };
+};
@@ -0,0 +1,518 @@
+/**
+ * Inbound Socket Payload Validation
+ * Declares a schema for every client event and rejects malformed packets
+ * before they reach the handlers in `server.ts`.
+ */
+
+import type { Socket } from "socket.io";
+import type {
+  ClientToServerEvents,
+  ServerToClientEvents,
+  InterServerEvents,
+  SocketData,
+} from "../types";
+
+// ===== Limits =====
+
+/**
+ * Size limits applied to inbound payloads. They keep a buggy or malicious
+ * client from writing oversized documents to Firestore or flooding peers.
+ */
+export const PAYLOAD_LIMITS = {
+  /** Max length of a chat message (`msg`, `content`). */
+  maxMessageLength: Number(process.env.MAX_MESSAGE_LENGTH) || 4000,
+  /** Max number of recipients of a private message. */
+  maxTargets: Number(process.env.MAX_MESSAGE_TARGETS) || 50,
+  /** Max length of a WebRTC session description. */
+  maxSdpLength: Number(process.env.MAX_SDP_LENGTH) || 64 * 1024,
+  /** Max length of an ICE candidate line. */
+  maxCandidateLength: 2048,
+  /** Max length of room, user and message identifiers. */
+  maxIdLength: 128,
+  /** Max length of a reaction emoji. */
+  maxEmojiLength: 32,
+  /** Max page size of history requests. */
+  maxPageSize: 100,
+  /** Max length of a room name. */
+  maxRoomNameLength: 100,
+  /** Max length of a room description. */
+  maxRoomDescriptionLength: 1000,
+  /** Max length of the note of an access request or denial. */
+  maxAccessNoteLength: 500,
+  /** Max length of an invite token. */
+  maxInviteTokenLength: 2048,
+  /** Max lifetime of an invite, in minutes (30 days). */
+  maxInviteMinutes: 30 * 24 * 60,
+  /** Max number of uses of an invite. */
+  maxInviteUses: 10000,
+  /** Max number of users in one presence subscription request. */
+  maxPresenceSubscriptions: 100,
+};
+
+/**
+ * Machine-readable codes sent in the `error` event.
+ */
+export const VALIDATION_ERROR_CODES = {
+  INVALID_PAYLOAD: "INVALID_PAYLOAD",
+  PAYLOAD_TOO_LARGE: "PAYLOAD_TOO_LARGE",
+  UNKNOWN_EVENT: "UNKNOWN_EVENT",
+} as const;
+
+export type ValidationErrorCode =
+  (typeof VALIDATION_ERROR_CODES)[keyof typeof VALIDATION_ERROR_CODES];
+
+/**
+ * Problem found while validating a payload.
+ */
+export interface ValidationIssue {
+  code: ValidationErrorCode;
+  path: string;
+  message: string;
+}
+
+// ===== Schema Primitives =====
+
+/**
+ * A schema checks one value and returns the first issue found, or null.
+ */
+export type Schema = (value: unknown, path: string) => ValidationIssue | null;
+
+const invalid = (path: string, message: string): ValidationIssue => ({
+  code: VALIDATION_ERROR_CODES.INVALID_PAYLOAD,
+  path,
+  message,
+});
+
+const tooLarge = (path: string, max: number): ValidationIssue => ({
+  code: VALIDATION_ERROR_CODES.PAYLOAD_TOO_LARGE,
+  path,
+  message: `${path} excede el máximo de ${max}`,
+});
+
+/**
+ * Makes a schema accept `undefined` (and `null` when `nullable` is set).
+ */
+const optional =
+  (schema: Schema, nullable = false): Schema =>
+  (value, path) => {
+    if (value === undefined) return null;
+    if (nullable && value === null) return null;
+    return schema(value, path);
+  };
+
+/**
+ * String schema with length bounds.
+ */
+const str =
+  (min: number, max: number): Schema =>
+  (value, path) => {
+    if (typeof value !== "string") return invalid(path, `${path} debe ser texto`);
+    if (value.length > max) return tooLarge(path, max);
+    if (value.trim().length < min) return invalid(path, `${path} está vacío`);
+    return null;
+  };
+
+/**
+ * Identifier schema (room, user or message ID).
+ */
+const id = (): Schema => str(1, PAYLOAD_LIMITS.maxIdLength);
+
+/**
+ * Integer schema with bounds.
+ */
+const int =
+  (min: number, max: number): Schema =>
+  (value, path) => {
+    if (typeof value !== "number" || !Number.isInteger(value)) {
+      return invalid(path, `${path} debe ser un entero`);
+    }
+    if (value < min || value > max) {
+      return invalid(path, `${path} debe estar entre ${min} y ${max}`);
+    }
+    return null;
+  };
+
+/**
+ * Boolean schema.
+ */
+const bool = (): Schema => (value, path) =>
+  typeof value === "boolean" ? null : invalid(path, `${path} debe ser booleano`);
+
+/**
+ * Enumeration schema.
+ */
+const oneOf =
+  (...allowed: string[]): Schema =>
+  (value, path) =>
+    typeof value === "string" && allowed.includes(value)
+      ? null
+      : invalid(path, `${path} debe ser uno de: ${allowed.join(", ")}`);
+
+/**
+ * Array schema with a maximum number of items.
+ */
+const arr =
+  (item: Schema, max: number): Schema =>
+  (value, path) => {
+    if (!Array.isArray(value)) return invalid(path, `${path} debe ser una lista`);
+    if (value.length > max) return tooLarge(path, max);
+    for (let i = 0; i < value.length; i++) {
+      const issue = item(value[i], `${path}[${i}]`);
+      if (issue) return issue;
+    }
+    return null;
+  };
+
+/**
+ * Accepts a value matching any of the schemas. Reports the issue of the
+ * last schema when none matches.
+ */
+const anyOf =
+  (...schemas: Schema[]): Schema =>
+  (value, path) => {
+    let issue: ValidationIssue | null = null;
+    for (const schema of schemas) {
+      issue = schema(value, path);
+      if (!issue) return null;
+    }
+    return issue;
+  };
+
+/**
+ * Object schema. Unknown keys are ignored; each declared key is checked
+ * with its schema. An optional `refine` runs once all keys are valid.
+ */
+const obj =
+  (
+    shape: Record<string, Schema>,
+    refine?: (value: Record<string, unknown>, path: string) => ValidationIssue | null
+  ): Schema =>
+  (value, path) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      return invalid(path, `${path} debe ser un objeto`);
+    }
+    const record = value as Record<string, unknown>;
+    for (const [key, schema] of Object.entries(shape)) {
+      const issue = schema(record[key], `${path}.${key}`);
+      if (issue) return issue;
+    }
+    return refine ? refine(record, path) : null;
+  };
+
+// ===== Event Schemas =====
+
+const target = () => arr(obj({ userId: id() }), PAYLOAD_LIMITS.maxTargets);
+
+const pagination = {
+  before: optional(id()),
+  limit: optional(int(1, PAYLOAD_LIMITS.maxPageSize)),
+};
+
+/**
+ * Private messages and private typing indicators need at least one recipient.
+ */
+const requireTargetWhenPrivate = (
+  value: Record<string, unknown>,
+  path: string
+): ValidationIssue | null =>
+  value.visibility === "private" &&
+  (!Array.isArray(value.target) || value.target.length === 0)
+    ? invalid(`${path}.target`, "los mensajes privados requieren destinatarios")
+    : null;
+
+const sessionDescription = () =>
+  obj({
+    type: oneOf("offer", "answer", "pranswer", "rollback"),
+    sdp: optional(str(0, PAYLOAD_LIMITS.maxSdpLength)),
+  });
+
+const iceCandidate = () =>
+  obj({
+    candidate: optional(str(0, PAYLOAD_LIMITS.maxCandidateLength)),
+    sdpMid: optional(str(0, PAYLOAD_LIMITS.maxIdLength), true),
+    sdpMLineIndex: optional(int(0, 1024), true),
+    usernameFragment: optional(str(0, PAYLOAD_LIMITS.maxIdLength), true),
+  });
+
+const roomName = () => str(1, PAYLOAD_LIMITS.maxRoomNameLength);
+const roomDescription = () => str(0, PAYLOAD_LIMITS.maxRoomDescriptionLength);
+
+/**
+ * An update must change at least one field.
+ */
+const requireRoomChange = (
+  value: Record<string, unknown>,
+  path: string
+): ValidationIssue | null =>
+  ["name", "description", "isPrivate", "lobbyEnabled"].some((key) => value[key] !== undefined)
+    ? null
+    : invalid(path, "no hay cambios que aplicar");
+
+/**
+ * Rejects mute requests that leave both devices alone. The microphone is
+ * asked for unless `mic` is false.
+ */
+const requireDevice = (
+  value: Record<string, unknown>,
+  path: string
+): ValidationIssue | null =>
+  value.mic !== false || value.camera === true
+    ? null
+    : invalid(path, "no hay dispositivos que silenciar");
+
+/**
+ * Schema of the positional arguments of every client event.
+ *
+ * Keyed by `ClientToServerEvents`, so adding an event to the contract
+ * without declaring its schema fails to compile. Extra trailing arguments
+ * are ignored.
+ */
+export const EVENT_SCHEMAS: Record<keyof ClientToServerEvents, Schema[]> = {
+  join_room: [
+    anyOf(
+      id(),
+      obj({ roomId: id(), invite: str(1, PAYLOAD_LIMITS.maxInviteTokenLength) })
+    ),
+  ],
+  leaveRoom: [
+    optional(obj({ roomId: optional(id()), userId: optional(id()) }), true),
+  ],
+  end_room: [optional(obj({ roomId: optional(id()) }), true)],
+  create_room: [
+    obj({
+      name: roomName(),
+      description: optional(roomDescription()),
+      isPrivate: optional(bool()),
+      lobbyEnabled: optional(bool()),
+    }),
+  ],
+  update_room: [
+    obj(
+      {
+        roomId: id(),
+        name: optional(roomName()),
+        description: optional(roomDescription(), true),
+        isPrivate: optional(bool()),
+        lobbyEnabled: optional(bool()),
+      },
+      requireRoomChange
+    ),
+  ],
+  archive_room: [obj({ roomId: id(), archived: optional(bool()) })],
+  delete_room: [obj({ roomId: id() })],
+  promote: [
+    obj({
+      roomId: id(),
+      targetUserId: id(),
+      role: oneOf("admin", "moderator"),
+    }),
+  ],
+  demote: [obj({ roomId: id(), targetUserId: id() })],
+
+  joins_in_room: [id()],
+  joins: [],
+  set_presence: [obj({ status: oneOf("online", "away", "busy") })],
+  subscribe_presence: [
+    obj({ userIds: arr(id(), PAYLOAD_LIMITS.maxPresenceSubscriptions) }),
+  ],
+  unsubscribe_presence: [
+    obj({ userIds: arr(id(), PAYLOAD_LIMITS.maxPresenceSubscriptions) }),
+  ],
+
+  message: [
+    obj(
+      {
+        msg: str(1, PAYLOAD_LIMITS.maxMessageLength),
+        visibility: oneOf("public", "private"),
+        target: optional(target(), true),
+        replyTo: optional(id()),
+        threadId: optional(id()),
+        clientMessageId: optional(id()),
+      },
+      requireTargetWhenPrivate
+    ),
+  ],
+  edit_message: [
+    obj({
+      messageId: id(),
+      content: str(1, PAYLOAD_LIMITS.maxMessageLength),
+    }),
+  ],
+  delete_message: [obj({ messageId: id() })],
+  load_history: [optional(obj(pagination), true)],
+  load_thread: [obj({ threadId: id(), ...pagination })],
+  add_reaction: [
+    obj({ messageId: id(), emoji: str(1, PAYLOAD_LIMITS.maxEmojiLength) }),
+  ],
+  remove_reaction: [
+    obj({ messageId: id(), emoji: str(1, PAYLOAD_LIMITS.maxEmojiLength) }),
+  ],
+  mark_read: [obj({ messageId: id() })],
+  typing_start: [
+    optional(
+      obj(
+        {
+          visibility: optional(oneOf("public", "private")),
+          target: optional(target()),
+        },
+        requireTargetWhenPrivate
+      ),
+      true
+    ),
+  ],
+  typing_stop: [],
+
+  media_state_changed: [obj({ micEnabled: bool(), cameraEnabled: bool() })],
+  webrtc_offer: [
+    obj({ roomId: id(), targetUserId: id(), sdp: sessionDescription() }),
+  ],
+  webrtc_answer: [
+    obj({ roomId: id(), targetUserId: id(), sdp: sessionDescription() }),
+  ],
+  webrtc_ice_candidate: [
+    obj({ roomId: id(), targetUserId: id(), candidate: iceCandidate() }),
+  ],
+
+  send_access: [
+    anyOf(
+      id(),
+      obj({
+        roomId: id(),
+        message: optional(str(0, PAYLOAD_LIMITS.maxAccessNoteLength)),
+      })
+    ),
+  ],
+  grant_access: [obj({ roomId: id(), targetUserId: id() })],
+  deny_access: [
+    obj({
+      roomId: id(),
+      targetUserId: id(),
+      reason: optional(str(0, PAYLOAD_LIMITS.maxAccessNoteLength)),
+    }),
+  ],
+
+  create_invite: [
+    obj({
+      roomId: id(),
+      expiresInMinutes: optional(int(1, PAYLOAD_LIMITS.maxInviteMinutes)),
+      maxUses: optional(int(1, PAYLOAD_LIMITS.maxInviteUses)),
+      email: optional(str(3, 320)),
+    }),
+  ],
+  list_invites: [obj({ roomId: id() })],
+  lobby_admit: [obj({ roomId: id(), targetUserId: optional(id()) })],
+  lobby_reject: [
+    obj({
+      roomId: id(),
+      targetUserId: optional(id()),
+      reason: optional(str(0, PAYLOAD_LIMITS.maxAccessNoteLength)),
+    }),
+  ],
+  revoke_invite: [obj({ roomId: id(), inviteId: id() })],
+
+  kick_user: [
+    obj({
+      roomId: id(),
+      targetUserId: id(),
+      reason: optional(str(0, PAYLOAD_LIMITS.maxAccessNoteLength)),
+    }),
+  ],
+  ban_user: [
+    obj({
+      roomId: id(),
+      targetUserId: id(),
+      reason: optional(str(0, PAYLOAD_LIMITS.maxAccessNoteLength)),
+    }),
+  ],
+  unban_user: [obj({ roomId: id(), targetUserId: id() })],
+  lock_room: [obj({ roomId: id(), locked: optional(bool()) })],
+  request_mute: [
+    obj(
+      {
+        roomId: id(),
+        targetUserId: optional(id()),
+        mic: optional(bool()),
+        camera: optional(bool()),
+      },
+      requireDevice
+    ),
+  ],
+};
+
+/**
+ * Validates the arguments of one inbound event against its schema.
+ *
+ * @param {string} event - The event name
+ * @param {unknown[]} args - The event arguments, without a trailing acknowledgement callback
+ * @returns {ValidationIssue | null} The first issue found, or null when the payload is valid
+ * @example
+ * const issue = validateEvent("message", [{ msg: "hola", visibility: "public" }]);
+ */
+export const validateEvent = (
+  event: string,
+  args: unknown[]
+): ValidationIssue | null => {
+  if (!Object.prototype.hasOwnProperty.call(EVENT_SCHEMAS, event)) {
+    return {
+      code: VALIDATION_ERROR_CODES.UNKNOWN_EVENT,
+      path: event,
+      message: `evento desconocido: ${event}`,
+    };
+  }
+
+  const schemas = EVENT_SCHEMAS[event as keyof ClientToServerEvents];
+
+  for (let i = 0; i < schemas.length; i++) {
+    const issue = schemas[i](args[i], `args[${i}]`);
+    if (issue) return issue;
+  }
+
+  return null;
+};
+
+/**
+ * Creates the per-socket middleware that validates every inbound packet.
+ *
+ * Invalid packets are dropped (the handler never runs) and the client gets
+ * a single `error` event `{ code, event, path, message }`. If the client
+ * passed an acknowledgement callback, it is answered with the same code.
+ *
+ * @param {Socket} socket - The socket whose packets are validated
+ * @returns Middleware for `socket.use`
+ * @example
+ * socket.use(validatePayloads(socket));
+ */
+export const validatePayloads =
+  (
+    socket: Socket<
+      ClientToServerEvents,
+      ServerToClientEvents,
+      InterServerEvents,
+      SocketData
+    >
+  ) =>
+  ([event, ...args]: [string, ...unknown[]], next: (err?: Error) => void) => {
+    // Acknowledgement callbacks are not part of the payload
+    const ack = args[args.length - 1];
+    const payload = typeof ack === "function" ? args.slice(0, -1) : args;
+
+    const issue = validateEvent(event, payload);
+
+    if (issue) {
+      console.warn(
+        `[VALIDATION] ❌ Rejected '${event}' from ${socket.id} (${socket.data.userId}): ${issue.code} at ${issue.path}`
+      );
+      socket.emit("error", {
+        code: issue.code,
+        event,
+        path: issue.path,
+        message: issue.message,
+      });
+      if (typeof ack === "function") {
+        ack({ success: false, code: issue.code, message: issue.message });
+      }
+      return;
+    }
+
+    next();
+  };
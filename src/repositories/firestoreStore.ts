@@ -0,0 +1,440 @@
+/**
+ * Firestore Store
+ * Repositories backed by Cloud Firestore, using the collection layout of
+ * the main Charlaton backend (`rooms/{roomId}/{messages,access,...}`).
+ */
+
+import { FieldValue, type Firestore } from "firebase-admin/firestore";
+import type {
+  StoredMessage,
+  StoredRoom,
+  RoomAccess,
+  RoomConnection,
+  ReadCursor,
+  AccessRequest,
+  RoomInvite,
+  AuditEntry,
+  PresenceRecord,
+  ServerInstance,
+} from "../types";
+import type { MessagePatch, Store } from "./types";
+
+/**
+ * Converts Firestore `Timestamp`s of a message to `Date`s.
+ *
+ * @param {any} value - The stored timestamp
+ * @returns {Date | null} The date, or null when the value is missing
+ */
+const toDate = (value: any): Date | null => {
+  if (!value) return null;
+  if (typeof value.toDate === "function") return value.toDate();
+  return value instanceof Date ? value : new Date(value);
+};
+
+/**
+ * Builds a `StoredMessage` from a document snapshot.
+ */
+const toMessage = (
+  doc: FirebaseFirestore.DocumentSnapshot
+): StoredMessage | null => {
+  const data = doc.data();
+  if (!doc.exists || !data) return null;
+
+  return {
+    ...(data as Omit<StoredMessage, "id">),
+    id: doc.id,
+    createAt: toDate(data.createAt) || new Date(0),
+    lastReplyAt: toDate(data.lastReplyAt),
+  };
+};
+
+/**
+ * Translates `undefined` fields of a patch into field deletions.
+ */
+const toUpdate = (patch: MessagePatch) => {
+  const update: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(patch)) {
+    update[key] = value === undefined ? FieldValue.delete() : value;
+  }
+  return update;
+};
+
+/**
+ * Creates the Firestore-backed store.
+ *
+ * Listing messages by `threadId` or `userId` ordered by `createAt` needs
+ * the matching composite indexes.
+ *
+ * @param {Firestore} db - Initialized Firestore client
+ * @returns {Store} Firestore store
+ * @example
+ * const { db } = await import("../config/firebase");
+ * const store = createFirestoreStore(db);
+ */
+export const createFirestoreStore = (db: Firestore): Store => {
+  const ROOMS = db.collection("rooms");
+  const messagesOf = (roomId: string) =>
+    ROOMS.doc(String(roomId)).collection("messages");
+  const accessOf = (roomId: string) =>
+    ROOMS.doc(String(roomId)).collection("access");
+  const accessRequestsOf = (roomId: string) =>
+    ROOMS.doc(String(roomId)).collection("accessRequests");
+  const invitesOf = (roomId: string) =>
+    ROOMS.doc(String(roomId)).collection("invites");
+  const auditOf = (roomId: string) =>
+    ROOMS.doc(String(roomId)).collection("audit");
+  const connectionsOf = (roomId: string) =>
+    ROOMS.doc(String(roomId)).collection("connections");
+  const cursorsOf = (roomId: string) =>
+    ROOMS.doc(String(roomId)).collection("readCursors");
+
+  return {
+    driver: "firestore",
+
+    messages: {
+      newId(roomId) {
+        return messagesOf(roomId).doc().id;
+      },
+
+      async get(roomId, messageId) {
+        return toMessage(await messagesOf(roomId).doc(messageId).get());
+      },
+
+      async list(roomId, options = {}) {
+        let query: FirebaseFirestore.Query = messagesOf(roomId);
+
+        if (options.userId) query = query.where("userId", "==", options.userId);
+        if (options.threadId) {
+          query = query.where("threadId", "==", options.threadId);
+        }
+        if (options.createdAfter) {
+          query = query.where("createAt", ">", options.createdAfter);
+        }
+        if (options.order) query = query.orderBy("createAt", options.order);
+        if (options.startAfter) {
+          const cursor = await messagesOf(roomId).doc(options.startAfter).get();
+          if (cursor.exists) query = query.startAfter(cursor);
+        }
+        if (options.limit) query = query.limit(options.limit);
+
+        const snap = await query.get();
+        return snap.docs
+          .map(toMessage)
+          .filter((m): m is StoredMessage => m !== null);
+      },
+
+      transaction(fn) {
+        return db.runTransaction((tx) =>
+          fn({
+            async get(roomId, messageId) {
+              return toMessage(await tx.get(messagesOf(roomId).doc(messageId)));
+            },
+            create(roomId, messageId, data) {
+              tx.create(messagesOf(roomId).doc(messageId), data);
+            },
+            update(roomId, messageId, patch) {
+              tx.update(messagesOf(roomId).doc(messageId), toUpdate(patch));
+            },
+          })
+        );
+      },
+    },
+
+    rooms: {
+      async get(roomId) {
+        const doc = await ROOMS.doc(String(roomId)).get();
+        if (!doc.exists) return null;
+        return { ...doc.data(), id: doc.id } as StoredRoom;
+      },
+
+      async create(data) {
+        const ref = ROOMS.doc();
+        await ref.set(data);
+        return { ...data, id: ref.id };
+      },
+
+      async update(roomId, patch) {
+        await ROOMS.doc(String(roomId)).update(patch);
+      },
+    },
+
+    access: {
+      async findByUser(roomId, userId) {
+        // Grants written by the main backend store numeric IDs
+        const ids: (string | number)[] = [String(userId)];
+        if (/^\d+$/.test(String(userId))) ids.push(Number(userId));
+
+        const snap = await accessOf(roomId)
+          .where("userId", "in", ids)
+          .limit(1)
+          .get();
+        if (snap.empty) return null;
+        return { ...snap.docs[0].data(), id: snap.docs[0].id } as RoomAccess;
+      },
+
+      async listByRoom(roomId) {
+        const snap = await accessOf(roomId).get();
+        return snap.docs.map((d) => ({ ...d.data(), id: d.id }) as RoomAccess);
+      },
+
+      async create(roomId, data) {
+        const ref = accessOf(roomId).doc();
+        await ref.set(data);
+        return { ...data, id: ref.id };
+      },
+
+      async delete(roomId, accessId) {
+        await accessOf(roomId).doc(accessId).delete();
+      },
+    },
+
+    accessRequests: {
+      async create(roomId, data) {
+        const ref = accessRequestsOf(roomId).doc();
+        await ref.set(data);
+        return { ...data, id: ref.id };
+      },
+
+      async findPending(roomId, userId) {
+        const snap = await accessRequestsOf(roomId)
+          .where("userId", "==", String(userId))
+          .where("status", "==", "pending")
+          .orderBy("requestedAt", "desc")
+          .limit(1)
+          .get();
+        if (snap.empty) return null;
+        return { ...snap.docs[0].data(), id: snap.docs[0].id } as AccessRequest;
+      },
+
+      async listByRoom(roomId, status) {
+        let query: FirebaseFirestore.Query = accessRequestsOf(roomId);
+        if (status) query = query.where("status", "==", status);
+
+        const snap = await query.orderBy("requestedAt", "asc").get();
+        return snap.docs.map((d) => ({ ...d.data(), id: d.id }) as AccessRequest);
+      },
+
+      async update(roomId, requestId, patch) {
+        await accessRequestsOf(roomId).doc(requestId).update(patch);
+      },
+    },
+
+    invites: {
+      async create(roomId, data) {
+        const ref = invitesOf(roomId).doc();
+        await ref.set(data);
+        return { ...data, id: ref.id };
+      },
+
+      async get(roomId, inviteId) {
+        const doc = await invitesOf(roomId).doc(inviteId).get();
+        if (!doc.exists) return null;
+        return { ...doc.data(), id: doc.id } as RoomInvite;
+      },
+
+      async listByRoom(roomId) {
+        const snap = await invitesOf(roomId).orderBy("createdAt", "desc").get();
+        return snap.docs.map((d) => ({ ...d.data(), id: d.id }) as RoomInvite);
+      },
+
+      async update(roomId, inviteId, patch) {
+        await invitesOf(roomId).doc(inviteId).update(patch);
+      },
+
+      claimUse(roomId, inviteId) {
+        const ref = invitesOf(roomId).doc(inviteId);
+
+        return db.runTransaction(async (tx) => {
+          const doc = await tx.get(ref);
+          if (!doc.exists) return null;
+
+          const invite = { ...doc.data(), id: doc.id } as RoomInvite;
+          if (invite.revokedAt) return null;
+          if (invite.maxUses !== null && invite.uses >= invite.maxUses) return null;
+
+          tx.update(ref, { uses: invite.uses + 1 });
+          return { ...invite, uses: invite.uses + 1 };
+        });
+      },
+
+      async releaseUse(roomId, inviteId) {
+        await invitesOf(roomId).doc(inviteId).update({ uses: FieldValue.increment(-1) });
+      },
+    },
+
+    audit: {
+      async create(roomId, data) {
+        const ref = auditOf(roomId).doc();
+        await ref.set(data);
+        return { ...data, id: ref.id };
+      },
+
+      async listByRoom(roomId, limit) {
+        const snap = await auditOf(roomId)
+          .orderBy("createdAt", "desc")
+          .limit(limit)
+          .get();
+        return snap.docs.map((d) => ({ ...d.data(), id: d.id }) as AuditEntry);
+      },
+    },
+
+    connections: {
+      async listByRoom(roomId) {
+        const snap = await connectionsOf(roomId).get();
+        return snap.docs.map(
+          (d) => ({ ...d.data(), id: d.id }) as RoomConnection
+        );
+      },
+
+      async listInWindow(roomId, from, to, limit) {
+        // Closed after `from` and joined before `to`, earliest join first, so
+        // the limit keeps the same sessions as the in-memory store (composite
+        // index on joinedAt + leftAt), plus the open ones
+        const [closed, open] = await Promise.all([
+          connectionsOf(roomId)
+            .where("leftAt", ">=", from)
+            .where("joinedAt", "<=", to)
+            .orderBy("joinedAt")
+            .orderBy("leftAt")
+            .limit(limit)
+            .get(),
+          connectionsOf(roomId).where("leftAt", "==", null).get(),
+        ]);
+        return [...closed.docs, ...open.docs]
+          .map((d) => ({ ...d.data(), id: d.id }) as RoomConnection)
+          .filter((c) => c.joinedAt <= to)
+          .sort((a, b) => a.joinedAt.localeCompare(b.joinedAt))
+          .slice(0, limit);
+      },
+
+      async listRoomsOfUser(userId, since, limit) {
+        const snap = await db
+          .collectionGroup("connections")
+          .where("userId", "==", String(userId))
+          .where("joinedAt", ">=", since)
+          .orderBy("joinedAt", "desc")
+          .limit(limit)
+          .select("roomId")
+          .get();
+        const roomIds = snap.docs.map(
+          (d) => d.ref.parent.parent?.id ?? String(d.data().roomId)
+        );
+        return [...new Set(roomIds)];
+      },
+
+      async listActive(roomId) {
+        const snap = await connectionsOf(roomId).where("leftAt", "==", null).get();
+        return snap.docs.map(
+          (d) => ({ ...d.data(), id: d.id }) as RoomConnection
+        );
+      },
+
+      async listOpen(limit, joinedAfter) {
+        // Needs a collection group index on leftAt + joinedAt
+        let query = db
+          .collectionGroup("connections")
+          .where("leftAt", "==", null)
+          .orderBy("joinedAt");
+        if (joinedAfter) query = query.startAfter(joinedAfter);
+
+        const snap = await query.limit(limit).get();
+        return snap.docs.map(
+          (d) =>
+            ({
+              ...d.data(),
+              id: d.id,
+              roomId: d.ref.parent.parent?.id ?? String(d.data().roomId),
+            }) as RoomConnection
+        );
+      },
+
+      async findActive(roomId, userId) {
+        const snap = await connectionsOf(roomId)
+          .where("userId", "==", String(userId))
+          .where("leftAt", "==", null)
+          .limit(1)
+          .get();
+        if (snap.empty) return null;
+        return { ...snap.docs[0].data(), id: snap.docs[0].id } as RoomConnection;
+      },
+
+      async create(roomId, data) {
+        const ref = connectionsOf(roomId).doc();
+        await ref.set(data);
+        return { ...data, id: ref.id };
+      },
+
+      async update(roomId, connectionId, patch) {
+        await connectionsOf(roomId).doc(connectionId).update(patch);
+      },
+    },
+
+    readCursors: {
+      async get(roomId, userId) {
+        const doc = await cursorsOf(roomId).doc(String(userId)).get();
+        return doc.exists ? (doc.data() as ReadCursor) : null;
+      },
+
+      advance(roomId, cursor) {
+        const ref = cursorsOf(roomId).doc(String(cursor.userId));
+
+        return db.runTransaction(async (tx) => {
+          const current = (await tx.get(ref)).data() as ReadCursor | undefined;
+
+          if (
+            current &&
+            new Date(current.lastReadAt).getTime() >=
+              new Date(cursor.lastReadAt).getTime()
+          ) {
+            return { cursor: current, changed: false };
+          }
+
+          tx.set(ref, cursor);
+          return { cursor, changed: true };
+        });
+      },
+    },
+
+    presence: {
+      async get(userId) {
+        const snap = await db.collection("presence").doc(String(userId)).get();
+        return snap.exists ? (snap.data() as PresenceRecord) : null;
+      },
+
+      async set(record) {
+        await db.collection("presence").doc(String(record.userId)).set(record);
+      },
+    },
+
+    instances: {
+      async get(instanceId) {
+        const snap = await db.collection("instances").doc(instanceId).get();
+        return snap.exists ? (snap.data() as ServerInstance) : null;
+      },
+
+      async list() {
+        const snap = await db.collection("instances").get();
+        return snap.docs.map((d) => d.data() as ServerInstance);
+      },
+
+      async set(instance) {
+        await db.collection("instances").doc(instance.id).set(instance);
+      },
+
+      async delete(instanceId) {
+        await db.collection("instances").doc(instanceId).delete();
+      },
+    },
+
+    users: {
+      async findIdByUid(firebaseUid) {
+        const snap = await db
+          .collection("users")
+          .where("uid", "==", firebaseUid)
+          .limit(1)
+          .get();
+        return snap.empty ? null : snap.docs[0].id;
+      },
+    },
+  };
+};
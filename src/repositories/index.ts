@@ -0,0 +1,93 @@
+/**
+ * Storage Selection
+ * Holds the store used by the service layer and builds it from the
+ * environment (`STORAGE_DRIVER`).
+ */
+
+import fs from "fs";
+import path from "path";
+import type { Store } from "./types";
+import { createInMemoryStore, type MemoryStoreSeed } from "./memoryStore";
+import { createFirestoreStore } from "./firestoreStore";
+
+export type * from "./types";
+export { createInMemoryStore, createFirestoreStore, type MemoryStoreSeed };
+
+let currentStore: Store | null = null;
+
+/**
+ * Sets the store used by every service.
+ *
+ * @param {Store} store - The store to use from now on
+ * @example
+ * setStore(createInMemoryStore());
+ */
+export const setStore = (store: Store) => {
+  currentStore = store;
+};
+
+/**
+ * Returns the store used by the services.
+ *
+ * @returns {Store} The current store
+ * @throws {Error} When no store has been configured yet
+ * @example
+ * const room = await getStore().rooms.get(roomId);
+ */
+export const getStore = (): Store => {
+  if (!currentStore) {
+    throw new Error("Storage not initialized: call setStore() first");
+  }
+  return currentStore;
+};
+
+/**
+ * Reads the seed of the in-memory store from `MEMORY_SEED_FILE`, a JSON
+ * file with `rooms`, `users`, `messages` and `access` arrays.
+ *
+ * @returns {MemoryStoreSeed} The seed, empty when no file is configured
+ */
+const loadMemorySeed = (): MemoryStoreSeed => {
+  if (!process.env.MEMORY_SEED_FILE) return {};
+
+  const file = path.resolve(process.cwd(), process.env.MEMORY_SEED_FILE);
+  const seed = JSON.parse(fs.readFileSync(file, "utf8"));
+
+  return {
+    ...seed,
+    messages: (seed.messages || []).map((m: any) => ({
+      ...m,
+      createAt: new Date(m.createAt),
+      lastReplyAt: m.lastReplyAt ? new Date(m.lastReplyAt) : null,
+    })),
+  };
+};
+
+/**
+ * Builds the store selected by `STORAGE_DRIVER`:
+ * - `firestore` (default): Cloud Firestore, requires Firebase credentials.
+ * - `memory`: process memory, optionally seeded from `MEMORY_SEED_FILE`.
+ *
+ * Firebase is only loaded when the Firestore driver is selected, so the
+ * in-memory driver runs without credentials.
+ *
+ * @returns {Promise<Store>} The configured store
+ * @throws {Error} When the driver is unknown
+ * @example
+ * setStore(await createStoreFromEnv());
+ */
+export const createStoreFromEnv = async (): Promise<Store> => {
+  const driver = process.env.STORAGE_DRIVER || "firestore";
+
+  if (driver === "memory") {
+    console.log("[STORAGE] 🧪 Using in-memory storage (data is not persisted)");
+    return createInMemoryStore(loadMemorySeed());
+  }
+
+  if (driver === "firestore") {
+    const { db } = await import("../config/firebase");
+    return createFirestoreStore(db);
+  }
+
+  throw new Error(`Unknown STORAGE_DRIVER: ${driver}`);
+};
@@ -0,0 +1,456 @@
+/**
+ * In-Memory Store
+ * Repositories kept in process memory, for tests and local development
+ * without Firebase credentials. Data is lost when the process exits.
+ */
+
+import { randomUUID } from "crypto";
+import type {
+  StoredMessage,
+  StoredRoom,
+  RoomAccess,
+  RoomConnection,
+  ReadCursor,
+  AccessRequest,
+  RoomInvite,
+  AuditEntry,
+  PresenceRecord,
+  ServerInstance,
+} from "../types";
+import type {
+  MessageData,
+  MessagePatch,
+  MessageTransaction,
+  Store,
+} from "./types";
+
+/**
+ * Initial content of an in-memory store.
+ */
+export interface MemoryStoreSeed {
+  rooms?: StoredRoom[];
+  /** Backend user documents, to map Firebase UIDs to user IDs. */
+  users?: { id: string; uid: string }[];
+  messages?: StoredMessage[];
+  access?: (RoomAccess & { roomId: string })[];
+  accessRequests?: AccessRequest[];
+  invites?: RoomInvite[];
+  /** Past and open sessions, e.g. attendance history. */
+  connections?: RoomConnection[];
+  /** Heartbeats of server instances, e.g. one that crashed. */
+  instances?: ServerInstance[];
+}
+
+/**
+ * Records are copied in and out so callers never hold a reference to the
+ * stored object, as with a real database.
+ */
+const copy = <T>(value: T): T => structuredClone(value);
+
+const newId = () => randomUUID().replace(/-/g, "").slice(0, 20);
+
+/**
+ * Applies a message patch; `undefined` fields are removed.
+ */
+const applyPatch = (data: MessageData, patch: MessagePatch): MessageData => {
+  const next: Record<string, unknown> = { ...data };
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === undefined) delete next[key];
+    else next[key] = copy(value);
+  }
+  return next as unknown as MessageData;
+};
+
+/**
+ * Creates an empty (or seeded) in-memory store.
+ *
+ * Message transactions run one at a time and their writes are only applied
+ * when the callback resolves, so a transaction that returns early or throws
+ * leaves no partial writes behind.
+ *
+ * @param {MemoryStoreSeed} [seed] - Rooms, users, messages, grants, access requests, invites, connections and instances to start with
+ * @returns {Store} In-memory store
+ * @example
+ * const store = createInMemoryStore({
+ *   rooms: [{ id: "room1", isPrivate: false, creatorId: "u1", adminsId: [], deletedAt: null }],
+ * });
+ */
+export const createInMemoryStore = (seed: MemoryStoreSeed = {}): Store => {
+  const rooms = new Map<string, StoredRoom>();
+  const users = new Map<string, string>(); // uid -> user ID
+  const messages = new Map<string, Map<string, MessageData>>();
+  const access = new Map<string, Map<string, RoomAccess>>();
+  const accessRequests = new Map<string, Map<string, AccessRequest>>();
+  const invites = new Map<string, Map<string, RoomInvite>>();
+  const audit = new Map<string, Map<string, AuditEntry>>();
+  const connections = new Map<string, Map<string, RoomConnection>>();
+  const cursors = new Map<string, Map<string, ReadCursor>>();
+  const presence = new Map<string, PresenceRecord>(); // user ID -> last seen
+  const instances = new Map<string, ServerInstance>();
+
+  /**
+   * Returns the collection of a room, creating it on first use.
+   */
+  const collection = <T>(parent: Map<string, Map<string, T>>, roomId: string) => {
+    const key = String(roomId);
+    if (!parent.has(key)) parent.set(key, new Map());
+    return parent.get(key)!;
+  };
+
+  const readMessage = (roomId: string, messageId: string) => {
+    const data = collection(messages, roomId).get(messageId);
+    return data ? ({ ...copy(data), id: messageId } as StoredMessage) : null;
+  };
+
+  for (const room of seed.rooms || []) rooms.set(room.id, copy(room));
+  for (const user of seed.users || []) users.set(user.uid, user.id);
+  for (const { id, ...data } of seed.messages || []) {
+    collection(messages, data.roomId).set(id, copy(data));
+  }
+  for (const { roomId, ...grant } of seed.access || []) {
+    collection(access, roomId).set(grant.id, copy(grant));
+  }
+  for (const request of seed.accessRequests || []) {
+    collection(accessRequests, request.roomId).set(request.id, copy(request));
+  }
+  for (const invite of seed.invites || []) {
+    collection(invites, invite.roomId).set(invite.id, copy(invite));
+  }
+  for (const connection of seed.connections || []) {
+    collection(connections, connection.roomId).set(connection.id, copy(connection));
+  }
+  for (const instance of seed.instances || []) {
+    instances.set(instance.id, copy(instance));
+  }
+
+  // Tail of the queue of message transactions
+  let lastTransaction: Promise<unknown> = Promise.resolve();
+
+  return {
+    driver: "memory",
+
+    messages: {
+      newId() {
+        return newId();
+      },
+
+      async get(roomId, messageId) {
+        return readMessage(roomId, messageId);
+      },
+
+      async list(roomId, options = {}) {
+        let result = [...collection(messages, roomId).keys()]
+          .map((id) => readMessage(roomId, id)!)
+          .filter(
+            (m) =>
+              (!options.userId || m.userId === options.userId) &&
+              (!options.threadId || m.threadId === options.threadId) &&
+              (!options.createdAfter ||
+                m.createAt.getTime() > options.createdAfter.getTime())
+          )
+          .sort((a, b) => a.createAt.getTime() - b.createAt.getTime());
+
+        if (options.order === "desc") result.reverse();
+
+        if (options.startAfter) {
+          const index = result.findIndex((m) => m.id === options.startAfter);
+          if (index !== -1) result = result.slice(index + 1);
+        }
+
+        return options.limit ? result.slice(0, options.limit) : result;
+      },
+
+      transaction<T>(fn: (tx: MessageTransaction) => Promise<T>) {
+        const run = async () => {
+          const writes: (() => void)[] = [];
+
+          const result = await fn({
+            async get(roomId, messageId) {
+              return readMessage(roomId, messageId);
+            },
+            create(roomId, messageId, data) {
+              if (collection(messages, roomId).has(messageId)) {
+                throw new Error(`Message ${messageId} already exists`);
+              }
+              writes.push(() =>
+                collection(messages, roomId).set(messageId, copy(data))
+              );
+            },
+            update(roomId, messageId, patch) {
+              const current = collection(messages, roomId).get(messageId);
+              if (!current) throw new Error(`Message ${messageId} not found`);
+              writes.push(() => {
+                const latest = collection(messages, roomId).get(messageId)!;
+                collection(messages, roomId).set(
+                  messageId,
+                  applyPatch(latest, patch)
+                );
+              });
+            },
+          });
+
+          for (const write of writes) write();
+          return result;
+        };
+
+        const next = lastTransaction.then(run, run);
+        lastTransaction = next.catch(() => undefined);
+        return next;
+      },
+    },
+
+    rooms: {
+      async get(roomId) {
+        const room = rooms.get(String(roomId));
+        return room ? copy(room) : null;
+      },
+
+      async create(data) {
+        const room = { ...copy(data), id: newId() };
+        rooms.set(room.id, room);
+        return copy(room);
+      },
+
+      async update(roomId, patch) {
+        const current = rooms.get(String(roomId));
+        if (!current) throw new Error(`Room ${roomId} not found`);
+        rooms.set(String(roomId), { ...current, ...copy(patch) });
+      },
+    },
+
+    access: {
+      async findByUser(roomId, userId) {
+        for (const grant of collection(access, roomId).values()) {
+          if (String(grant.userId) === String(userId)) return copy(grant);
+        }
+        return null;
+      },
+
+      async listByRoom(roomId) {
+        return [...collection(access, roomId).values()].map(copy);
+      },
+
+      async create(roomId, data) {
+        const grant = { ...copy(data), id: newId() };
+        collection(access, roomId).set(grant.id, grant);
+        return copy(grant);
+      },
+
+      async delete(roomId, accessId) {
+        collection(access, roomId).delete(accessId);
+      },
+    },
+
+    accessRequests: {
+      async create(roomId, data) {
+        const request = { ...copy(data), id: newId() };
+        collection(accessRequests, roomId).set(request.id, request);
+        return copy(request);
+      },
+
+      async findPending(roomId, userId) {
+        const pending = [...collection(accessRequests, roomId).values()]
+          .filter((r) => r.userId === String(userId) && r.status === "pending")
+          .sort((a, b) => b.requestedAt.localeCompare(a.requestedAt));
+        return pending.length > 0 ? copy(pending[0]) : null;
+      },
+
+      async listByRoom(roomId, status) {
+        return [...collection(accessRequests, roomId).values()]
+          .filter((r) => !status || r.status === status)
+          .sort((a, b) => a.requestedAt.localeCompare(b.requestedAt))
+          .map(copy);
+      },
+
+      async update(roomId, requestId, patch) {
+        const current = collection(accessRequests, roomId).get(requestId);
+        if (!current) throw new Error(`Access request ${requestId} not found`);
+        collection(accessRequests, roomId).set(requestId, {
+          ...current,
+          ...copy(patch),
+        });
+      },
+    },
+
+    invites: {
+      async create(roomId, data) {
+        const invite = { ...copy(data), id: newId() };
+        collection(invites, roomId).set(invite.id, invite);
+        return copy(invite);
+      },
+
+      async get(roomId, inviteId) {
+        const invite = collection(invites, roomId).get(inviteId);
+        return invite ? copy(invite) : null;
+      },
+
+      async listByRoom(roomId) {
+        return [...collection(invites, roomId).values()]
+          .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+          .map(copy);
+      },
+
+      async update(roomId, inviteId, patch) {
+        const current = collection(invites, roomId).get(inviteId);
+        if (!current) throw new Error(`Invite ${inviteId} not found`);
+        collection(invites, roomId).set(inviteId, { ...current, ...copy(patch) });
+      },
+
+      async claimUse(roomId, inviteId) {
+        const invite = collection(invites, roomId).get(inviteId);
+        if (!invite || invite.revokedAt) return null;
+        if (invite.maxUses !== null && invite.uses >= invite.maxUses) return null;
+
+        invite.uses += 1;
+        return copy(invite);
+      },
+
+      async releaseUse(roomId, inviteId) {
+        const invite = collection(invites, roomId).get(inviteId);
+        if (invite && invite.uses > 0) invite.uses -= 1;
+      },
+    },
+
+    audit: {
+      async create(roomId, data) {
+        const entry = { ...copy(data), id: newId() };
+        collection(audit, roomId).set(entry.id, entry);
+        return copy(entry);
+      },
+
+      async listByRoom(roomId, limit) {
+        // Reversed first so entries of the same millisecond stay newest first
+        return [...collection(audit, roomId).values()]
+          .reverse()
+          .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+          .slice(0, limit)
+          .map(copy);
+      },
+    },
+
+    connections: {
+      async listByRoom(roomId) {
+        return [...collection(connections, roomId).values()].map(copy);
+      },
+
+      async listInWindow(roomId, from, to, limit) {
+        return [...collection(connections, roomId).values()]
+          .filter(
+            (c) => c.joinedAt <= to && (c.leftAt === null || c.leftAt >= from)
+          )
+          .sort((a, b) => a.joinedAt.localeCompare(b.joinedAt))
+          .slice(0, limit)
+          .map(copy);
+      },
+
+      async listActive(roomId) {
+        return [...collection(connections, roomId).values()]
+          .filter((connection) => connection.leftAt === null)
+          .map(copy);
+      },
+
+      async listRoomsOfUser(userId, since, limit) {
+        const roomIds = [...connections.values()]
+          .flatMap((room) => [...room.values()])
+          .filter((c) => c.userId === String(userId) && c.joinedAt >= since)
+          .sort((a, b) => b.joinedAt.localeCompare(a.joinedAt))
+          .slice(0, limit)
+          .map((c) => c.roomId);
+        return [...new Set(roomIds)];
+      },
+
+      async listOpen(limit, joinedAfter) {
+        return [...connections.values()]
+          .flatMap((room) => [...room.values()])
+          .filter(
+            (c) => c.leftAt === null && (!joinedAfter || c.joinedAt > joinedAfter)
+          )
+          .sort((a, b) => a.joinedAt.localeCompare(b.joinedAt))
+          .slice(0, limit)
+          .map(copy);
+      },
+
+      async findActive(roomId, userId) {
+        for (const connection of collection(connections, roomId).values()) {
+          if (connection.userId === String(userId) && connection.leftAt === null) {
+            return copy(connection);
+          }
+        }
+        return null;
+      },
+
+      async create(roomId, data) {
+        const connection = { ...copy(data), id: newId() };
+        collection(connections, roomId).set(connection.id, connection);
+        return copy(connection);
+      },
+
+      async update(roomId, connectionId, patch) {
+        const current = collection(connections, roomId).get(connectionId);
+        if (!current) throw new Error(`Connection ${connectionId} not found`);
+        collection(connections, roomId).set(connectionId, {
+          ...current,
+          ...copy(patch),
+        });
+      },
+    },
+
+    readCursors: {
+      async get(roomId, userId) {
+        const cursor = collection(cursors, roomId).get(String(userId));
+        return cursor ? copy(cursor) : null;
+      },
+
+      async advance(roomId, cursor) {
+        const current = collection(cursors, roomId).get(String(cursor.userId));
+
+        if (
+          current &&
+          new Date(current.lastReadAt).getTime() >=
+            new Date(cursor.lastReadAt).getTime()
+        ) {
+          return { cursor: copy(current), changed: false };
+        }
+
+        collection(cursors, roomId).set(String(cursor.userId), copy(cursor));
+        return { cursor: copy(cursor), changed: true };
+      },
+    },
+
+    presence: {
+      async get(userId) {
+        const record = presence.get(String(userId));
+        return record ? copy(record) : null;
+      },
+
+      async set(record) {
+        presence.set(String(record.userId), copy(record));
+      },
+    },
+
+    instances: {
+      async get(instanceId) {
+        const instance = instances.get(instanceId);
+        return instance ? copy(instance) : null;
+      },
+
+      async list() {
+        return [...instances.values()].map(copy);
+      },
+
+      async set(instance) {
+        instances.set(instance.id, copy(instance));
+      },
+
+      async delete(instanceId) {
+        instances.delete(instanceId);
+      },
+    },
+
+    users: {
+      async findIdByUid(firebaseUid) {
+        return users.get(firebaseUid) ?? null;
+      },
+    },
+  };
+};
@@ -0,0 +1,228 @@
+/**
+ * Storage Repositories
+ * Persistence contracts used by the service layer. Each backend (Firestore,
+ * in-memory) implements all of them and is exposed as a single `Store`.
+ */
+
+import type {
+  StoredMessage,
+  StoredRoom,
+  RoomAccess,
+  RoomConnection,
+  ReadCursor,
+  AccessRequest,
+  AccessRequestStatus,
+  RoomInvite,
+  AuditEntry,
+  PresenceRecord,
+  ServerInstance,
+} from "../types";
+
+// ===== Messages =====
+
+/**
+ * Fields of a message document, without its ID.
+ */
+export type MessageData = Omit<StoredMessage, "id">;
+
+/**
+ * Partial update of a message. Fields set to `undefined` are removed from
+ * the document.
+ */
+export type MessagePatch = Partial<MessageData>;
+
+/**
+ * Filters and ordering of a message listing. Orderings are by `createAt`.
+ */
+export interface MessageQuery {
+  /** Only messages sent by this user. */
+  userId?: string;
+  /** Only replies of this thread. */
+  threadId?: string;
+  order?: "asc" | "desc";
+  /** Message ID to continue after (exclusive), in the requested order. */
+  startAfter?: string;
+  /** Only messages created after this date (exclusive). */
+  createdAfter?: Date;
+  limit?: number;
+}
+
+/**
+ * Reads and writes performed atomically inside `MessageRepository.transaction`.
+ * All reads must happen before the first write.
+ */
+export interface MessageTransaction {
+  get(roomId: string, messageId: string): Promise<StoredMessage | null>;
+  /** Fails the transaction if the message already exists. */
+  create(roomId: string, messageId: string, data: MessageData): void;
+  update(roomId: string, messageId: string, patch: MessagePatch): void;
+}
+
+export interface MessageRepository {
+  /** Reserves a new unique message ID in a room. */
+  newId(roomId: string): string;
+  get(roomId: string, messageId: string): Promise<StoredMessage | null>;
+  list(roomId: string, query?: MessageQuery): Promise<StoredMessage[]>;
+  /**
+   * Runs `fn` atomically: either all its writes are applied or none. The
+   * callback may be retried when it conflicts with another transaction.
+   */
+  transaction<T>(fn: (tx: MessageTransaction) => Promise<T>): Promise<T>;
+}
+
+// ===== Rooms =====
+
+export interface RoomRepository {
+  get(roomId: string): Promise<StoredRoom | null>;
+  create(data: Omit<StoredRoom, "id">): Promise<StoredRoom>;
+  update(roomId: string, patch: Partial<Omit<StoredRoom, "id">>): Promise<void>;
+}
+
+// ===== Access Grants =====
+
+export interface AccessRepository {
+  /**
+   * Grant of a user. Older grants store the user ID as a number, so both
+   * representations match.
+   */
+  findByUser(roomId: string, userId: string): Promise<RoomAccess | null>;
+  listByRoom(roomId: string): Promise<RoomAccess[]>;
+  create(roomId: string, data: Omit<RoomAccess, "id">): Promise<RoomAccess>;
+  delete(roomId: string, accessId: string): Promise<void>;
+}
+
+// ===== Access Requests =====
+
+export interface AccessRequestRepository {
+  create(roomId: string, data: Omit<AccessRequest, "id">): Promise<AccessRequest>;
+  /** The latest request of a user still in `pending` state, if any. */
+  findPending(roomId: string, userId: string): Promise<AccessRequest | null>;
+  /** Requests of a room, oldest first, optionally filtered by status. */
+  listByRoom(roomId: string, status?: AccessRequestStatus): Promise<AccessRequest[]>;
+  update(
+    roomId: string,
+    requestId: string,
+    patch: Partial<Omit<AccessRequest, "id" | "roomId">>
+  ): Promise<void>;
+}
+
+// ===== Invites =====
+
+export interface InviteRepository {
+  create(roomId: string, data: Omit<RoomInvite, "id">): Promise<RoomInvite>;
+  get(roomId: string, inviteId: string): Promise<RoomInvite | null>;
+  /** Invites of a room, newest first. */
+  listByRoom(roomId: string): Promise<RoomInvite[]>;
+  update(
+    roomId: string,
+    inviteId: string,
+    patch: Partial<Omit<RoomInvite, "id" | "roomId">>
+  ): Promise<void>;
+  /**
+   * Atomically counts one use of an invite that is not revoked and has uses
+   * left. Returns the invite after the use, or null when it cannot be used.
+   */
+  claimUse(roomId: string, inviteId: string): Promise<RoomInvite | null>;
+  /** Gives back a use taken by `claimUse` when the redemption failed. */
+  releaseUse(roomId: string, inviteId: string): Promise<void>;
+}
+
+// ===== Audit Log =====
+
+export interface AuditRepository {
+  create(roomId: string, data: Omit<AuditEntry, "id">): Promise<AuditEntry>;
+  /** Latest entries of a room, newest first. */
+  listByRoom(roomId: string, limit: number): Promise<AuditEntry[]>;
+}
+
+// ===== Connections =====
+
+export interface ConnectionRepository {
+  listByRoom(roomId: string): Promise<RoomConnection[]>;
+  /**
+   * Connections of a room whose interval overlaps `[from, to]` (ISO dates),
+   * open ones included, oldest join first, at most `limit`.
+   */
+  listInWindow(
+    roomId: string,
+    from: string,
+    to: string,
+    limit: number
+  ): Promise<RoomConnection[]>;
+  /** Connections of a room that have no `leftAt` yet. */
+  listActive(roomId: string): Promise<RoomConnection[]>;
+  /** IDs of the rooms of a user's latest `limit` sessions joined at or after `since`. */
+  listRoomsOfUser(userId: string, since: string, limit: number): Promise<string[]>;
+  /**
+   * Open connections of every room, oldest join first, joined after
+   * `joinedAfter` (exclusive) when given, at most `limit`.
+   */
+  listOpen(limit: number, joinedAfter?: string): Promise<RoomConnection[]>;
+  /** The connection of a user that has no `leftAt` yet, if any. */
+  findActive(roomId: string, userId: string): Promise<RoomConnection | null>;
+  create(roomId: string, data: Omit<RoomConnection, "id">): Promise<RoomConnection>;
+  update(
+    roomId: string,
+    connectionId: string,
+    patch: Partial<Omit<RoomConnection, "id">>
+  ): Promise<void>;
+}
+
+// ===== Read Cursors =====
+
+export interface ReadCursorRepository {
+  get(roomId: string, userId: string): Promise<ReadCursor | null>;
+  /**
+   * Stores `cursor` unless the stored one is already at or past its
+   * `lastReadAt`. Returns the cursor in place afterwards.
+   */
+  advance(
+    roomId: string,
+    cursor: ReadCursor
+  ): Promise<{ cursor: ReadCursor; changed: boolean }>;
+}
+
+// ===== Presence =====
+
+export interface PresenceRepository {
+  get(userId: string): Promise<PresenceRecord | null>;
+  set(record: PresenceRecord): Promise<void>;
+}
+
+// ===== Server Instances =====
+
+export interface InstanceRepository {
+  get(instanceId: string): Promise<ServerInstance | null>;
+  list(): Promise<ServerInstance[]>;
+  /** Creates or replaces the record of an instance. */
+  set(instance: ServerInstance): Promise<void>;
+  delete(instanceId: string): Promise<void>;
+}
+
+// ===== Users =====
+
+export interface UserRepository {
+  /** Backend user ID of a Firebase UID, or null if there is no user document. */
+  findIdByUid(firebaseUid: string): Promise<string | null>;
+}
+
+// ===== Store =====
+
+/**
+ * All the repositories of one storage backend.
+ */
+export interface Store {
+  /** Backend name, for logs and the health endpoint. */
+  driver: string;
+  messages: MessageRepository;
+  rooms: RoomRepository;
+  access: AccessRepository;
+  accessRequests: AccessRequestRepository;
+  invites: InviteRepository;
+  audit: AuditRepository;
+  connections: ConnectionRepository;
+  readCursors: ReadCursorRepository;
+  presence: PresenceRepository;
+  instances: InstanceRepository;
+  users: UserRepository;
+}
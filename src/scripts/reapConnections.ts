@@ -0,0 +1,45 @@
+/**
+ * Reap Stale Connections
+ * One-off admin command that closes the connections left open by chat
+ * server instances that crashed or were redeployed, with the same storage
+ * settings as the server (`STORAGE_DRIVER`, Firebase credentials).
+ *
+ * Only heartbeats are checked: without the sockets of the running servers,
+ * records from before instances were tracked are closed even if the user
+ * is still connected. Pass `--dry-run` to list what would be closed.
+ *
+ * @example
+ * npm run reap -- --dry-run
+ */
+
+import "dotenv/config";
+import { createStoreFromEnv, setStore } from "../repositories";
+import { reapStaleConnections } from "../services/reaperService";
+
+async function main() {
+  const dryRun = process.argv.includes("--dry-run");
+  setStore(await createStoreFromEnv());
+
+  const result = await reapStaleConnections({ dryRun });
+  if (!result.success) {
+    console.error(`[REAPER] ❌ ${result.message}`);
+    return 1;
+  }
+
+  for (const c of result.reaped) {
+    console.log(
+      `[REAPER] ${dryRun ? "Would close" : "Closed"} ${c.roomId}/${c.connectionId} of user ${c.userId} (${c.instanceId ?? "no instance"}) at ${c.leftAt}`
+    );
+  }
+  console.log(
+    `[REAPER] ✅ ${result.scanned} open connections checked, ${result.reaped.length} ${dryRun ? "to close" : "closed"}, ${result.prunedInstances} old instances removed`
+  );
+  return 0;
+}
+
+main()
+  .then((code) => process.exit(code))
+  .catch((error) => {
+    console.error("[REAPER] ❌ Failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,3923 @@
+/**
+ * Chat Server Factory
+ * Builds the Express app, the HTTP server and the Socket.IO server with all
+ * the chat handlers, so the service can be started by the entrypoint or
+ * spun up in-process by the integration tests.
+ */
+
+import express from "express";
+import type { NextFunction, Request, Response } from "express";
+import { createServer, type Server as HttpServer } from "http";
+import { Server, type ServerOptions } from "socket.io";
+import cors from "cors";
+
+// Storage backend (Firestore or in-memory, see repositories/index.ts)
+import { getStore, setStore, type Store } from "./repositories";
+
+import { getRoomAccessForUser } from "./services/roomAcessService";
+
+import {
+  requestAccess,
+  listPendingRequests,
+  approveAccessRequest,
+  denyAccessRequest,
+  revokeAccess,
+} from "./services/accessRequestService";
+
+import {
+  createInvite,
+  listInvites,
+  revokeInvite,
+  redeemInvite,
+} from "./services/inviteService";
+
+import {
+  isBanned,
+  kickUser,
+  banUser,
+  unbanUser,
+  setRoomLocked,
+  requestMute,
+  listAuditLog,
+  endRoom,
+} from "./services/moderationService";
+
+import { createConnection, leftConnection } from "./services/userConnection";
+
+import { getAttendanceReport, toAttendanceCsv } from "./services/attendanceService";
+
+import {
+  RECONNECT_GRACE_MS,
+  RESUMABLE_DISCONNECT_REASONS,
+  resumeRoomSession,
+} from "./services/sessionService";
+
+import {
+  HEARTBEAT_INTERVAL_MS,
+  REAPER_INTERVAL_MS,
+  createInstanceId,
+  markInstanceStopped,
+  reapStaleConnections,
+  sendHeartbeat,
+} from "./services/reaperService";
+
+import {
+  createMessage,
+  getMessagesPage,
+  getMessageById,
+  editMessage,
+  deleteMessage,
+  canSeeMessage,
+  toMessagePayload,
+  addReaction,
+  removeReaction,
+} from "./services/messageService";
+
+import {
+  canReadRoom,
+  toRoomDetails,
+  createRoom,
+  updateRoom,
+  setRoomArchived,
+  deleteRoom,
+  type RoomMutationResult,
+} from "./services/roomService";
+
+import {
+  can,
+  hasPermission,
+  resolveRole,
+  setRoomRole,
+  getUsersAllowedTo,
+} from "./services/roleService";
+
+import {
+  verifyAccessToken,
+  resolveBackendUserId,
+} from "./services/authService";
+
+import { markRead, getUnreadCount } from "./services/readReceiptService";
+
+import {
+  mergePresence,
+  getLastSeen,
+  recordLastSeen,
+  filterVisiblePresence,
+} from "./services/presenceService";
+
+import {
+  startTyping,
+  stopTyping,
+  type TypingEntry,
+} from "./services/typingService";
+
+import {
+  createSignalingCoordinator,
+  isPolitePeer,
+  type DescriptionDecision,
+} from "./services/signalingService";
+
+import { validatePayloads, validateEvent } from "./middleware/validation";
+import {
+  createRateLimiter,
+  createInMemoryRateLimitStore,
+  type RateLimitOptions,
+} from "./middleware/rateLimit";
+
+import {
+  PROTOCOL_VERSION,
+  MIN_PROTOCOL_VERSION,
+  UNSUPPORTED_PROTOCOL,
+  negotiateProtocol,
+} from "./config/protocol";
+
+// Import types
+import type {
+  ServerToClientEvents,
+  ClientToServerEvents,
+  InterServerEvents,
+  SocketData,
+  JWTUser,
+  RoomUser,
+  ChatMessagePayload,
+  UserTypingPayload,
+  ReactionPayload,
+  AckCallback,
+  RoomChange,
+  RoomDetails,
+  RoomRole,
+  StoredRoomRole,
+  RoleChangedPayload,
+  AccessRequest,
+  AuditEntry,
+  LobbyUser,
+  LobbyActionPayload,
+  ModerationAction,
+  SocketPresence,
+  UserPresence,
+  SessionDescription,
+  SignalAck,
+} from "./types";
+
+/**
+ * Build the list of allowed CORS origins for both Express and Socket.IO.
+ *
+ * Priority:
+ * 1. `FRONTEND_URL` env var (single origin, usually the production frontend).
+ * 2. Additional comma‑separated origins from `ORIGIN`.
+ * 3. In non‑production environments, common localhost ports are always allowed.
+ *
+ * @returns Array of normalized origin URLs.
+ */
+export const getAllowedOrigins = (): string[] => {
+  const origins: string[] = [];
+
+  // Add frontend URL if provided
+  if (process.env.FRONTEND_URL) {
+    let frontendUrl = process.env.FRONTEND_URL.trim();
+    if (frontendUrl && !frontendUrl.startsWith("http")) {
+      frontendUrl = `https://${frontendUrl}`;
+    }
+    if (frontendUrl.endsWith("/")) {
+      frontendUrl = frontendUrl.slice(0, -1);
+    }
+    origins.push(frontendUrl);
+  }
+
+  // Add additional origins from ORIGIN env variable (comma-separated)
+  if (process.env.ORIGIN) {
+    const additionalOrigins = process.env.ORIGIN.split(",")
+      .map((s) => s.trim())
+      .filter(Boolean);
+    origins.push(...additionalOrigins);
+  }
+
+  // Always allow localhost in development
+  if (process.env.NODE_ENV !== "production") {
+    origins.push("http://localhost:5173", "http://localhost:3000");
+  }
+
+  return origins;
+};
+
+/**
+ * Options of `createChatServer`.
+ */
+export interface ChatServerOptions {
+  /** Storage backend used by every service. */
+  store: Store;
+  /**
+   * Verifies the token of a socket handshake or REST request. Defaults to
+   * the backend JWT check with Firebase fallback (`verifyAccessToken`).
+   */
+  auth?: (token: string) => Promise<JWTUser>;
+  /** Port used by `listen()` when none is given. Defaults to `PORT` or 4000. */
+  port?: number;
+  /** Cluster adapter factory; omit to run as a single instance. */
+  adapter?: ServerOptions["adapter"];
+  /**
+   * How long a lookup of sockets on the other nodes waits for their answers,
+   * in ms. Defaults to 5 s.
+   */
+  clusterTimeoutMs?: number;
+  /** CORS origins; defaults to the ones read from the environment. */
+  allowedOrigins?: string[];
+  /**
+   * How long a dropped socket keeps its room and can resume, in ms.
+   * Defaults to `RECONNECT_GRACE_MS` (30 s); 0 turns resuming off.
+   */
+  reconnectGraceMs?: number;
+  /** ID of this process in `instances`; a unique one is generated by default. */
+  instanceId?: string;
+  /** How often `listen()` refreshes the heartbeat, in ms. Defaults to `HEARTBEAT_INTERVAL_MS`. */
+  heartbeatIntervalMs?: number;
+  /**
+   * How often the stale connection reaper runs, in ms, after a first run on
+   * `listen()`. Defaults to `REAPER_INTERVAL_MS` (5 min); 0 turns it off.
+   */
+  reaperIntervalMs?: number;
+  /**
+   * Rate limit store, budgets and offender policy. Defaults to in-memory
+   * buckets with `RATE_LIMIT_BUDGETS`.
+   */
+  rateLimit?: Partial<RateLimitOptions>;
+}
+
+/**
+ * A chat server instance, not yet listening.
+ */
+export interface ChatServer {
+  app: express.Express;
+  httpServer: HttpServer;
+  io: Server<
+    ClientToServerEvents,
+    ServerToClientEvents,
+    InterServerEvents,
+    SocketData
+  >;
+  /** ID of this process, stamped on the connections it opens. */
+  instanceId: string;
+  /**
+   * Starts listening, the heartbeat and the stale connection reaper;
+   * resolves with the bound port (useful with port 0).
+   */
+  listen(port?: number): Promise<number>;
+  /**
+   * Closes the connections left open by instances that are gone, handing
+   * those of users still connected somewhere over to this instance.
+   */
+  reapConnections(): ReturnType<typeof reapStaleConnections>;
+  /** Disconnects every socket, stops the HTTP server and records the shutdown. */
+  close(): Promise<void>;
+}
+
+/**
+ * Creates a chat server. The store is installed process-wide (see
+ * `setStore`), so servers created in the same process share it.
+ *
+ * @param {ChatServerOptions} options - Store, auth, port and cluster adapter
+ * @returns {ChatServer} The server, ready to `listen()`
+ * @example
+ * const server = createChatServer({ store: createInMemoryStore() });
+ * const port = await server.listen(0);
+ */
+export const createChatServer = (options: ChatServerOptions): ChatServer => {
+  setStore(options.store);
+
+  const authenticate = options.auth ?? verifyAccessToken;
+  const reconnectGraceMs = options.reconnectGraceMs ?? RECONNECT_GRACE_MS;
+  const instanceId = options.instanceId ?? createInstanceId();
+  const startedAt = new Date().toISOString();
+  const heartbeatIntervalMs = options.heartbeatIntervalMs ?? HEARTBEAT_INTERVAL_MS;
+  const reaperIntervalMs = options.reaperIntervalMs ?? REAPER_INTERVAL_MS;
+  const clusterTimeoutMs = options.clusterTimeoutMs ?? 5000;
+
+  // ===== Initialize Express App =====
+  /**
+   * Express application instance used to expose HTTP APIs for health checks
+   * and read-only helpers (messages history, online users, etc.).
+   */
+  const app = express();
+
+  /**
+   * Node HTTP server wrapping the Express app.
+   * This server is also used as the transport layer for Socket.IO.
+   */
+  const httpServer = createServer(app);
+
+
+  const allowedOrigins = options.allowedOrigins ?? getAllowedOrigins();
+
+  // ===== Configure CORS for Express =====
+  app.use(
+    cors({
+      origin: (origin, callback) => {
+        // Allow requests with no origin (like mobile apps or Postman)
+        if (!origin) {
+          return callback(null, true);
+        }
+
+        // Allow all origins in development if none configured
+        if (
+          allowedOrigins.length === 0 &&
+          process.env.NODE_ENV !== "production"
+        ) {
+          return callback(null, true);
+        }
+
+        if (allowedOrigins.includes(origin)) {
+          callback(null, true);
+        } else {
+          console.warn(`[CORS] ⚠️ Blocked origin: ${origin}`);
+          callback(new Error(`CORS: Not allowed by CORS for origin: ${origin}`));
+        }
+      },
+      credentials: true,
+      optionsSuccessStatus: 200,
+    })
+  );
+
+  app.use(express.json());
+
+  /**
+   * Socket.IO server instance responsible for all real‑time communication.
+   *
+   * - Auth is handled in the `io.use` middleware below.
+   * - CORS configuration is shared with the Express app.
+   * - The event maps from `types/index.ts` are enforced on every `on`/`emit`.
+   * - Inbound payloads are validated per socket (see `middleware/validation.ts`).
+   */
+  const io = new Server<
+    ClientToServerEvents,
+    ServerToClientEvents,
+    InterServerEvents,
+    SocketData
+  >(httpServer, {
+    cors: {
+      origin: allowedOrigins.length > 0 ? allowedOrigins : "*",
+      credentials: true,
+    },
+    // Largest legitimate packet is an SDP offer; anything bigger is dropped
+    maxHttpBufferSize: 256 * 1024,
+    // Dropped sockets come back with their rooms, data and missed broadcasts.
+    // The token is checked again. Needs an adapter that keeps sessions: with
+    // a cluster adapter clients rejoin instead, within the same grace window.
+    ...(reconnectGraceMs > 0 && {
+      connectionStateRecovery: {
+        maxDisconnectionDuration: reconnectGraceMs,
+        skipMiddlewares: false,
+      },
+    }),
+  });
+
+  /**
+   * True when a cluster adapter is installed (`options.adapter`). With the
+   * default in-memory adapter there are no other nodes to notify.
+   */
+  let clustered = false;
+  if (options.adapter) {
+    io.adapter(options.adapter);
+    clustered = true;
+  }
+
+  /**
+   * Sends an event to the other server instances of the cluster.
+   *
+   * @param {string} event - The inter-server event name
+   * @param {...any} args - The event arguments
+   */
+  function emitToNodes<E extends keyof InterServerEvents>(
+    event: E,
+    ...args: Parameters<InterServerEvents[E]>
+  ) {
+    if (clustered) io.serverSideEmit(event, ...args);
+  }
+
+  /**
+   * Fetches the sockets in a Socket.IO room on every node. Until a crashed
+   * replica misses enough heartbeats to be dropped, the cluster lookup times
+   * out; the sockets of this node are returned then, so one dead replica
+   * cannot take the others down with it.
+   *
+   * @param {string} room - The Socket.IO room
+   * @returns The sockets in the room
+   */
+  async function fetchSocketsIn(room: string) {
+    try {
+      return await io.in(room).timeout(clusterTimeoutMs).fetchSockets();
+    } catch (error) {
+      console.error(`[CLUSTER] ⚠️ Lookup of ${room} failed, using this node only:`, error);
+      return io.local.in(room).fetchSockets();
+    }
+  }
+
+  /**
+   * Name of the Socket.IO room holding the sockets of one user inside one
+   * chat room. Targeting it reaches the user on whichever node they are
+   * connected to.
+   *
+   * @param {string} roomId - The chat room
+   * @param {string} userId - The user
+   * @returns {string} The per-user room name
+   */
+  const userRoom = (roomId: string, userId: string) => `${roomId}#user:${userId}`;
+
+  /**
+   * Name of the Socket.IO room holding every socket of a user, joined on
+   * connection. Used to reach users who are not in the chat room yet, such
+   * as someone waiting for an access request to be answered.
+   *
+   * @param {string} userId - The user
+   * @returns {string} The per-user channel name
+   */
+  const userChannel = (userId: string) => `user:${userId}`;
+
+  /**
+   * Name of the Socket.IO room holding the sockets waiting in the lobby of
+   * a chat room. They are not in the chat room itself until admitted.
+   *
+   * @param {string} roomId - The chat room
+   * @returns {string} The lobby room name
+   */
+  const lobbyRoom = (roomId: string) => `${roomId}#lobby`;
+
+  /**
+   * Name of the Socket.IO room of the sockets subscribed to the presence
+   * of a user with `subscribe_presence`.
+   *
+   * @param {string} userId - The watched user
+   * @returns {string} The presence channel name
+   */
+  const presenceChannel = (userId: string) => `presence:${userId}`;
+
+  /**
+   * Sockets that dropped within a room, keyed by socket ID. Each timer
+   * releases the socket's place when the grace window ends, unless the
+   * socket is recovered first.
+   */
+  const graceTimers = new Map<string, NodeJS.Timeout>();
+
+  /**
+   * Heartbeat and reaper timers, started by `listen()`.
+   */
+  const backgroundTimers: NodeJS.Timeout[] = [];
+
+  /**
+   * Per-socket rate limiter. Buckets live in process memory unless
+   * `options.rateLimit` brings a shared store to enforce budgets across
+   * instances.
+   */
+  const rateLimit = createRateLimiter({
+    ...options.rateLimit,
+    store: options.rateLimit?.store ?? createInMemoryRateLimitStore(),
+  });
+
+  /**
+   * Negotiation state of the WebRTC pairs of every room. Nodes of a cluster
+   * keep theirs in step with `signal_described` and `signal_peer_left`.
+   */
+  const signaling = createSignalingCoordinator();
+
+  // ===== Duplicate Join Prevention =====
+
+  /**
+   * Track pending room joins to prevent duplicates from React StrictMode.
+   * Maps "userId:roomId" to a Set of timestamps. Pending joins are replicated
+   * to the other nodes, so a duplicate that lands on another replica is
+   * rejected as well.
+   */
+  const pendingJoins = new Map<string, Set<string>>();
+
+  /**
+   * Check if a join is already in progress for this user+room combination.
+   * This prevents React StrictMode from creating duplicate connections.
+   * 
+   * @param userId - The user ID
+   * @param roomId - The room ID  
+   * @returns true if join is already pending, false otherwise
+   */
+  function isJoinPending(userId: string, roomId: string): boolean {
+    const key = `${userId}:${roomId}`;
+    const now = Date.now();
+
+    if (!pendingJoins.has(key)) {
+      pendingJoins.set(key, new Set());
+    }
+
+    const timestamps = pendingJoins.get(key)!;
+
+    // Clean up old entries (older than 5 seconds)
+    for (const ts of timestamps) {
+      if (now - parseInt(ts) > 5000) {
+        timestamps.delete(ts);
+      }
+    }
+
+    // If there's a recent join (within last 2 seconds), it's a duplicate
+    for (const ts of timestamps) {
+      if (now - parseInt(ts) < 2000) {
+        return true;
+      }
+    }
+
+    // Mark this join as pending
+    timestamps.add(now.toString());
+    emitToNodes("join_pending", userId, roomId, now);
+    return false;
+  }
+
+  /**
+   * Clear pending join for a user+room combination.
+   * Call this after join completes or fails.
+   * 
+   * @param userId - The user ID
+   * @param roomId - The room ID
+   */
+  function clearPendingJoin(userId: string, roomId: string): void {
+    const key = `${userId}:${roomId}`;
+    pendingJoins.delete(key);
+    emitToNodes("join_cleared", userId, roomId);
+  }
+
+  // Joins started or finished on other nodes
+  io.on("join_pending", (userId, roomId, startedAt) => {
+    const key = `${userId}:${roomId}`;
+    if (!pendingJoins.has(key)) {
+      pendingJoins.set(key, new Set());
+    }
+    pendingJoins.get(key)!.add(startedAt.toString());
+  });
+
+  io.on("join_cleared", (userId, roomId) => {
+    pendingJoins.delete(`${userId}:${roomId}`);
+  });
+
+  // ===== HTTP REST Endpoints =====
+
+  /**
+   * Basic health‑check endpoint for load‑balancers and uptime monitors.
+   *
+   * Returns a small JSON payload with service metadata and the
+   * number of users currently tracked as online.
+   */
+  app.get("/", (_req, res) => {
+    res.json({
+      status: "online",
+      service: "Charlaton Chat Microservice",
+      message: "WebSocket chat server is running",
+      onlineUsers: io.engine.clientsCount,
+      version: "1.0.0",
+      protocolVersion: PROTOCOL_VERSION,
+    });
+  });
+
+  /**
+   * Lightweight liveness endpoint exposing process uptime and timestamp.
+   *
+   * This is intentionally small and unauthenticated so that platforms like
+   * Render / Railway can use it for health probes.
+   */
+  app.get("/health", (req, res) => {
+    res.json({
+      status: "ok",
+      timestamp: Date.now(),
+      uptime: process.uptime(),
+    });
+  });
+
+  /**
+   * Express middleware that authenticates REST requests.
+   *
+   * Expects `Authorization: Bearer <token>` and verifies it with the same
+   * backend JWT / Firebase fallback used by the Socket.IO middleware. On
+   * success the verified user is stored in `res.locals.user` and the backend
+   * user ID in `res.locals.userId`.
+   */
+  async function requireAuth(req: Request, res: Response, next: NextFunction) {
+    const header = req.headers.authorization || "";
+    const token = header.startsWith("Bearer ") ? header.slice(7).trim() : "";
+
+    if (!token) {
+      res.status(401).json({
+        success: false,
+        message: "Authentication token required",
+      });
+      return;
+    }
+
+    try {
+      const user = await authenticate(token);
+      res.locals.user = user;
+      res.locals.userId = await resolveBackendUserId(user.id);
+      next();
+    } catch (err: any) {
+      console.error(`[AUTH] REST authentication failed:`, err.message);
+      res.status(401).json({
+        success: false,
+        message: "Invalid authentication token",
+      });
+    }
+  }
+
+  /**
+   * Returns one page of a room's message history.
+   *
+   * Query params:
+   * - `before`: ID of the oldest message the client already has (cursor).
+   * - `limit`: page size, capped at 100.
+   *
+   * Private messages are only included for their sender and targets.
+   */
+  app.get("/rooms/:roomId/messages", requireAuth, async (req, res) => {
+    const { roomId } = req.params;
+    const userId: string = res.locals.userId;
+
+    if (!(await canReadRoom(roomId, userId))) {
+      res.status(403).json({
+        success: false,
+        message: "usuario sin permisos para la sala",
+      });
+      return;
+    }
+
+    const page = await getMessagesPage(roomId, userId, {
+      before: typeof req.query.before === "string" ? req.query.before : undefined,
+      limit: Number(req.query.limit) || undefined,
+    });
+
+    if (!page.success) {
+      res.status(400).json(page);
+      return;
+    }
+
+    res.json({ roomId, ...page });
+  });
+
+  /**
+   * Returns the number of unread messages of the authenticated user in a room,
+   * so the frontend can show badges for rooms the user is not connected to.
+   */
+  app.get("/rooms/:roomId/unread", requireAuth, async (req, res) => {
+    const { roomId } = req.params;
+    const userId: string = res.locals.userId;
+
+    if (!(await canReadRoom(roomId, userId))) {
+      res.status(403).json({
+        success: false,
+        message: "usuario sin permisos para la sala",
+      });
+      return;
+    }
+
+    const unread = await getUnreadCount(roomId, userId);
+
+    if (!unread.success) {
+      res.status(500).json({ roomId, ...unread });
+      return;
+    }
+
+    res.json({ roomId, ...unread });
+  });
+
+  // ===== Room Lifecycle (REST) =====
+
+  /**
+   * HTTP status of each room mutation failure code.
+   */
+  const ROOM_ERROR_STATUS: Record<string, number> = {
+    INVALID_PAYLOAD: 400,
+    PAYLOAD_TOO_LARGE: 413,
+    FORBIDDEN: 403,
+    ROOM_NOT_FOUND: 404,
+    ROOM_ARCHIVED: 409,
+    STORAGE_ERROR: 500,
+  };
+
+  /**
+   * HTTP status of each access request, grant and invite failure code.
+   */
+  const ACCESS_ERROR_STATUS: Record<string, number> = {
+    FORBIDDEN: 403,
+    INVALID_TARGET: 400,
+    ACCESS_NOT_FOUND: 404,
+    ROOM_NOT_FOUND: 404,
+    INVITE_NOT_FOUND: 404,
+    ROOM_ARCHIVED: 409,
+    ROOM_NOT_PRIVATE: 409,
+    STORAGE_ERROR: 500,
+  };
+
+  /**
+   * Validates a REST body with the schema of the equivalent socket event,
+   * so both APIs accept exactly the same payloads.
+   *
+   * @returns {boolean} True when the body is valid; otherwise a 400 was sent
+   */
+  function validateBody(
+    event:
+      | "create_room"
+      | "update_room"
+      | "archive_room"
+      | "delete_room"
+      | "create_invite",
+    body: unknown,
+    res: Response
+  ): boolean {
+    const issue = validateEvent(event, [body]);
+    if (!issue) return true;
+
+    res.status(ROOM_ERROR_STATUS[issue.code] || 400).json({
+      success: false,
+      code: issue.code,
+      message: issue.message,
+    });
+    return false;
+  }
+
+  /**
+   * Sends the result of a room mutation and announces it to the room.
+   */
+  async function sendRoomResult(
+    res: Response,
+    result: RoomMutationResult,
+    userId: string,
+    status = 200
+  ) {
+    if (!result.success) {
+      res.status(ROOM_ERROR_STATUS[result.code] || 500).json(result);
+      return;
+    }
+
+    await publishRoomChange(result.change, result.room, userId);
+    res.status(status).json({
+      success: true,
+      message: result.message,
+      room: result.room,
+    });
+  }
+
+  /**
+   * Returns the details of a room the user can read.
+   */
+  app.get("/rooms/:roomId", requireAuth, async (req, res) => {
+    const { roomId } = req.params;
+    const userId: string = res.locals.userId;
+
+    if (!(await canReadRoom(roomId, userId))) {
+      res.status(403).json({
+        success: false,
+        message: "usuario sin permisos para la sala",
+      });
+      return;
+    }
+
+    const room = await getStore().rooms.get(roomId);
+    res.json({ success: true, room: room && toRoomDetails(room) });
+  });
+
+  /**
+   * Creates a room owned by the authenticated user.
+   *
+   * Body: `{ name, description?, isPrivate?, lobbyEnabled? }`.
+   */
+  app.post("/rooms", requireAuth, async (req, res) => {
+    if (!validateBody("create_room", req.body, res)) return;
+
+    const userId: string = res.locals.userId;
+    await sendRoomResult(res, await createRoom(userId, req.body), userId, 201);
+  });
+
+  /**
+   * Changes the name, description, privacy or lobby setting of a room. Creator
+   * or admins only.
+   *
+   * Body: `{ name?, description?, isPrivate?, lobbyEnabled? }`.
+   */
+  app.patch("/rooms/:roomId", requireAuth, async (req, res) => {
+    const payload = { ...req.body, roomId: req.params.roomId };
+    if (!validateBody("update_room", payload, res)) return;
+
+    const userId: string = res.locals.userId;
+    await sendRoomResult(res, await updateRoom(userId, payload), userId);
+  });
+
+  /**
+   * Archives a room, or restores it with `{ archived: false }`. Creator or
+   * admins only.
+   */
+  app.post("/rooms/:roomId/archive", requireAuth, async (req, res) => {
+    const payload = { ...req.body, roomId: req.params.roomId };
+    if (!validateBody("archive_room", payload, res)) return;
+
+    const userId: string = res.locals.userId;
+    await sendRoomResult(
+      res,
+      await setRoomArchived(userId, payload.roomId, payload.archived ?? true),
+      userId
+    );
+  });
+
+  /**
+   * Soft-deletes a room. Creator or admins only.
+   */
+  app.delete("/rooms/:roomId", requireAuth, async (req, res) => {
+    const userId: string = res.locals.userId;
+    await sendRoomResult(res, await deleteRoom(userId, req.params.roomId), userId);
+  });
+
+  /**
+   * Returns the pending access requests of a room. Users who can grant
+   * access only.
+   */
+  app.get("/rooms/:roomId/access-requests", requireAuth, async (req, res) => {
+    const { roomId } = req.params;
+    const userId: string = res.locals.userId;
+
+    if (!(await can(roomId, userId, "grant_access"))) {
+      res.status(403).json({
+        success: false,
+        code: "FORBIDDEN",
+        message: "No eres admin ni creador",
+      });
+      return;
+    }
+
+    const result = await listPendingRequests(roomId);
+    res.status(result.success ? 200 : 500).json(result);
+  });
+
+  /**
+   * Revokes the access of a user to a private room. Users who can grant
+   * access only, on users of a lower role. The user is notified with
+   * `access_revoked` and removed from the room if they are in it.
+   */
+  app.delete("/rooms/:roomId/access/:userId", requireAuth, async (req, res) => {
+    const { roomId, userId: targetUserId } = req.params;
+    const actorId: string = res.locals.userId;
+
+    const result = await revokeAccess(actorId, roomId, targetUserId);
+    if (!result.success) {
+      res.status(ACCESS_ERROR_STATUS[result.code] || 500).json(result);
+      return;
+    }
+
+    console.log(`[ACCESS] 🚫 ${actorId} revoked access of ${targetUserId} to ${roomId}`);
+    io.to(userChannel(targetUserId)).emit("access_revoked", {
+      roomId,
+      message: "Tu acceso a la sala fue revocado",
+    });
+    await evictUser(roomId, targetUserId);
+
+    res.json(result);
+  });
+
+  /**
+   * Creates an invite to a private room. Users who can grant access only.
+   *
+   * Body: `{ expiresInMinutes?, maxUses?, email? }`.
+   */
+  app.post("/rooms/:roomId/invites", requireAuth, async (req, res) => {
+    const payload = { ...req.body, roomId: req.params.roomId };
+    if (!validateBody("create_invite", payload, res)) return;
+
+    const { roomId, ...options } = payload;
+    const result = await createInvite(res.locals.userId, roomId, options);
+    if (!result.success) {
+      res.status(ACCESS_ERROR_STATUS[result.code] || 500).json(result);
+      return;
+    }
+
+    res.status(201).json(result);
+  });
+
+  /**
+   * Lists the invites of a room, newest first. Users who can grant access only.
+   */
+  app.get("/rooms/:roomId/invites", requireAuth, async (req, res) => {
+    const result = await listInvites(res.locals.userId, req.params.roomId);
+    res
+      .status(result.success ? 200 : ACCESS_ERROR_STATUS[result.code] || 500)
+      .json(result);
+  });
+
+  /**
+   * Revokes an invite. Users who can grant access only.
+   */
+  app.delete("/rooms/:roomId/invites/:inviteId", requireAuth, async (req, res) => {
+    const { roomId, inviteId } = req.params;
+    const result = await revokeInvite(res.locals.userId, roomId, inviteId);
+    res
+      .status(result.success ? 200 : ACCESS_ERROR_STATUS[result.code] || 500)
+      .json(result);
+  });
+
+  /**
+   * Returns the latest moderation actions of a room, newest first. Users
+   * who can remove participants only.
+   *
+   * Query: `limit` (default and max 100).
+   */
+  app.get("/rooms/:roomId/audit", requireAuth, async (req, res) => {
+    const limit = Number(req.query.limit) || undefined;
+    const result = await listAuditLog(res.locals.userId, req.params.roomId, limit);
+    res
+      .status(result.success ? 200 : ACCESS_ERROR_STATUS[result.code] || 500)
+      .json(result);
+  });
+
+  /**
+   * Returns the attendance report of a room: sessions, total time, first
+   * join and last leave of each participant and of the meeting. Users who
+   * can view attendance only.
+   *
+   * Query: `from` and `to` (ISO dates; the last 30 days by default) and
+   * `format=csv` for a spreadsheet export of the participants.
+   */
+  app.get("/rooms/:roomId/attendance", requireAuth, async (req, res) => {
+    const { roomId } = req.params;
+    const result = await getAttendanceReport(res.locals.userId, roomId, {
+      from: typeof req.query.from === "string" ? req.query.from : undefined,
+      to: typeof req.query.to === "string" ? req.query.to : undefined,
+    });
+
+    if (!result.success) {
+      res.status(ROOM_ERROR_STATUS[result.code] || 500).json(result);
+      return;
+    }
+
+    if (req.query.format === "csv") {
+      res
+        .type("text/csv")
+        .attachment(`attendance-${roomId}.csv`)
+        .send(toAttendanceCsv(result.report));
+      return;
+    }
+
+    res.json(result);
+  });
+
+  // ===== Socket.IO Protocol Negotiation Middleware =====
+  /**
+   * Socket.IO middleware that checks the client's event protocol version.
+   *
+   * The client sends `socket.handshake.auth.protocolVersion`. Unsupported
+   * versions are rejected with a `connect_error` whose `data` carries the
+   * `UNSUPPORTED_PROTOCOL_VERSION` code and the range the server accepts, so
+   * outdated clients can ask the user to reload instead of failing silently.
+   */
+  io.use((socket, next) => {
+    const requested = socket.handshake.auth?.protocolVersion;
+    const { version, supported } = negotiateProtocol(requested);
+
+    if (!supported || version === null) {
+      console.warn(
+        `[PROTOCOL] ❌ Rejected ${socket.id} with unsupported protocol version ${requested}`
+      );
+      const err: Error & { data?: unknown } = new Error(
+        "Unsupported protocol version"
+      );
+      err.data = {
+        code: UNSUPPORTED_PROTOCOL,
+        requested,
+        supported: { min: MIN_PROTOCOL_VERSION, max: PROTOCOL_VERSION },
+      };
+      return next(err);
+    }
+
+    socket.data.protocolVersion = version;
+    next();
+  });
+
+  // ===== Socket.IO Authentication Middleware =====
+  /**
+   * Socket.IO middleware that authenticates every incoming connection.
+   *
+   * The client is expected to pass a JWT in `socket.handshake.auth.token`.
+   * The middleware will:
+   * 1. Try to verify it as a backend JWT using `ACCESS_SECRET`.
+   * 2. If that fails, fall back to verifying it as a Firebase ID token.
+   *
+   * On success, a lightweight `JWTUser` is attached to `socket.data`.
+   * On failure, the connection is rejected with an authentication error.
+   */
+  io.use(async (socket, next) => {
+    try {
+      const token = socket.handshake.auth?.token;
+
+      if (!token) {
+        console.warn(`[AUTH] Connection attempt without token from ${socket.id}`);
+        return next(new Error("Authentication token required"));
+      }
+
+      // Backend JWT first, Firebase ID token as fallback
+      try {
+        const decoded: JWTUser = await authenticate(token);
+
+        // Store user data in socket
+        socket.data.user = decoded;
+        socket.data.userId = await resolveBackendUserId(decoded.id);
+
+        return next();
+      } catch {
+        console.error(
+          `[AUTH] Both JWT and Firebase token verification failed from ${socket.id}`
+        );
+        return next(new Error("Invalid authentication token"));
+      }
+    } catch (err: any) {
+      console.error(
+        `[AUTH] Authentication error from ${socket.id}:`,
+        err.message
+      );
+      return next(new Error("Authentication error"));
+    }
+  });
+
+  /**
+   * Emits the current state of users in a room to all connected clients.
+   * Sends both the count of online users and detailed user information.
+   * Users with several sockets in the room (tabs, devices) are listed once,
+   * with the status merged from those sockets.
+   *
+   * @param {string} roomId - The ID of the room to emit state for
+   * @returns {Promise<void>}
+   */
+  async function emitRoomUsersState(roomId: string) {
+    console.log(`[EMIT_USERS] Starting to emit room state for ${roomId}`);
+
+    // fetchSocketsIn() also returns the sockets connected to other nodes
+    const sockets = await fetchSocketsIn(roomId);
+
+    console.log(
+      `[EMIT_USERS] Room ${roomId} has ${sockets.length} sockets, preparing user list from socket data`
+    );
+
+    const byUser = new Map<string, { user: RoomUser; presence: SocketPresence[] }>();
+
+    for (const s of sockets) {
+      const userId = String(s.data.userId ?? s.data.user?.id);
+      if (!userId || userId === "undefined" || userId === "null") {
+        console.error(
+          `[EMIT_USERS] ❌ Socket ${s.id} has no valid userId. Socket data:`,
+          {
+            userId: s.data.userId,
+            user: s.data.user,
+            roomId: s.data.roomId,
+          }
+        );
+        continue;
+      }
+
+      const presence = s.data.presence ?? {
+        status: "online",
+        updatedAt: new Date().toISOString(),
+      };
+      const known = byUser.get(userId);
+      if (known) {
+        known.presence.push(presence);
+        continue;
+      }
+
+      const socketUser: any = s.data.user || {};
+      const baseEmail: string = socketUser.email || "";
+
+      const user = {
+        id: userId,
+        email: baseEmail,
+        displayName:
+          socketUser.displayName ||
+          socketUser.nickname ||
+          (baseEmail ? baseEmail.split("@")[0] : "") ||
+          "Usuario",
+        nickname: socketUser.nickname || null,
+        photoURL: socketUser.photoURL || null,
+      };
+
+      byUser.set(userId, {
+        user: {
+          userId,
+          email: user.email,
+          roomId: s.data.roomId || roomId,
+          user,
+          status: "online",
+          devices: 0,
+        },
+        presence: [presence],
+      });
+    }
+
+    const users = [...byUser.values()].map(({ user, presence }) => {
+      const merged = mergePresence(user.userId, presence);
+      return { ...user, status: merged.status, devices: merged.devices };
+    });
+
+    console.log(
+      `[EMIT_USERS] 📤 Emitting ${users.length} users (from ${sockets.length} sockets)`
+    );
+
+    io.to(roomId).emit("number_usersOnline", users.length);
+    io.to(roomId).emit("usersOnline", users);
+
+    console.log(`[EMIT_USERS] ✅ Room state emitted for ${roomId}`);
+  }
+
+  /**
+   * Builds the presence of a user from all their sockets, on every node.
+   * Offline users get the last seen time stored when they disconnected.
+   *
+   * @param {string} userId - The user
+   * @returns {Promise<UserPresence>} The merged presence
+   */
+  async function getPresence(userId: string): Promise<UserPresence> {
+    const sockets = await fetchSocketsIn(userChannel(userId));
+    const states = sockets
+      .map((s) => s.data.presence)
+      .filter((p): p is SocketPresence => Boolean(p));
+
+    if (states.length > 0) return mergePresence(userId, states);
+    return mergePresence(userId, [], await getLastSeen(userId));
+  }
+
+  /**
+   * Sends the presence of a user to the sockets subscribed to it. When the
+   * user has no sockets left, the current time is stored as last seen.
+   *
+   * @param {string} userId - The user whose presence changed
+   * @returns {Promise<UserPresence>} The presence sent
+   */
+  async function publishPresence(userId: string): Promise<UserPresence> {
+    let presence = await getPresence(userId);
+
+    if (presence.devices === 0) {
+      const lastSeenAt = new Date().toISOString();
+      await recordLastSeen(userId, lastSeenAt);
+      presence = { ...presence, lastSeenAt };
+    }
+
+    io.to(presenceChannel(userId)).emit("presence_updated", presence);
+    return presence;
+  }
+
+  /**
+   * Whether a user still has sockets in a room besides `socketId`, e.g.
+   * another tab. Their connection record stays open until the last one
+   * leaves.
+   *
+   * @param {string} roomId - The chat room
+   * @param {string} userId - The user
+   * @param {string} socketId - The socket that is leaving
+   * @returns {Promise<boolean>}
+   */
+  async function hasOtherSockets(roomId: string, userId: string, socketId: string) {
+    const sockets = await fetchSocketsIn(userRoom(roomId, userId));
+    return sockets.some((s) => s.id !== socketId);
+  }
+
+  /**
+   * Emits an event to the same audience that received a given message:
+   * the whole room for public messages, or only the sender and the `target`
+   * users for private ones.
+   *
+   * @param {string} roomId - The room the message belongs to
+   * @param {any} message - The stored message (needs `visibility`, `userId` and `target`)
+   * @param {string} event - The event name to emit
+   * @param {...any} payload - The event payload
+   */
+  function emitToMessageAudience<E extends keyof ServerToClientEvents>(
+    roomId: string,
+    message: any,
+    event: E,
+    ...payload: Parameters<ServerToClientEvents[E]>
+  ) {
+    if (message.visibility !== "private") {
+      io.to(roomId).emit(event, ...payload);
+      return;
+    }
+
+    const audience = [
+      message.userId,
+      ...(Array.isArray(message.target) ? message.target : []).map(
+        (t: { userId: string }) => t.userId
+      ),
+    ].filter(Boolean);
+
+    if (audience.length === 0) return;
+
+    io.to(audience.map((userId) => userRoom(roomId, String(userId)))).emit(
+      event,
+      ...payload
+    );
+  }
+
+  /**
+   * Broadcasts a typing indicator change to its audience: the rest of the
+   * room for public typing, or only the `target` users for private typing.
+   * The typing socket itself never receives its own indicator.
+   *
+   * @param {Omit<TypingEntry, "timer">} entry - The typing indicator
+   * @param {boolean} typing - True when the user started typing, false when they stopped
+   */
+  function emitTypingState(
+    entry: Omit<TypingEntry, "timer">,
+    typing: boolean
+  ) {
+    const payload: UserTypingPayload = {
+      roomId: entry.roomId,
+      userId: entry.userId,
+      typing,
+      visibility: entry.target ? "private" : "public",
+    };
+
+    if (!entry.target) {
+      io.to(entry.roomId).except(entry.socketId).emit("user_typing", payload);
+      return;
+    }
+
+    if (entry.target.length === 0) return;
+
+    io.to(entry.target.map((t) => userRoom(entry.roomId, t.userId)))
+      .except(entry.socketId)
+      .emit("user_typing", payload);
+  }
+
+  /**
+   * Clears a user's typing indicator (if any) and broadcasts the stop.
+   *
+   * @param {string} roomId - The room the user was typing in
+   * @param {string} userId - The user
+   * @param {string} [socketId] - Only clear indicators started from this socket
+   */
+  function clearTyping(roomId: string, userId: string, socketId?: string) {
+    const entry = stopTyping(roomId, userId, socketId);
+    if (entry) emitTypingState(entry, false);
+  }
+
+  /**
+   * Makes every socket leave a room and its per-user rooms, on every node.
+   *
+   * @param {string} roomId - The room to empty
+   */
+  async function evictRoom(roomId: string) {
+    forgetSignalingPeer(roomId, null);
+    for (const clientSocket of await fetchSocketsIn(roomId)) {
+      clientSocket.leave(roomId);
+      if (clientSocket.data.userId) {
+        clientSocket.leave(userRoom(roomId, clientSocket.data.userId));
+      }
+    }
+  }
+
+  /**
+   * Removes a user from a room on every node: their sockets leave it, the
+   * connection is closed and the room state is refreshed.
+   *
+   * @param {string} roomId - The room
+   * @param {string} userId - The user to remove
+   */
+  async function evictUser(roomId: string, userId: string) {
+    const sockets = await fetchSocketsIn(userRoom(roomId, userId));
+    if (sockets.length === 0) return;
+
+    for (const clientSocket of sockets) {
+      clientSocket.leave(roomId);
+      clientSocket.leave(userRoom(roomId, userId));
+    }
+
+    clearTyping(roomId, userId);
+    forgetSignalingPeer(roomId, userId);
+    await leftConnection(userId, roomId);
+    await emitRoomUsersState(roomId);
+  }
+
+  /**
+   * Sends an access request update to the users who can answer it, on the
+   * channels of their user IDs so they get it wherever they are. The change
+   * is already stored, so a failure is logged and not thrown: admins still
+   * get the queue when they join.
+   *
+   * @param {string} roomId - The room
+   * @param {AccessRequest} request - The request after the change
+   */
+  async function notifyAccessAdmins(roomId: string, request: AccessRequest) {
+    try {
+      const adminsId = await getUsersAllowedTo(roomId, "grant_access");
+      if (adminsId.length === 0) return;
+
+      io.to(adminsId.map(userChannel)).emit("access_request_updated", {
+        roomId,
+        request,
+      });
+    } catch (error) {
+      console.error(`[ACCESS] ❌ Error notifying the admins of ${roomId}:`, error);
+    }
+  }
+
+  // ===== Moderation =====
+
+  /**
+   * Logs an action refused for lack of permissions or room membership as one
+   * structured line, so attempts can be traced in the audit trail.
+   *
+   * @param {string} event - The refused client event
+   * @param {Object} details - Who tried it, where, and the failure `code`
+   */
+  function logDenied(
+    event: string,
+    details: { userId?: string; roomId?: string; code: string; [key: string]: unknown }
+  ) {
+    console.warn(`[AUDIT] 🚫 ${event} denied ${JSON.stringify(details)}`);
+  }
+
+  /**
+   * Sends the audit record of a moderation action to the hosts in the room.
+   *
+   * @param {AuditEntry} entry - The stored record
+   */
+  async function publishAudit(entry: AuditEntry) {
+    const hosts = await getUsersAllowedTo(entry.roomId, "remove_users");
+    if (hosts.length === 0) return;
+
+    io.to(hosts.map((hostId) => userRoom(entry.roomId, hostId))).emit(
+      "moderation_audit",
+      { roomId: entry.roomId, entry }
+    );
+  }
+
+  /**
+   * Tells a user, by user ID, about a moderation action taken on them.
+   *
+   * @param {string} roomId - The room
+   * @param {string} userId - The user acted upon
+   * @param {ModerationAction} action - What was done
+   * @param {string} message - Shown to the user
+   */
+  function notifyModerated(
+    roomId: string,
+    userId: string,
+    action: ModerationAction,
+    message: string
+  ) {
+    io.to(userChannel(userId)).emit("moderation_notice", { roomId, action, message });
+  }
+
+  // ===== Lobby =====
+
+  /**
+   * Joins waiting in a lobby on this node, by socket ID. Calling `complete`
+   * finishes the join once the user is admitted. Other nodes are told about
+   * admissions with `lobby_admitted`, so each one completes its own sockets.
+   */
+  const lobbyJoins = new Map<
+    string,
+    { roomId: string; userId: string; complete: () => Promise<unknown> }
+  >();
+
+  /**
+   * Sends the users waiting in a room's lobby to the hosts in the room.
+   *
+   * @param {string} roomId - The room
+   */
+  async function emitLobbyState(roomId: string) {
+    const sockets = await fetchSocketsIn(lobbyRoom(roomId));
+    const users = new Map<string, LobbyUser>();
+
+    for (const s of sockets) {
+      const userId = s.data.userId;
+      if (!userId || !s.data.lobby || users.has(userId)) continue;
+
+      users.set(userId, {
+        userId,
+        email: s.data.user?.email || "",
+        since: s.data.lobby.since,
+        needsAccess: s.data.lobby.role === "guest",
+      });
+    }
+
+    const hosts = await getUsersAllowedTo(roomId, "grant_access");
+    if (hosts.length === 0) return;
+
+    io.to(hosts.map((hostId) => userRoom(roomId, hostId))).emit("lobby_updated", {
+      roomId,
+      users: [...users.values()].sort((a, b) => a.since.localeCompare(b.since)),
+    });
+  }
+
+  /**
+   * Completes the pending joins of admitted users on this node.
+   *
+   * @param {string} roomId - The room
+   * @param {string[]} userIds - The admitted users
+   */
+  async function completeLobbyJoins(roomId: string, userIds: string[]) {
+    for (const [socketId, pending] of lobbyJoins) {
+      if (pending.roomId !== roomId || !userIds.includes(pending.userId)) continue;
+
+      lobbyJoins.delete(socketId);
+      await pending.complete();
+    }
+  }
+
+  /**
+   * Forgets the pending joins of rejected users on this node.
+   *
+   * @param {string} roomId - The room
+   * @param {string[]} userIds - The rejected users
+   */
+  function dropLobbyJoins(roomId: string, userIds: string[]) {
+    for (const [socketId, pending] of lobbyJoins) {
+      if (pending.roomId === roomId && userIds.includes(pending.userId)) {
+        lobbyJoins.delete(socketId);
+        const local = io.sockets.sockets.get(socketId);
+        if (local) local.data.lobby = undefined;
+      }
+    }
+  }
+
+  /**
+   * Admits users waiting in a lobby, on every node.
+   *
+   * @param {string} roomId - The room
+   * @param {string[]} userIds - The users to let in
+   */
+  async function admitFromLobby(roomId: string, userIds: string[]) {
+    if (userIds.length === 0) return;
+
+    for (const s of await fetchSocketsIn(lobbyRoom(roomId))) {
+      if (s.data.userId && userIds.includes(s.data.userId)) s.leave(lobbyRoom(roomId));
+    }
+
+    emitToNodes("lobby_admitted", roomId, userIds);
+    await completeLobbyJoins(roomId, userIds);
+  }
+
+  /**
+   * Turns users away from a lobby, on every node, and tells them.
+   *
+   * @param {string} roomId - The room
+   * @param {string[]} userIds - The users to turn away
+   * @param {string} message - Shown to the rejected users
+   */
+  async function rejectFromLobby(roomId: string, userIds: string[], message: string) {
+    if (userIds.length === 0) return;
+
+    for (const s of await fetchSocketsIn(lobbyRoom(roomId))) {
+      if (s.data.userId && userIds.includes(s.data.userId)) s.leave(lobbyRoom(roomId));
+    }
+
+    emitToNodes("lobby_rejected", roomId, userIds);
+    dropLobbyJoins(roomId, userIds);
+    io.to(userIds.map(userChannel)).emit("lobby_rejected", { roomId, message });
+  }
+
+  // Lobby decisions taken on other nodes
+  io.on("lobby_admitted", (roomId, userIds) => {
+    completeLobbyJoins(roomId, userIds).catch((error) =>
+      console.error(`[LOBBY] ❌ Error admitting users to ${roomId}:`, error)
+    );
+  });
+
+  io.on("lobby_rejected", (roomId, userIds) => {
+    dropLobbyJoins(roomId, userIds);
+  });
+
+  // ===== WebRTC Signaling State =====
+
+  /**
+   * Whether a user has sockets in a room, on this node or on any other.
+   *
+   * @param {string} roomId - The chat room
+   * @param {string} userId - The user
+   * @returns {Promise<boolean>}
+   */
+  async function isInRoom(roomId: string, userId: string) {
+    if (io.sockets.adapter.rooms.get(userRoom(roomId, userId))?.size) return true;
+    if (!clustered) return false;
+    return (await fetchSocketsIn(userRoom(roomId, userId))).length > 0;
+  }
+
+  /**
+   * Forgets the WebRTC pairs of a user who left a room, or of everyone in
+   * it when `userId` is null, on every node.
+   *
+   * @param {string} roomId - The room
+   * @param {string | null} userId - The user who left
+   */
+  function forgetSignalingPeer(roomId: string, userId: string | null) {
+    signaling.removePeer(roomId, userId);
+    emitToNodes("signal_peer_left", roomId, userId);
+  }
+
+  // Signals relayed and users gone on other nodes
+  io.on("signal_described", (roomId, senderId, targetUserId, type) => {
+    signaling.recordDescription(roomId, senderId, targetUserId, type);
+  });
+
+  io.on("signal_peer_left", (roomId, userId) => {
+    signaling.removePeer(roomId, userId);
+  });
+
+  /**
+   * Announces a room change to its participants with `room_updated`.
+   * Archived, deleted and ended rooms are closed afterwards, so nobody keeps
+   * chatting in them.
+   *
+   * @param {RoomChange} change - What happened to the room
+   * @param {RoomDetails} room - The room after the change
+   * @param {string} updatedBy - Backend ID of the user who made the change
+   */
+  async function publishRoomChange(
+    change: RoomChange,
+    room: RoomDetails,
+    updatedBy: string
+  ) {
+    console.log(`[ROOM] 🛠️ Room ${room.id} ${change} by ${updatedBy}`);
+    io.to(room.id).emit("room_updated", {
+      roomId: room.id,
+      change,
+      room,
+      updatedBy,
+    });
+
+    const closed = change === "archived" || change === "deleted" || change === "ended";
+    if (closed) await evictRoom(room.id);
+
+    const waiting = await fetchSocketsIn(lobbyRoom(room.id));
+    if (waiting.length === 0) return;
+
+    if (change === "ended") {
+      const userIds = waiting.map((s) => s.data.userId).filter((id) => id !== undefined);
+      await rejectFromLobby(room.id, [...new Set(userIds)], "La reunión ha finalizado");
+    } else if (closed) {
+      const userIds = waiting.map((s) => s.data.userId).filter((id) => id !== undefined);
+      await rejectFromLobby(room.id, [...new Set(userIds)], "La sala ya no está disponible");
+    } else if (!room.lobbyEnabled) {
+      // Without a lobby, everyone who could join directly is let in
+      const userIds = waiting
+        .filter((s) => s.data.lobby?.role !== "guest")
+        .map((s) => s.data.userId)
+        .filter((id) => id !== undefined);
+      await admitFromLobby(room.id, [...new Set(userIds)]);
+      await emitLobbyState(room.id);
+    }
+  }
+
+  // ===== Socket.IO Connection Handler =====
+  /**
+   * Main Socket.IO connection handler.
+   *
+   * Responsible for:
+   * - Joining/leaving rooms.
+   * - Broadcasting presence updates (`usersOnline`).
+   * - Persisting and broadcasting chat messages.
+   * - Cleaning up in‑memory connections on disconnect.
+   */
+  io.on("connection", (socket) => {
+    console.log(`[CONNECTION] New connection: ${socket.id}`);
+
+    // Drop floods first, then malformed payloads, before any handler runs
+    socket.use(rateLimit(socket));
+    socket.use(validatePayloads(socket));
+
+    socket.emit("protocol_version", {
+      version: socket.data.protocolVersion ?? PROTOCOL_VERSION,
+      minSupported: MIN_PROTOCOL_VERSION,
+    });
+
+    const user = socket.data.user!;
+
+    if (!user) {
+      console.error("[CONNECTION] No user data found in socket, disconnecting");
+      socket.disconnect(true);
+      return;
+    }
+
+    // Reachable by user ID before joining any room (access answers)
+    const presenceUserId = String(socket.data.userId ?? user.id);
+    socket.join(userChannel(presenceUserId));
+
+    // Recovered sockets keep the status they had
+    socket.data.presence ??= { status: "online", updatedAt: new Date().toISOString() };
+    publishPresence(presenceUserId).catch((error) =>
+      console.error("[PRESENCE] ❌ Error publishing presence:", error)
+    );
+
+    if (socket.recovered) {
+      resumeSession().catch((error) =>
+        console.error("[RESUME] ❌ Error resuming session:", error)
+      );
+    }
+
+    // ===== SESSION RESUME =====
+    /**
+     * Resumes a socket recovered within the grace window after a drop. It is
+     * back in its rooms with its data and missed broadcasts; it keeps its
+     * chat room only if `resumeRoomSession` allows it.
+     *
+     * @emits session_resumed - To the socket, with the room it is still in
+     */
+    async function resumeSession() {
+      clearTimeout(graceTimers.get(socket.id));
+      graceTimers.delete(socket.id);
+
+      // Lobby joins are dropped on disconnect; the client asks again
+      for (const room of socket.rooms) {
+        if (room.endsWith("#lobby")) socket.leave(room);
+      }
+
+      const roomId = socket.data.roomId;
+      const userId = socket.data.userId;
+      if (!roomId || !userId || !socket.rooms.has(roomId)) {
+        socket.emit("session_resumed", {
+          roomId: null,
+          role: null,
+          message: "sesión reanudada",
+        });
+        return;
+      }
+
+      const resumed = await resumeRoomSession(userId, roomId);
+      if (!resumed.success) {
+        console.log(`[RESUME] ❌ ${userId} cannot resume ${roomId}: ${resumed.code}`);
+        socket.leave(roomId);
+        socket.leave(userRoom(roomId, userId));
+        if (!(await hasOtherSockets(roomId, userId, socket.id))) {
+          forgetSignalingPeer(roomId, userId);
+          await leftConnection(userId, roomId);
+        }
+        await emitRoomUsersState(roomId);
+        socket.emit("session_resumed", {
+          roomId: null,
+          role: null,
+          message: resumed.message,
+          code: resumed.code,
+        });
+        return;
+      }
+
+      console.log(`[RESUME] ✅ ${userId} resumed ${roomId} as ${resumed.role}`);
+      await emitRoomUsersState(roomId);
+      socket.emit("session_resumed", {
+        roomId,
+        role: resumed.role,
+        message: resumed.message,
+      });
+    }
+
+    /**
+     * Takes a disconnected socket out of its room: the user leaves it unless
+     * another of their sockets is still there. Room state and presence are
+     * refreshed either way.
+     */
+    async function releaseSocket() {
+      const roomId = socket.data.roomId;
+      const userId = socket.data.userId;
+
+      if (userId && roomId) {
+        // Another tab of the user keeps them in the room
+        if (!(await hasOtherSockets(roomId, userId, socket.id))) {
+          forgetSignalingPeer(roomId, userId);
+          await leftConnection(userId, roomId);
+          io.to(roomId).emit("userDisconnected", {
+            success: true,
+            message: `User ${user?.email} disconnected`,
+            user: socket.data.user,
+          });
+        }
+
+        await emitRoomUsersState(roomId);
+      }
+
+      await publishPresence(presenceUserId);
+    }
+
+    // ===== JOIN ROOM EVENT =====
+    /**
+     * Handler for 'join_room' event.
+     * Validates room access permissions and creates user connection in the room.
+     * For private rooms, checks if user has been granted access, or redeems
+     * the invite token sent with the room ID.
+     *
+     * @event join_room
+     * @param {string | Object} payload - The ID of the room to join, or `{ roomId, invite }`
+     * @param {Function} [ack] - Optional acknowledgement callback `{ success, data | message, code }`
+     * @emits join_room_success - When user successfully joins the room
+     * @emits join_room_error - When user cannot join (invalid room, no permissions, etc.)
+     */
+    socket.on("join_room", async (payload, ack) => {
+      const { roomId, invite } =
+        typeof payload === "string" ? { roomId: payload, invite: undefined } : payload;
+
+      /**
+       * Reports a failed join through `join_room_error` and the
+       * acknowledgement callback when provided.
+       */
+      const joinError = (message: string, code: string) => {
+        socket.emit("join_room_error", { success: false, message, user });
+        ack?.({ success: false, message, code });
+      };
+
+      try {
+        console.log(
+          `[ROOM] 👤 User ${user.email} (${user.id}) attempting to join room ${roomId}`
+        );
+
+        if (!roomId) {
+          console.error(`[ROOM] ❌ Invalid room ID for user ${user.email}`);
+          return joinError("Invalid room ID", "INVALID_PAYLOAD");
+        }
+
+        // Get the Firebase UID
+        const firebaseUid = user.id;
+        console.log(`[ROOM] 🔑 Firebase UID: ${firebaseUid}`);
+
+        // Find the backend user document ID (userId) by Firebase UID
+        const userId = await resolveBackendUserId(firebaseUid);
+
+        // Check for duplicate join (React StrictMode protection)
+        if (isJoinPending(userId, roomId)) {
+          console.log(`[ROOM] ⚠️ Duplicate join_room detected for ${userId} in ${roomId} - ignoring`);
+          // Ignore the duplicate; only tell the caller if it is waiting for an ack
+          ack?.({
+            success: false,
+            message: "join already in progress",
+            code: "DUPLICATE_JOIN",
+          });
+          return;
+        }
+
+        // Check if room exists
+        const roomData = await getStore().rooms.get(roomId);
+
+        if (!roomData || roomData.deletedAt) {
+          console.error(`[ROOM] ❌ Room ${roomId} does not exist`);
+          clearPendingJoin(userId, roomId);
+          return joinError("Room does not exist", "ROOM_NOT_FOUND");
+        }
+
+        if (roomData.archivedAt) {
+          console.error(`[ROOM] ❌ Room ${roomId} is archived`);
+          clearPendingJoin(userId, roomId);
+          return joinError("La sala está archivada", "ROOM_ARCHIVED");
+        }
+
+        if (isBanned(roomData, userId)) {
+          console.error(`[ROOM] ❌ User ${userId} is banned from ${roomId}`);
+          clearPendingJoin(userId, roomId);
+          return joinError("No puedes entrar a esta sala", "BANNED");
+        }
+
+        const isPrivate = roomData?.isPrivate || roomData?.private || false;
+        console.log(
+          `[ROOM] 🔒 Room ${roomId} is ${isPrivate ? "PRIVATE" : "PUBLIC"}`
+        );
+
+        /**
+         * Handles the actual joining logic for a room.
+         * Creates connection, joins socket room, and emits success events.
+         *
+         * @param {RoomRole} role - The role the user joins with
+         * @param {boolean} [acknowledge=true] - False when completing a join
+         *        from the lobby, whose acknowledgement was already sent
+         * @returns {Promise<boolean>} True if join was successful, false otherwise
+         */
+        async function handleJoin(role: RoomRole, acknowledge = true) {
+          // Stop waiting in any other lobby
+          await leaveLobby();
+
+          // Set room data BEFORE creating connection
+          socket.data.roomId = roomId;
+          socket.data.userId = userId;
+
+          console.log(`[ROOM] 🚪 Joining socket to room ${roomId}`);
+          socket.join([roomId, userRoom(roomId, userId)]);
+
+          // Create connection in Firestore with backend userId and firebaseUid
+          console.log(
+            `[ROOM] 💾 Creating Firestore connection for userId: ${userId}, firebaseUid: ${firebaseUid}`
+          );
+          const connectionSnap = await createConnection(
+            userId,
+            roomId,
+            firebaseUid,
+            instanceId
+          );
+
+          if (!connectionSnap.success) {
+            console.error(`[ROOM] ❌ Failed to create connection for ${userId}`);
+            clearPendingJoin(userId, roomId);
+            joinError("error al crear conexión", "STORAGE_ERROR");
+            return false;
+          }
+
+          console.log(`[ROOM] ✅ Connection created successfully for ${userId}`);
+
+          // Negotiations from an earlier stay in the room are void
+          if (!(await hasOtherSockets(roomId, userId, socket.id))) {
+            forgetSignalingPeer(roomId, userId);
+          }
+
+          // Clear pending join lock
+          clearPendingJoin(userId, roomId);
+
+          const unread = await getUnreadCount(roomId, userId);
+
+          const joinPayload = {
+            user: socket.data.user,
+            message: "conectado correctamente",
+            success: true,
+            roomId: roomId,
+            role,
+            unreadCount: unread.unreadCount,
+            lastReadMessageId: unread.lastReadMessageId,
+          };
+
+          // Emit success ONLY to the joining user (not to room)
+          socket.emit("join_room_success", joinPayload);
+          if (acknowledge) ack?.({ success: true, data: joinPayload });
+
+          // Notify OTHER users in room about new join (not the joining user)
+          socket.to(roomId).emit("user_joined", {
+            user: {
+              id: userId,
+              email: user.email,
+            },
+            message: `${user.email} se unió a la reunión`,
+            roomId: roomId,
+          });
+
+          console.log(`[ROOM] 📢 Emitting room state to all users in ${roomId}`);
+          await emitRoomUsersState(roomId);
+
+          // Admins get the requests that arrived while they were away
+          if (hasPermission(role, "grant_access")) {
+            const { requests } = await listPendingRequests(roomId);
+            socket.emit("access_requests", { roomId, requests });
+            if (roomData!.lobbyEnabled) await emitLobbyState(roomId);
+          }
+
+          return true;
+        }
+
+        /**
+         * Holds the socket in the room's lobby until a host admits it. Guests
+         * of a private room also get a pending access request, which is
+         * approved when they are admitted.
+         *
+         * @param {RoomRole} role - The role the user will join with
+         */
+        async function placeInLobby(role: RoomRole) {
+          const message = "Esperando a que un anfitrión te admita";
+          clearPendingJoin(userId, roomId);
+
+          if (socket.data.lobby && socket.data.lobby.roomId !== roomId) {
+            await leaveLobby();
+          }
+
+          if (lobbyJoins.get(socket.id)?.roomId !== roomId) {
+            if (role === "guest") await requestAccess(roomId, userId);
+
+            console.log(`[LOBBY] ⏳ ${userId} is waiting in the lobby of ${roomId}`);
+            socket.data.lobby = { roomId, since: new Date().toISOString(), role };
+            socket.join(lobbyRoom(roomId));
+
+            lobbyJoins.set(socket.id, {
+              roomId,
+              userId,
+              complete: async () => {
+                socket.leave(lobbyRoom(roomId));
+                socket.data.lobby = undefined;
+                console.log(`[LOBBY] ✅ ${userId} admitted to ${roomId}`);
+                await handleJoin(role === "guest" ? "member" : role, false);
+              },
+            });
+          }
+
+          socket.emit("lobby_waiting", { roomId, message });
+          ack?.({ success: false, message, code: "IN_LOBBY" });
+          await emitLobbyState(roomId);
+        }
+
+        // Guests are users without access to a private room
+        let role = resolveRole(
+          roomData,
+          userId,
+          isPrivate && (await getRoomAccessForUser(userId, roomId)).success
+        );
+
+        // Locked rooms only let hosts in; checked before using up an invite
+        if (roomData.lockedAt && !hasPermission(role, "lock_room")) {
+          console.error(`[ROOM] ❌ Room ${roomId} is locked`);
+          clearPendingJoin(userId, roomId);
+          return joinError("La sala está cerrada", "ROOM_LOCKED");
+        }
+
+        if (isPrivate && role === "guest" && invite) {
+          const redeemed = await redeemInvite(invite, roomId, userId, user.email);
+
+          if (!redeemed.success) {
+            console.error(
+              `[ROOM] ❌ Invite of ${userId} to ${roomId} refused: ${redeemed.code}`
+            );
+            clearPendingJoin(userId, roomId);
+            return joinError(redeemed.message, redeemed.code);
+          }
+
+          console.log(`[ROOM] 🎟️ ${userId} joined ${roomId} with an invite`);
+          role = "member";
+        }
+
+        // With the lobby on, everyone but the hosts waits to be admitted
+        if (roomData.lobbyEnabled && !hasPermission(role, "grant_access")) {
+          return placeInLobby(role);
+        }
+
+        if (!isPrivate) {
+          console.log(`[ROOM] 🌐 Public room - allowing join`);
+          await handleJoin(role);
+        } else {
+          console.log(`[ROOM] 🔐 Private room - checking access permissions`);
+
+          if (role === "guest") {
+            console.error(
+              `[ROOM] ❌ User ${userId} has no access to private room ${roomId}`
+            );
+            clearPendingJoin(userId, roomId);
+            joinError("usuario sin permisos para sala privada", "ACCESS_DENIED");
+
+            socket.disconnect(true);
+            return;
+          }
+
+          console.log(`[ROOM] ✅ Access granted for private room as ${role}`);
+          await handleJoin(role);
+        }
+      } catch (error) {
+        console.error(`[ROOM] ❌ Error in join_room for ${user.email}:`, error);
+        // Note: We can't call clearPendingJoin here because userId might not be defined
+        // The timeout in isJoinPending will clean up stale entries automatically
+        joinError("Error interno del servidor", "INTERNAL_ERROR");
+        socket.disconnect(true);
+      }
+    });
+
+    // ===== JOINS_IN_ROOM EVENT =====
+    /**
+     * Handler for 'joins_in_room' event.
+     * Returns the IDs of the users connected to a room, once per user.
+     * Only participants of the room may ask.
+     *
+     * @event joins_in_room
+     * @param {string} roomId - The ID of the room to query
+     * @emits room_users - Array of user IDs in the room
+     * @emits joins_in_room_error - When the caller is not in the room or it has no users
+     */
+    socket.on("joins_in_room", async (roomId: string) => {
+      const userId = socket.data.userId;
+
+      if (!socket.rooms.has(roomId)) {
+        socket.emit("joins_in_room_error", {
+          success: false,
+          message: "Debes estar en la sala para ver sus usuarios",
+          userId: userId,
+        });
+        return;
+      }
+
+      const socketsInRoom = await fetchSocketsIn(roomId);
+      const users = new Set<string>();
+
+      for (const s of socketsInRoom) {
+        if (s.data.userId) users.add(String(s.data.userId));
+      }
+
+      socket.emit("room_users", [...users]);
+    });
+
+    // ===== JOINS EVENT =====
+    /**
+     * Handler for 'joins' event.
+     * Returns the users connected to the caller's room, once per user.
+     * Callers outside a room get an empty list.
+     *
+     * @event joins
+     * @emits joins_users - Array of connected user objects
+     */
+    socket.on("joins", async () => {
+      const roomId = socket.data.roomId;
+      if (!roomId || !socket.rooms.has(roomId)) {
+        socket.emit("joins_users", []);
+        return;
+      }
+
+      const users = new Map<string, JWTUser>();
+      for (const remoteSocket of await fetchSocketsIn(roomId)) {
+        const member = remoteSocket.data.user;
+        if (member) users.set(String(remoteSocket.data.userId ?? member.id), member);
+      }
+
+      socket.emit("joins_users", [...users.values()]);
+    });
+
+    // ===== PRESENCE EVENTS =====
+    /**
+     * Reports a presence failure with `presence_error` and the ack.
+     */
+    function presenceError(
+      ack: AckCallback<never> | undefined,
+      message: string,
+      code: string
+    ) {
+      socket.emit("presence_error", { success: false, message, code });
+      ack?.({ success: false, message, code });
+    }
+
+    /**
+     * Handler for 'set_presence' event.
+     * Sets the status of this socket. The user's status is merged from all
+     * their sockets and sent to their subscribers and current room.
+     *
+     * @event set_presence
+     * @param {Object} payload - `{ status }`: `online`, `away` or `busy`
+     * @param {Function} [ack] - Optional acknowledgement callback receiving the merged presence
+     * @emits presence_updated - To the sockets subscribed to the user
+     * @emits usersOnline - To the caller's room
+     */
+    socket.on("set_presence", async ({ status }, ack) => {
+      try {
+        socket.data.presence = { status, updatedAt: new Date().toISOString() };
+        const presence = await publishPresence(presenceUserId);
+
+        const roomId = socket.data.roomId;
+        if (roomId && socket.rooms.has(roomId)) await emitRoomUsersState(roomId);
+
+        ack?.({ success: true, data: presence });
+      } catch (error) {
+        console.error("[PRESENCE] ❌ Error in set_presence:", error);
+        presenceError(ack, "Error interno", "INTERNAL_ERROR");
+      }
+    });
+
+    /**
+     * Handler for 'subscribe_presence' event.
+     * Subscribes to the presence of contacts, in any room. Only users who
+     * have shared a room with the caller are subscribed; the rest are listed
+     * as `hidden`.
+     *
+     * @event subscribe_presence
+     * @param {Object} payload - `{ userIds }`
+     * @param {Function} [ack] - Optional acknowledgement callback receiving `{ users, hidden }`
+     * @emits presence_updated - Later, whenever a subscribed user's presence changes
+     */
+    socket.on("subscribe_presence", async ({ userIds }, ack) => {
+      const result = await filterVisiblePresence(presenceUserId, userIds);
+      if (!result.success) {
+        presenceError(ack, result.message, result.code);
+        return;
+      }
+
+      try {
+        socket.join(result.visible.map(presenceChannel));
+        const users = await Promise.all(result.visible.map(getPresence));
+        ack?.({ success: true, data: { users, hidden: result.hidden } });
+      } catch (error) {
+        console.error("[PRESENCE] ❌ Error in subscribe_presence:", error);
+        presenceError(ack, "Error interno", "INTERNAL_ERROR");
+      }
+    });
+
+    /**
+     * Handler for 'unsubscribe_presence' event.
+     * Stops the updates of the given users.
+     *
+     * @event unsubscribe_presence
+     * @param {Object} payload - `{ userIds }`
+     * @param {Function} [ack] - Optional acknowledgement callback
+     */
+    socket.on("unsubscribe_presence", ({ userIds }, ack) => {
+      for (const userId of userIds) socket.leave(presenceChannel(String(userId)));
+      ack?.({ success: true, message: "suscripción cancelada" });
+    });
+
+    // ===== WebRTC SIGNALS =====
+    type SignalEvent = "webrtc_offer" | "webrtc_answer" | "webrtc_ice_candidate";
+
+    /**
+     * Signals of this socket, handled one at a time in arrival order: the
+     * target lookup is async, and a candidate must not overtake its offer.
+     */
+    let signalQueue: Promise<void> = Promise.resolve();
+    const inSignalOrder = (handle: () => Promise<void>) => {
+      signalQueue = signalQueue
+        .then(handle)
+        .catch((error) => console.error("[WEBRTC] ❌ Error handling signal:", error));
+    };
+
+    /**
+     * Reports a signal that was not relayed with `signal_error` and the
+     * acknowledgement.
+     */
+    function signalError(
+      event: SignalEvent,
+      targetUserId: string,
+      ack: AckCallback<never> | undefined,
+      message: string,
+      code: string
+    ) {
+      socket.emit("signal_error", {
+        success: false,
+        message,
+        code,
+        event,
+        targetUserId,
+      });
+      ack?.({ success: false, message, code });
+    }
+
+    /**
+     * Checks that a WebRTC signal may be relayed: the sender must be in the
+     * room named in the payload, and the target must still be there. The
+     * signal only reaches the target's sockets in that same room. Refusals
+     * are reported with `signal_error`; those of senders outside the room
+     * are also logged.
+     *
+     * @returns {Promise<string | null>} The backend ID of the sender, or null when refused
+     */
+    async function signalSender(
+      event: SignalEvent,
+      roomId: string,
+      targetUserId: string,
+      ack: AckCallback<never> | undefined
+    ): Promise<string | null> {
+      const senderId = socket.data.userId;
+      if (!senderId) return null;
+
+      if (!socket.rooms.has(roomId)) {
+        const code = "NOT_IN_ROOM";
+        logDenied(event, { userId: senderId, roomId, code, targetUserId });
+        signalError(event, targetUserId, ack, "Debes estar en la sala para enviar señales", code);
+        return null;
+      }
+
+      // Candidates of a pair already negotiating skip the lookup: the pair is
+      // forgotten as soon as either user leaves
+      const negotiating =
+        event === "webrtc_ice_candidate" &&
+        signaling.hasPair(roomId, senderId, targetUserId);
+      if (!negotiating && !(await isInRoom(roomId, targetUserId))) {
+        signalError(
+          event,
+          targetUserId,
+          ack,
+          "El participante ya no está en la sala",
+          "TARGET_NOT_IN_ROOM"
+        );
+        return null;
+      }
+
+      return senderId;
+    }
+
+    /**
+     * Relays an offer or answer accepted by the coordinator, followed by the
+     * ICE candidates it releases, or reports why it was refused.
+     */
+    function relayDescription(
+      event: "webrtc_offer" | "webrtc_answer",
+      roomId: string,
+      senderId: string,
+      targetUserId: string,
+      sdp: SessionDescription,
+      decision: DescriptionDecision,
+      ack: AckCallback<SignalAck> | undefined
+    ) {
+      if (!decision.relay) {
+        console.log(
+          `[WEBRTC] ↩️ ${event} from ${senderId} to ${targetUserId} refused: ${decision.code}`
+        );
+        signalError(event, targetUserId, ack, decision.message, decision.code);
+        return;
+      }
+
+      // El target puede estar conectado a otro nodo del cluster
+      const target = io.to(userRoom(roomId, targetUserId));
+      target.emit(event, {
+        senderId,
+        sdp,
+        polite: isPolitePeer(targetUserId, senderId),
+      });
+      for (const candidate of decision.flush) {
+        target.emit("webrtc_ice_candidate", { senderId, candidate });
+      }
+
+      emitToNodes(
+        "signal_described",
+        roomId,
+        senderId,
+        targetUserId,
+        event === "webrtc_offer" ? "offer" : "answer"
+      );
+      ack?.({
+        success: true,
+        data: { polite: isPolitePeer(senderId, targetUserId), buffered: false },
+      });
+    }
+
+    /**
+     * Handler for 'webrtc_offer' event.
+     * Forwards a WebRTC offer from one user to a specific target user in the
+     * same room. When both users offer to each other at once (glare), the
+     * polite one's offer is refused with `GLARE` and it answers the other.
+     *
+     * @event webrtc_offer
+     * @param {Object} payload - The offer payload
+     * @param {string} payload.roomId - The room ID where users are connected
+     * @param {string} payload.targetUserId - The ID of the user to receive the offer
+     * @param {RTCSessionDescriptionInit} payload.sdp - The WebRTC session description
+     * @param {Function} [ack] - Optional acknowledgement callback receiving the sender's role
+     * @emits webrtc_offer - Forwards the offer to the target user with sender ID and role
+     * @emits signal_error - When the sender or the target is not in the room, or on glare
+     */
+    socket.on("webrtc_offer", ({ roomId, targetUserId, sdp }, ack) =>
+      inSignalOrder(async () => {
+        const senderId = await signalSender("webrtc_offer", roomId, targetUserId, ack);
+        if (!senderId) return;
+
+        const decision = signaling.offer(roomId, senderId, targetUserId);
+        relayDescription("webrtc_offer", roomId, senderId, targetUserId, sdp, decision, ack);
+      })
+    );
+
+    /**
+     * Handler for 'webrtc_answer' event.
+     * Forwards a WebRTC answer from one user to a specific target user in the
+     * same room. Answers to an offer that is not pending (it lost a glare or
+     * was already answered) are refused with `NO_PENDING_OFFER`.
+     *
+     * @event webrtc_answer
+     * @param {Object} payload - The answer payload
+     * @param {string} payload.roomId - The room ID where users are connected
+     * @param {string} payload.targetUserId - The ID of the user to receive the answer
+     * @param {RTCSessionDescriptionInit} payload.sdp - The WebRTC session description
+     * @param {Function} [ack] - Optional acknowledgement callback receiving the sender's role
+     * @emits webrtc_answer - Forwards the answer to the target user with sender ID and role
+     * @emits signal_error - When the sender or the target is not in the room, or nothing is pending
+     */
+    socket.on("webrtc_answer", ({ roomId, targetUserId, sdp }, ack) =>
+      inSignalOrder(async () => {
+        const senderId = await signalSender("webrtc_answer", roomId, targetUserId, ack);
+        if (!senderId) return;
+
+        const decision = signaling.answer(roomId, senderId, targetUserId);
+        relayDescription("webrtc_answer", roomId, senderId, targetUserId, sdp, decision, ack);
+      })
+    );
+
+    /**
+     * Handler for 'webrtc_ice_candidate' event.
+     * Forwards ICE candidates from one user to a specific target user in the
+     * same room. Candidates sent before the sender's offer or answer reached
+     * the target are held and delivered right after it.
+     *
+     * @event webrtc_ice_candidate
+     * @param {Object} payload - The ICE candidate payload
+     * @param {string} payload.roomId - The room ID where users are connected
+     * @param {string} payload.targetUserId - The ID of the user to receive the candidate
+     * @param {RTCIceCandidate} payload.candidate - The ICE candidate information
+     * @param {Function} [ack] - Optional acknowledgement callback, `buffered` when held
+     * @emits webrtc_ice_candidate - Forwards the ICE candidate to the target user with sender ID
+     * @emits signal_error - When the sender or the target is not in the room, or too many are held
+     */
+    socket.on("webrtc_ice_candidate", ({ roomId, targetUserId, candidate }, ack) =>
+      inSignalOrder(async () => {
+        const senderId = await signalSender(
+          "webrtc_ice_candidate",
+          roomId,
+          targetUserId,
+          ack
+        );
+        if (!senderId) return;
+
+        const decision = signaling.candidate(roomId, senderId, targetUserId, candidate);
+        if (!decision.relay && !decision.buffered) {
+          signalError(
+            "webrtc_ice_candidate",
+            targetUserId,
+            ack,
+            decision.message,
+            decision.code
+          );
+          return;
+        }
+
+        if (decision.relay) {
+          io.to(userRoom(roomId, targetUserId)).emit("webrtc_ice_candidate", {
+            senderId,
+            candidate,
+          });
+        }
+        ack?.({
+          success: true,
+          data: {
+            polite: isPolitePeer(senderId, targetUserId),
+            buffered: decision.buffered,
+          },
+        });
+      })
+    );
+
+    // ===== SEND MESSAGE EVENT =====
+    /**
+     * Handler for 'message' event.
+     * Processes and broadcasts chat messages. Supports both public and private messages.
+     * Validates user connection, message content, and visibility settings.
+     *
+     * @event message
+     * @param {Object} payload - The message payload
+     * @param {string} payload.msg - The message content
+     * @param {('public'|'private')} payload.visibility - Message visibility type
+     * @param {Array<{userId: string}>} payload.target - Array of target users for private messages
+     * @param {string} [payload.replyTo] - ID of the quoted message
+     * @param {string} [payload.threadId] - ID of the thread root when replying inside a thread
+     * @param {string} [payload.clientMessageId] - Client-generated ID; retries with the same ID are not stored twice
+     * @param {Function} [ack] - Acknowledgement callback receiving `{ success, data | message, code }`
+     * @emits message_success - When message is successfully sent
+     * @emits new_success - Broadcasts new public message to room
+     * @emits message_error - When message fails validation or sending
+     * @emits thread_updated - New reply count of the thread, sent to the root's audience
+     */
+    socket.on("message", async (payload, ack) => {
+      const { msg, visibility, target, replyTo, threadId, clientMessageId } =
+        payload;
+
+      /**
+       * Reports a failure to the sender only, through the acknowledgement
+       * callback when provided and the `message_error` event.
+       */
+      const fail = (message: string, code?: string) => {
+        socket.emit("message_error", { message, success: false });
+        ack?.({ success: false, message, code });
+      };
+
+      if (!socket.data.userId || !socket.data.roomId) {
+        return fail("No estás en la sala", "NOT_IN_ROOM");
+      }
+
+      const userId = socket.data.userId;
+      const roomId = socket.data.roomId;
+
+      if (visibility !== "public" && visibility !== "private") {
+        return fail("visibility inválida", "INVALID_PAYLOAD");
+      }
+
+      if (!msg || typeof msg !== "string") {
+        return fail("mensaje inválido", "INVALID_PAYLOAD");
+      }
+
+      if (!socket.rooms.has(roomId)) {
+        return fail("No estás en la sala", "NOT_IN_ROOM");
+      }
+
+      const connection = await getStore().connections.findActive(roomId, userId);
+
+      if (!connection) {
+        return fail(
+          "el usuario no tiene conexión activa en la sala",
+          "NO_ACTIVE_CONNECTION"
+        );
+      }
+
+      if (!(await can(roomId, userId, "send_message"))) {
+        return fail("No tienes permisos para enviar mensajes", "FORBIDDEN");
+      }
+
+      // Build user info without extra Firestore reads – rely on JWT / socket data.
+      const socketUser: any = socket.data.user || {};
+      const baseEmail: string = socketUser.email || "";
+
+      const userInfo = {
+        id: userId,
+        email: baseEmail,
+        displayName:
+          socketUser.displayName ||
+          socketUser.nickname ||
+          (baseEmail ? baseEmail.split("@")[0] : "") ||
+          "Usuario",
+        nickname: socketUser.nickname || null,
+      };
+
+      console.log(
+        `[MESSAGE] User ${userId} (${userInfo.displayName}) sending message`
+      );
+
+      clearTyping(roomId, userId);
+
+      const data = {
+        userId: userId,
+        roomId: roomId,
+        content: msg,
+        visibility: visibility,
+        target: target,
+        replyTo: replyTo,
+        threadId: threadId,
+        clientMessageId: clientMessageId,
+      };
+
+      const message = await createMessage(data);
+
+      if (!message.success && "error" in message && message.error) {
+        return fail(message.error, "INVALID_REFERENCE");
+      }
+
+      if (!message.success || !message.message) {
+        return fail("error al guardar el mensaje", "STORAGE_ERROR");
+      }
+
+      const stored = toMessagePayload(message.message.id, message.message);
+
+      const messagePayload: ChatMessagePayload = {
+        id: message.message.id,
+        content: stored.content,
+        userId: userId,
+        roomId: roomId,
+        visibility: stored.visibility,
+        replyTo: stored.replyTo,
+        threadId: stored.threadId,
+        clientMessageId: clientMessageId || null,
+        createdAt: stored.createdAt || new Date().toISOString(),
+        user: userInfo,
+        success: true,
+      };
+
+      // A retried send was already delivered: only confirm it to the sender
+      if (message.duplicate) {
+        console.log(
+          `[MESSAGE] ♻️ Duplicate send ${clientMessageId} from ${userId} ignored`
+        );
+        if (ack) ack({ success: true, data: { ...messagePayload, duplicate: true } });
+        else socket.emit("message_success", messagePayload);
+        return;
+      }
+
+      ack?.({ success: true, data: { ...messagePayload, duplicate: false } });
+
+      if (visibility === "public") {
+        // Send to sender with user info
+        socket.emit("message_success", messagePayload);
+        // Broadcast to others with user info
+        socket.to(roomId).emit("new_success", messagePayload);
+        console.log(`[MESSAGE] Public message broadcasted to room ${roomId}`);
+      }
+
+      if (visibility === "private") {
+        const recipients = target || [];
+
+        if (recipients.length > 0) {
+          io.to(recipients.map((t) => userRoom(roomId, t.userId))).emit(
+            "message_success",
+            messagePayload
+          );
+        }
+        console.log(
+          `[MESSAGE] Private message sent to ${recipients.length} recipients`
+        );
+      }
+
+      if ("thread" in message && message.thread) {
+        const root = await getMessageById(roomId, message.thread.threadId);
+        if (root.success) {
+          emitToMessageAudience(roomId, root.message, "thread_updated", {
+            roomId,
+            ...message.thread,
+          });
+        }
+      }
+    });
+
+    // ===== LOAD THREAD EVENT =====
+    /**
+     * Handler for 'load_thread' event.
+     * Returns the root message of a thread and one page of its replies, older
+     * than the given cursor. Private replies are only included for their
+     * sender and targets.
+     *
+     * @event load_thread
+     * @param {Object} payload - The thread payload
+     * @param {string} payload.threadId - ID of the thread root message
+     * @param {string} [payload.before] - ID of the oldest reply the client already has
+     * @param {number} [payload.limit] - Page size (capped at 100)
+     * @emits load_thread_success - Root message and page of replies with `nextCursor` and `hasMore`
+     * @emits load_thread_error - When the user is not in a room or the thread is not visible
+     */
+    socket.on("load_thread", async (payload) => {
+      const userId = socket.data.userId;
+      const roomId = socket.data.roomId;
+
+      if (!userId || !roomId || !socket.rooms.has(roomId)) {
+        return socket.emit("load_thread_error", {
+          message: "No estás en la sala",
+          success: false,
+        });
+      }
+
+      const threadId = payload?.threadId;
+      const root = threadId
+        ? await getMessageById(roomId, threadId)
+        : { message: null, success: false };
+
+      if (!root.message || !canSeeMessage(root.message, userId)) {
+        return socket.emit("load_thread_error", {
+          message: "hilo no encontrado",
+          success: false,
+        });
+      }
+
+      const page = await getMessagesPage(roomId, userId, {
+        threadId,
+        before: payload?.before,
+        limit: payload?.limit,
+      });
+
+      if (!page.success) {
+        return socket.emit("load_thread_error", {
+          message: page.message,
+          success: false,
+        });
+      }
+
+      socket.emit("load_thread_success", {
+        roomId,
+        threadId,
+        root: toMessagePayload(root.message.id, root.message),
+        ...page,
+      });
+    });
+
+    // ===== EDIT MESSAGE EVENT =====
+    /**
+     * Handler for 'edit_message' event.
+     * Replaces the content of a message in the current room. Only the author
+     * of the message or a room admin/creator may edit it. The previous content
+     * is kept in the message's edit history.
+     *
+     * @event edit_message
+     * @param {Object} payload - The edit payload
+     * @param {string} payload.messageId - The ID of the message to edit
+     * @param {string} payload.content - The new content
+     * @emits message_edited - Sent to the same audience that received the original message
+     * @emits edit_message_error - When the message does not exist or the user lacks permissions
+     */
+    socket.on("edit_message", async ({ messageId, content }) => {
+      const userId = socket.data.userId;
+      const roomId = socket.data.roomId;
+
+      if (!userId || !roomId || !socket.rooms.has(roomId)) {
+        return socket.emit("edit_message_error", {
+          message: "No estás en la sala",
+          success: false,
+        });
+      }
+
+      if (!messageId || !content || typeof content !== "string") {
+        return socket.emit("edit_message_error", {
+          message: "mensaje inválido",
+          success: false,
+        });
+      }
+
+      const original = await getMessageById(roomId, messageId);
+      if (!original.message) {
+        return socket.emit("edit_message_error", {
+          message: "mensaje no encontrado",
+          success: false,
+        });
+      }
+
+      if (
+        original.message.userId !== userId &&
+        !(await can(roomId, userId, "moderate_messages"))
+      ) {
+        return socket.emit("edit_message_error", {
+          message: "Solo el autor o un admin puede editar el mensaje",
+          success: false,
+        });
+      }
+
+      const result = await editMessage(roomId, messageId, userId, content);
+      if (!result.success || !result.edit) {
+        return socket.emit("edit_message_error", {
+          message: result.message,
+          success: false,
+        });
+      }
+
+      console.log(`[MESSAGE] ✏️ Message ${messageId} edited by ${userId}`);
+
+      emitToMessageAudience(roomId, original.message, "message_edited", {
+        id: messageId,
+        roomId,
+        ...result.edit,
+        success: true,
+      });
+    });
+
+    // ===== DELETE MESSAGE EVENT =====
+    /**
+     * Handler for 'delete_message' event.
+     * Soft-deletes a message in the current room, leaving a tombstone. Only the
+     * author of the message or a room admin/creator may delete it.
+     *
+     * @event delete_message
+     * @param {Object} payload - The delete payload
+     * @param {string} payload.messageId - The ID of the message to delete
+     * @emits message_deleted - Sent to the same audience that received the original message
+     * @emits delete_message_error - When the message does not exist or the user lacks permissions
+     */
+    socket.on("delete_message", async ({ messageId }) => {
+      const userId = socket.data.userId;
+      const roomId = socket.data.roomId;
+
+      if (!userId || !roomId || !socket.rooms.has(roomId)) {
+        return socket.emit("delete_message_error", {
+          message: "No estás en la sala",
+          success: false,
+        });
+      }
+
+      const original = messageId
+        ? await getMessageById(roomId, messageId)
+        : { message: null, success: false };
+
+      if (!original.message) {
+        return socket.emit("delete_message_error", {
+          message: "mensaje no encontrado",
+          success: false,
+        });
+      }
+
+      if (
+        original.message.userId !== userId &&
+        !(await can(roomId, userId, "moderate_messages"))
+      ) {
+        return socket.emit("delete_message_error", {
+          message: "Solo el autor o un admin puede eliminar el mensaje",
+          success: false,
+        });
+      }
+
+      const result = await deleteMessage(roomId, messageId, userId);
+      if (!result.success || !result.tombstone) {
+        return socket.emit("delete_message_error", {
+          message: result.message,
+          success: false,
+        });
+      }
+
+      console.log(`[MESSAGE] 🗑️ Message ${messageId} deleted by ${userId}`);
+
+      emitToMessageAudience(roomId, original.message, "message_deleted", {
+        id: messageId,
+        roomId,
+        ...result.tombstone,
+        success: true,
+      });
+    });
+
+    // ===== REACTION EVENTS =====
+    /**
+     * Shared logic for 'add_reaction' and 'remove_reaction'.
+     * Checks that the user can see the message and broadcasts the resulting
+     * delta to the message's audience. The payload shape is checked by the
+     * validation middleware.
+     *
+     * @param {"added" | "removed"} action - Whether the reaction is added or removed
+     * @param {ReactionPayload} payload - `{ messageId, emoji }`
+     */
+    async function handleReaction(
+      action: "added" | "removed",
+      { messageId, emoji }: ReactionPayload
+    ) {
+      const userId = socket.data.userId;
+      const roomId = socket.data.roomId;
+
+      if (!userId || !roomId || !socket.rooms.has(roomId)) {
+        return socket.emit("reaction_error", {
+          message: "No estás en la sala",
+          success: false,
+        });
+      }
+
+      const original = await getMessageById(roomId, messageId);
+      if (!original.message || !canSeeMessage(original.message, userId)) {
+        return socket.emit("reaction_error", {
+          message: "mensaje no encontrado",
+          success: false,
+        });
+      }
+
+      const result =
+        action === "added"
+          ? await addReaction(roomId, messageId, userId, emoji)
+          : await removeReaction(roomId, messageId, userId, emoji);
+
+      if (!result.success || !result.reaction) {
+        return socket.emit("reaction_error", {
+          message: result.message,
+          success: false,
+        });
+      }
+
+      if (!result.changed) return;
+
+      emitToMessageAudience(roomId, original.message, "reaction_updated", {
+        messageId,
+        roomId,
+        action,
+        ...result.reaction,
+      });
+    }
+
+    /**
+     * Handler for 'add_reaction' event.
+     * Records the user's emoji reaction on a message of the current room.
+     *
+     * @event add_reaction
+     * @param {Object} payload - The reaction payload
+     * @param {string} payload.messageId - The ID of the message
+     * @param {string} payload.emoji - The reaction emoji
+     * @emits reaction_updated - Delta `{ messageId, emoji, userId, action, count }` sent to the message's audience
+     * @emits reaction_error - When the message is not visible or the payload is invalid
+     */
+    socket.on("add_reaction", (payload) => handleReaction("added", payload));
+
+    /**
+     * Handler for 'remove_reaction' event.
+     * Removes the user's emoji reaction from a message of the current room.
+     *
+     * @event remove_reaction
+     * @param {Object} payload - The reaction payload
+     * @param {string} payload.messageId - The ID of the message
+     * @param {string} payload.emoji - The reaction emoji
+     * @emits reaction_updated - Delta `{ messageId, emoji, userId, action, count }` sent to the message's audience
+     * @emits reaction_error - When the message is not visible or the payload is invalid
+     */
+    socket.on("remove_reaction", (payload) => handleReaction("removed", payload));
+
+    // ===== TYPING EVENTS =====
+    /**
+     * Handler for 'typing_start' event.
+     * Marks the user as typing in the current room. Bursts are coalesced:
+     * only the first call (or a change of audience) is broadcast, later calls
+     * just keep the indicator alive. The indicator expires automatically if
+     * the client stops sending `typing_start`.
+     *
+     * @event typing_start
+     * @param {Object} [payload] - The typing payload
+     * @param {('public'|'private')} [payload.visibility] - Whether the user is writing a private message
+     * @param {Array<{userId: string}>} [payload.target] - Recipients of the private message
+     * @emits user_typing - `{ roomId, userId, typing: true }` to the room or to the targets
+     */
+    socket.on("typing_start", (payload) => {
+      const userId = socket.data.userId;
+      const roomId = socket.data.roomId;
+      if (!userId || !roomId || !socket.rooms.has(roomId)) return;
+
+      const isPrivate = payload?.visibility === "private";
+      const target =
+        isPrivate && Array.isArray(payload?.target) ? payload.target : null;
+      if (isPrivate && !target) return;
+
+      const { changed, previous } = startTyping(
+        roomId,
+        userId,
+        socket.id,
+        target,
+        (expired) => emitTypingState(expired, false)
+      );
+
+      if (previous) emitTypingState(previous, false);
+      if (changed) {
+        emitTypingState({ roomId, userId, socketId: socket.id, target }, true);
+      }
+    });
+
+    /**
+     * Handler for 'typing_stop' event.
+     * Clears the user's typing indicator in the current room.
+     *
+     * @event typing_stop
+     * @emits user_typing - `{ roomId, userId, typing: false }` to the same audience as the start
+     */
+    socket.on("typing_stop", () => {
+      const userId = socket.data.userId;
+      const roomId = socket.data.roomId;
+      if (!userId || !roomId) return;
+
+      clearTyping(roomId, userId);
+    });
+
+    // ===== MARK READ EVENT =====
+    /**
+     * Handler for 'mark_read' event.
+     * Moves the user's read cursor in the current room forward to the given
+     * message and notifies the participants that can see that message.
+     *
+     * @event mark_read
+     * @param {Object} payload - The read payload
+     * @param {string} payload.messageId - The ID of the last message the user has seen
+     * @emits read_receipt - `{ roomId, userId, messageId, readAt }` to the message's audience
+     * @emits mark_read_error - When the user is not in a room or the message is not visible
+     */
+    socket.on("mark_read", async (payload) => {
+      const userId = socket.data.userId;
+      const roomId = socket.data.roomId;
+      const messageId = payload?.messageId;
+
+      if (!userId || !roomId || !socket.rooms.has(roomId)) {
+        return socket.emit("mark_read_error", {
+          message: "No estás en la sala",
+          success: false,
+        });
+      }
+
+      if (!messageId || typeof messageId !== "string") {
+        return socket.emit("mark_read_error", {
+          message: "mensaje inválido",
+          success: false,
+        });
+      }
+
+      const result = await markRead(roomId, userId, messageId);
+
+      if (!result.success) {
+        return socket.emit("mark_read_error", {
+          message: result.error,
+          success: false,
+        });
+      }
+
+      if (!result.changed || !result.cursor) return;
+
+      emitToMessageAudience(roomId, result.message, "read_receipt", {
+        roomId,
+        userId,
+        messageId,
+        readAt: result.cursor.lastReadAt,
+      });
+    });
+
+    // ===== LOAD HISTORY EVENT =====
+    /**
+     * Handler for 'load_history' event.
+     * Returns one page of the current room's message history, older than the
+     * given cursor. Private messages are only included for their sender and targets.
+     *
+     * @event load_history
+     * @param {Object} payload - The pagination payload
+     * @param {string} [payload.before] - ID of the oldest message the client already has
+     * @param {number} [payload.limit] - Page size (capped at 100)
+     * @emits load_history_success - Page of messages with `nextCursor` and `hasMore`
+     * @emits load_history_error - When the user is not in a room or the cursor is invalid
+     */
+    socket.on("load_history", async (payload) => {
+      const userId = socket.data.userId;
+      const roomId = socket.data.roomId;
+
+      if (!userId || !roomId || !socket.rooms.has(roomId)) {
+        return socket.emit("load_history_error", {
+          message: "No estás en la sala",
+          success: false,
+        });
+      }
+
+      const page = await getMessagesPage(roomId, userId, {
+        before: payload?.before,
+        limit: payload?.limit,
+      });
+
+      if (!page.success) {
+        return socket.emit("load_history_error", {
+          message: page.message,
+          success: false,
+        });
+      }
+
+      socket.emit("load_history_success", { roomId, ...page });
+    });
+
+    // ===== MEDIA STATE CHANGE EVENTS =====
+    /**
+     * Handler for 'media_state_changed' event.
+     * Broadcasts microphone and camera state changes to all participants in the room.
+     *
+     * @event media_state_changed
+     * @param {Object} payload - The media state payload
+     * @param {boolean} payload.micEnabled - Whether microphone is enabled
+     * @param {boolean} payload.cameraEnabled - Whether camera is enabled
+     * @emits user_media_changed - Notifies other participants about media state changes
+     */
+    socket.on("media_state_changed", async ({ micEnabled, cameraEnabled }) => {
+      const roomId = socket.data.roomId;
+      // CRITICAL: Always use socket.data.user.id (Firebase UID) for consistency with WebRTC
+      // This ensures media state events match the userId used in WebRTC signaling
+      const userId = socket.data.user?.id;
+
+      if (!roomId || !userId) return;
+
+      // Kept for mute requests, which report the devices they leave alone
+      socket.data.media = { micEnabled, cameraEnabled };
+
+      console.log(
+        `[MEDIA] User ${userId} changed media state: mic=${micEnabled}, camera=${cameraEnabled}`
+      );
+
+      // Broadcast to all other users in room
+      socket.to(roomId).emit("user_media_changed", {
+        userId,
+        micEnabled,
+        cameraEnabled,
+      });
+    });
+
+    /**
+     * Reports a failed access request action through `errorEvent` and the
+     * acknowledgement callback when provided.
+     */
+    function accessError(
+      errorEvent: "grant_access_error" | "access_request_error",
+      ack: AckCallback<never> | undefined,
+      message: string,
+      code: string
+    ) {
+      socket.emit(errorEvent, { success: false, message, code });
+      ack?.({ success: false, message, code });
+    }
+
+    /**
+     * Checks the common preconditions of answering an access request,
+     * reporting failures through `errorEvent` and the acknowledgement.
+     *
+     * @returns {string | null} The backend ID of the caller, or null on failure
+     */
+    function accessAnswerCaller(
+      roomId: string,
+      errorEvent: "grant_access_error" | "access_request_error",
+      ack?: AckCallback<never>
+    ): string | null {
+      const fail = (message: string, code: string) => {
+        accessError(errorEvent, ack, message, code);
+        return null;
+      };
+
+      if (!roomId) return fail("Sala inválida", "INVALID_PAYLOAD");
+      if (!socket.data.userId) return fail("No autenticado", "UNAUTHORIZED");
+
+      if (!socket.rooms.has(roomId)) {
+        return fail("Debes estar en la sala para responder solicitudes", "NOT_IN_ROOM");
+      }
+
+      return socket.data.userId;
+    }
+
+    // ===== SEND ACCESS EVENT ====
+    /**
+     * Handler for 'send_access' event.
+     * Stores a request to enter a private room and notifies the users who can
+     * grant access, by user ID, so they get it even outside the room. Admins
+     * who are offline see it in the queue sent when they join.
+     *
+     * @event send_access
+     * @param {string | Object} payload - The room ID, or `{ roomId, message? }`
+     * @param {Function} [ack] - Optional acknowledgement callback receiving the stored request
+     * @emits send_access - Notifies the admins about a new request
+     * @emits access_request_error - When the request cannot be made
+     */
+    socket.on("send_access", async (payload, ack) => {
+      const { roomId, message } =
+        typeof payload === "string" ? { roomId: payload, message: undefined } : payload;
+      const userId = socket.data.userId ?? user.id;
+
+      const result = await requestAccess(roomId, userId, message);
+
+      if (!result.success) {
+        return accessError("access_request_error", ack, result.message, result.code);
+      }
+
+      // Repeated requests are answered without notifying the admins again
+      if (result.created) {
+        console.log(`[ACCESS] 🙋 ${userId} requested access to ${roomId}`);
+        try {
+          const adminsId = await getUsersAllowedTo(roomId, "grant_access");
+
+          if (adminsId.length > 0) {
+            io.to(adminsId.map(userChannel)).emit("send_access", {
+              userId,
+              roomId,
+              message: result.request.message || "El usuario solicita acceso",
+              request: result.request,
+            });
+          }
+        } catch (error) {
+          // The request is stored; admins get it in the queue when they join
+          console.error(`[ACCESS] ❌ Error notifying the admins of ${roomId}:`, error);
+        }
+      }
+
+      ack?.({ success: true, message: result.message, data: result.request });
+    });
+
+    // ===== GRANT ACCESS EVENT ====
+    /**
+     * Handler for 'grant_access' event.
+     * Allows room admins or creators to grant access to a user requesting entry to a private room.
+     * Approves the user's pending request, if any, and tells them by user ID,
+     * wherever they are connected.
+     *
+     * @event grant_access
+     * @param {Object} payload - The access grant payload
+     * @param {string} payload.roomId - The ID of the room to grant access for
+     * @param {string} payload.targetUserId - The ID of the user to grant access to
+     * @param {Function} [ack] - Optional acknowledgement callback `{ success, message, code }`
+     * @emits access_granted - Notifies the target user that access was granted
+     * @emits access_request_updated - Tells the admins the request was approved
+     * @emits grant_access_success - Confirms to the admin that access was granted
+     * @emits grant_access_error - When granter lacks permissions or validation fails
+     */
+    socket.on("grant_access", async ({ roomId, targetUserId }, ack) => {
+      const adminId = accessAnswerCaller(roomId, "grant_access_error", ack);
+      if (!adminId) return;
+
+      const result = await approveAccessRequest(adminId, roomId, targetUserId);
+
+      if (!result.success) {
+        return accessError("grant_access_error", ack, result.message, result.code);
+      }
+
+      // este es el evento que recibe el usuario
+      io.to(userChannel(targetUserId)).emit("access_granted", {
+        roomId,
+        message: "Tu acceso fue aceptado",
+      });
+
+      if (result.request) await notifyAccessAdmins(roomId, result.request);
+
+      socket.emit("grant_access_success", {
+        success: true,
+        message: result.message,
+      });
+      ack?.({ success: true, message: result.message });
+    });
+
+    // ===== DENY ACCESS EVENT ====
+    /**
+     * Handler for 'deny_access' event.
+     * Turns down a pending access request and tells the requester by user ID.
+     *
+     * @event deny_access
+     * @param {Object} payload - `{ roomId, targetUserId, reason? }`
+     * @param {Function} [ack] - Optional acknowledgement callback receiving the denied request
+     * @emits access_denied - Notifies the requester, with the reason when given
+     * @emits access_request_updated - Tells the admins the request was denied
+     * @emits access_request_error - When the caller cannot deny or there is no pending request
+     */
+    socket.on("deny_access", async ({ roomId, targetUserId, reason }, ack) => {
+      const adminId = accessAnswerCaller(roomId, "access_request_error", ack);
+      if (!adminId) return;
+
+      const result = await denyAccessRequest(adminId, roomId, targetUserId);
+
+      if (!result.success) {
+        return accessError("access_request_error", ack, result.message, result.code);
+      }
+
+      console.log(`[ACCESS] ⛔ ${adminId} denied ${targetUserId} access to ${roomId}`);
+      io.to(userChannel(targetUserId)).emit("access_denied", {
+        roomId,
+        message: reason?.trim() || "Tu solicitud de acceso fue rechazada",
+      });
+      await notifyAccessAdmins(roomId, result.request);
+
+      ack?.({ success: true, message: result.message, data: result.request });
+    });
+
+    // ===== INVITE EVENTS ====
+    /**
+     * Reports a failed invite action through `invite_error` and the
+     * acknowledgement callback when provided.
+     */
+    function inviteError(
+      ack: AckCallback<never> | undefined,
+      message: string,
+      code: string
+    ) {
+      socket.emit("invite_error", { success: false, message, code });
+      ack?.({ success: false, message, code });
+    }
+
+    /**
+     * Handler for 'create_invite' event.
+     * Creates a signed invite to a private room. Anyone holding the token can
+     * join with `join_room({ roomId, invite })` until it expires, runs out of
+     * uses or is revoked. The caller does not need to be in the room, so
+     * meetings can be shared ahead of time.
+     *
+     * @event create_invite
+     * @param {Object} payload - `{ roomId, expiresInMinutes?, maxUses?, email? }`
+     * @param {Function} [ack] - Acknowledgement callback receiving `{ invite, token, link }`
+     * @emits invite_error - When the caller cannot invite or the room is not private
+     */
+    socket.on("create_invite", async ({ roomId, ...options }, ack) => {
+      const actorId = socket.data.userId ?? user.id;
+      const result = await createInvite(actorId, roomId, options);
+
+      if (!result.success) return inviteError(ack, result.message, result.code);
+
+      console.log(`[INVITE] 🎟️ ${actorId} created invite ${result.invite.id} for ${roomId}`);
+      ack?.({
+        success: true,
+        message: result.message,
+        data: { invite: result.invite, token: result.token, link: result.link },
+      });
+    });
+
+    /**
+     * Handler for 'list_invites' event.
+     * Returns every invite of a room, newest first.
+     *
+     * @event list_invites
+     * @param {Object} payload - `{ roomId }`
+     * @param {Function} [ack] - Acknowledgement callback receiving the invites
+     * @emits invite_error - When the caller cannot manage invites
+     */
+    socket.on("list_invites", async ({ roomId }, ack) => {
+      const result = await listInvites(socket.data.userId ?? user.id, roomId);
+
+      if (!result.success) return inviteError(ack, result.message, result.code);
+      ack?.({ success: true, message: result.message, data: result.invites });
+    });
+
+    /**
+     * Handler for 'revoke_invite' event.
+     * Makes an invite token stop working. Access already granted with it is kept.
+     *
+     * @event revoke_invite
+     * @param {Object} payload - `{ roomId, inviteId }`
+     * @param {Function} [ack] - Acknowledgement callback receiving the revoked invite
+     * @emits invite_error - When the caller cannot manage invites or the invite does not exist
+     */
+    socket.on("revoke_invite", async ({ roomId, inviteId }, ack) => {
+      const actorId = socket.data.userId ?? user.id;
+      const result = await revokeInvite(actorId, roomId, inviteId);
+
+      if (!result.success) return inviteError(ack, result.message, result.code);
+
+      console.log(`[INVITE] 🗑️ ${actorId} revoked invite ${inviteId} of ${roomId}`);
+      ack?.({ success: true, message: result.message, data: result.invite });
+    });
+
+    // ===== LOBBY EVENTS ====
+    /**
+     * Takes the socket out of the lobby it is waiting in, if any, and
+     * refreshes the hosts' list.
+     */
+    async function leaveLobby() {
+      const entry = socket.data.lobby;
+      if (!entry) return;
+
+      socket.data.lobby = undefined;
+      lobbyJoins.delete(socket.id);
+      socket.leave(lobbyRoom(entry.roomId));
+      await emitLobbyState(entry.roomId);
+    }
+
+    /**
+     * Admits or rejects users waiting in a lobby. Without `targetUserId`
+     * the decision applies to everyone waiting. Guests of a private room
+     * get their access request approved or denied as well.
+     *
+     * @param {"admit" | "reject"} decision - What to do with the users
+     * @param {LobbyActionPayload} payload - `{ roomId, targetUserId?, reason? }`
+     * @param {Function} [ack] - Acknowledgement callback receiving the affected user IDs
+     */
+    async function handleLobbyDecision(
+      decision: "admit" | "reject",
+      { roomId, targetUserId, reason }: LobbyActionPayload,
+      ack?: AckCallback<{ userIds: string[] }>
+    ) {
+      const fail = (message: string, code: string) => {
+        socket.emit("lobby_error", { success: false, message, code });
+        ack?.({ success: false, message, code });
+      };
+
+      const hostId = socket.data.userId;
+      if (!hostId) return fail("No autenticado", "UNAUTHORIZED");
+
+      if (!socket.rooms.has(roomId)) {
+        return fail("Debes estar en la sala para gestionar la sala de espera", "NOT_IN_ROOM");
+      }
+      if (!(await can(roomId, hostId, "grant_access"))) {
+        return fail("No eres anfitrión de la sala", "FORBIDDEN");
+      }
+
+      const waiting = (await fetchSocketsIn(lobbyRoom(roomId))).filter(
+        (s) => s.data.lobby && (!targetUserId || s.data.userId === String(targetUserId))
+      );
+      if (waiting.length === 0) {
+        return fail("No hay nadie en la sala de espera", "NOT_IN_LOBBY");
+      }
+
+      const guests = new Set(
+        waiting.filter((s) => s.data.lobby?.role === "guest").map((s) => s.data.userId!)
+      );
+      const userIds: string[] = [];
+
+      for (const userId of new Set(waiting.map((s) => s.data.userId!))) {
+        if (guests.has(userId)) {
+          const result =
+            decision === "admit"
+              ? await approveAccessRequest(hostId, roomId, userId)
+              : await denyAccessRequest(hostId, roomId, userId);
+
+          if (!result.success && decision === "admit") {
+            console.error(`[LOBBY] ❌ Could not grant ${userId} access to ${roomId}: ${result.code}`);
+            continue;
+          }
+          if (result.success && result.request) {
+            await notifyAccessAdmins(roomId, result.request);
+          }
+        }
+        userIds.push(userId);
+      }
+
+      console.log(
+        `[LOBBY] 🚪 ${hostId} ${decision === "admit" ? "admitted" : "rejected"} ${userIds.join(", ")} in ${roomId}`
+      );
+
+      if (decision === "admit") {
+        await admitFromLobby(roomId, userIds);
+      } else {
+        await rejectFromLobby(
+          roomId,
+          userIds,
+          reason?.trim() || "El anfitrión no te admitió en la sala"
+        );
+      }
+
+      await emitLobbyState(roomId);
+      ack?.({
+        success: true,
+        message: decision === "admit" ? "usuarios admitidos" : "usuarios rechazados",
+        data: { userIds },
+      });
+    }
+
+    /**
+     * Handler for 'lobby_admit' event.
+     * Lets one user (`targetUserId`) or everyone waiting in the lobby into
+     * the room. Hosts only.
+     *
+     * @event lobby_admit
+     * @param {Object} payload - `{ roomId, targetUserId? }`
+     * @param {Function} [ack] - Acknowledgement callback receiving `{ userIds }`
+     * @emits join_room_success - To each admitted socket, completing its join
+     * @emits lobby_updated - Sent to the hosts with the remaining users
+     * @emits lobby_error - When the caller is not a host or nobody is waiting
+     */
+    socket.on("lobby_admit", (payload, ack) =>
+      handleLobbyDecision("admit", payload, ack)
+    );
+
+    /**
+     * Handler for 'lobby_reject' event.
+     * Turns away one user (`targetUserId`) or everyone waiting in the lobby.
+     * Hosts only.
+     *
+     * @event lobby_reject
+     * @param {Object} payload - `{ roomId, targetUserId?, reason? }`
+     * @param {Function} [ack] - Acknowledgement callback receiving `{ userIds }`
+     * @emits lobby_rejected - To the rejected users, with the reason when given
+     * @emits lobby_updated - Sent to the hosts with the remaining users
+     * @emits lobby_error - When the caller is not a host or nobody is waiting
+     */
+    socket.on("lobby_reject", (payload, ack) =>
+      handleLobbyDecision("reject", payload, ack)
+    );
+
+    // ===== MODERATION EVENTS ====
+    /**
+     * Reports a failed moderation action through `moderation_error` and the
+     * acknowledgement callback when provided.
+     */
+    function moderationError(
+      ack: AckCallback<never> | undefined,
+      message: string,
+      code: string
+    ) {
+      socket.emit("moderation_error", { success: false, message, code });
+      ack?.({ success: false, message, code });
+    }
+
+    /**
+     * Checks that the caller is in the room they are moderating, reporting
+     * failures through `moderation_error` and the acknowledgement.
+     *
+     * @returns {string | null} The backend ID of the caller, or null on failure
+     */
+    function moderationCaller(roomId: string, ack?: AckCallback<never>): string | null {
+      if (!socket.data.userId) {
+        moderationError(ack, "No autenticado", "UNAUTHORIZED");
+        return null;
+      }
+      if (!socket.rooms.has(roomId)) {
+        moderationError(ack, "Debes estar en la sala para moderarla", "NOT_IN_ROOM");
+        return null;
+      }
+      return socket.data.userId;
+    }
+
+    /**
+     * Handler for 'kick_user' event.
+     * Removes a participant from the room: their sockets leave it and their
+     * connection is closed through `leftConnection`. They may join again
+     * unless banned. Owners and admins only, on users of a lower role.
+     *
+     * @event kick_user
+     * @param {Object} payload - `{ roomId, targetUserId, reason? }`
+     * @param {Function} [ack] - Acknowledgement callback receiving the audit entry
+     * @emits moderation_notice - To the removed user, by user ID
+     * @emits moderation_audit - To the hosts in the room
+     * @emits moderation_error - When the caller cannot remove the user or they are not in the room
+     */
+    socket.on("kick_user", async ({ roomId, targetUserId, reason }, ack) => {
+      const actorId = moderationCaller(roomId, ack);
+      if (!actorId) return;
+
+      try {
+        const present = await fetchSocketsIn(userRoom(roomId, String(targetUserId)));
+        if (present.length === 0) {
+          return moderationError(ack, "El usuario no está en la sala", "USER_NOT_IN_ROOM");
+        }
+
+        const result = await kickUser(actorId, roomId, targetUserId, reason);
+        if (!result.success) return moderationError(ack, result.message, result.code);
+
+        console.log(`[MODERATION] 👢 ${actorId} removed ${targetUserId} from ${roomId}`);
+        notifyModerated(
+          roomId,
+          targetUserId,
+          "kick",
+          reason?.trim() || "Un anfitrión te sacó de la sala"
+        );
+        await evictUser(roomId, targetUserId);
+
+        await publishAudit(result.entry);
+        ack?.({ success: true, message: result.message, data: result.entry });
+      } catch (error) {
+        console.error("[MODERATION] ❌ Error in kick_user:", error);
+        moderationError(ack, "Error interno", "INTERNAL_ERROR");
+      }
+    });
+
+    /**
+     * Handler for 'ban_user' event.
+     * Bans a user from the room, removing them if they are in it or waiting
+     * in its lobby. Banned users cannot join until `unban_user`. Owners and
+     * admins only, on users of a lower role.
+     *
+     * @event ban_user
+     * @param {Object} payload - `{ roomId, targetUserId, reason? }`
+     * @param {Function} [ack] - Acknowledgement callback receiving the audit entry
+     * @emits moderation_notice - To the banned user, by user ID
+     * @emits moderation_audit - To the hosts in the room
+     * @emits moderation_error - When the caller cannot ban the user
+     */
+    socket.on("ban_user", async ({ roomId, targetUserId, reason }, ack) => {
+      const actorId = moderationCaller(roomId, ack);
+      if (!actorId) return;
+
+      try {
+        const result = await banUser(actorId, roomId, targetUserId, reason);
+        if (!result.success) return moderationError(ack, result.message, result.code);
+
+        const targetId = String(targetUserId);
+        const message = reason?.trim() || "Un anfitrión te bloqueó en la sala";
+
+        console.log(`[MODERATION] ⛔ ${actorId} banned ${targetId} from ${roomId}`);
+        notifyModerated(roomId, targetId, "ban", message);
+        await evictUser(roomId, targetId);
+
+        const waiting = await fetchSocketsIn(lobbyRoom(roomId));
+        if (waiting.some((s) => s.data.userId === targetId)) {
+          await rejectFromLobby(roomId, [targetId], message);
+          await emitLobbyState(roomId);
+        }
+
+        await publishAudit(result.entry);
+        ack?.({ success: true, message: result.message, data: result.entry });
+      } catch (error) {
+        console.error("[MODERATION] ❌ Error in ban_user:", error);
+        moderationError(ack, "Error interno", "INTERNAL_ERROR");
+      }
+    });
+
+    /**
+     * Handler for 'unban_user' event.
+     * Lifts a ban so the user can join again.
+     *
+     * @event unban_user
+     * @param {Object} payload - `{ roomId, targetUserId }`
+     * @param {Function} [ack] - Acknowledgement callback receiving the audit entry
+     * @emits moderation_notice - To the user, by user ID
+     * @emits moderation_audit - To the hosts in the room
+     * @emits moderation_error - When the caller cannot unban or the user is not banned
+     */
+    socket.on("unban_user", async ({ roomId, targetUserId }, ack) => {
+      const actorId = moderationCaller(roomId, ack);
+      if (!actorId) return;
+
+      try {
+        const result = await unbanUser(actorId, roomId, targetUserId);
+        if (!result.success) return moderationError(ack, result.message, result.code);
+
+        console.log(`[MODERATION] ✅ ${actorId} unbanned ${targetUserId} from ${roomId}`);
+        notifyModerated(roomId, targetUserId, "unban", "Ya puedes volver a entrar a la sala");
+
+        await publishAudit(result.entry);
+        ack?.({ success: true, message: result.message, data: result.entry });
+      } catch (error) {
+        console.error("[MODERATION] ❌ Error in unban_user:", error);
+        moderationError(ack, "Error interno", "INTERNAL_ERROR");
+      }
+    });
+
+    /**
+     * Handler for 'lock_room' event.
+     * Locks the room against new joins, or unlocks it with `locked: false`.
+     * Participants already in the room stay; hosts can still join.
+     *
+     * @event lock_room
+     * @param {Object} payload - `{ roomId, locked? }`
+     * @param {Function} [ack] - Acknowledgement callback receiving the room
+     * @emits room_updated - To the room, with change `locked` or `unlocked`
+     * @emits moderation_audit - To the hosts in the room
+     * @emits moderation_error - When the caller cannot lock the room
+     */
+    socket.on("lock_room", async ({ roomId, locked }, ack) => {
+      const actorId = moderationCaller(roomId, ack);
+      if (!actorId) return;
+
+      try {
+        const result = await setRoomLocked(actorId, roomId, locked ?? true);
+        if (!result.success) return moderationError(ack, result.message, result.code);
+
+        await publishRoomChange(result.change, result.room, actorId);
+        await publishAudit(result.entry);
+        ack?.({ success: true, message: result.message, data: result.room });
+      } catch (error) {
+        console.error("[MODERATION] ❌ Error in lock_room:", error);
+        moderationError(ack, "Error interno", "INTERNAL_ERROR");
+      }
+    });
+
+    /**
+     * Handler for 'request_mute' event.
+     * Asks one user (`targetUserId`), or everyone the caller outranks, to
+     * turn off their microphone and/or camera. The request goes to each
+     * target socket as `user_media_changed` with its own user ID,
+     * `requestedBy` set and the requested devices off; clients turn them
+     * off and confirm with `media_state_changed`. Hosts and moderators only.
+     *
+     * @event request_mute
+     * @param {Object} payload - `{ roomId, targetUserId?, mic? = true, camera? = false }`
+     * @param {Function} [ack] - Acknowledgement callback receiving the asked user IDs
+     * @emits user_media_changed - To the target sockets
+     * @emits moderation_audit - To the hosts in the room
+     * @emits moderation_error - When the caller cannot mute others or the target is not in the room
+     */
+    socket.on("request_mute", async ({ roomId, targetUserId, mic, camera }, ack) => {
+      const actorId = moderationCaller(roomId, ack);
+      if (!actorId) return;
+
+      try {
+        const devices = { mic: mic ?? true, camera: camera ?? false };
+        const sockets = await fetchSocketsIn(roomId);
+        const participantIds = sockets
+          .map((s) => s.data.userId)
+          .filter((id): id is string => id !== undefined);
+
+        const result = await requestMute(
+          actorId,
+          roomId,
+          { targetUserId, ...devices },
+          participantIds
+        );
+        if (!result.success) return moderationError(ack, result.message, result.code);
+
+        for (const s of sockets) {
+          if (!s.data.userId || !result.userIds.includes(s.data.userId)) continue;
+
+          // Same Firebase UID as in `media_state_changed` and WebRTC signaling
+          s.emit("user_media_changed", {
+            userId: s.data.user?.id ?? s.data.userId,
+            micEnabled: !devices.mic && (s.data.media?.micEnabled ?? true),
+            cameraEnabled: !devices.camera && (s.data.media?.cameraEnabled ?? true),
+            requestedBy: actorId,
+          });
+        }
+
+        console.log(
+          `[MODERATION] 🔇 ${actorId} asked ${result.userIds.join(", ") || "nobody"} in ${roomId} to mute`
+        );
+        await publishAudit(result.entry);
+        ack?.({ success: true, message: result.message, data: { userIds: result.userIds } });
+      } catch (error) {
+        console.error("[MODERATION] ❌ Error in request_mute:", error);
+        moderationError(ack, "Error interno", "INTERNAL_ERROR");
+      }
+    });
+
+    // ===== LEAVE ROOM EVENT =====
+    /**
+     * Handler for 'disconnect' event.
+     * Cleans up user connections when they disconnect from the server.
+     * Marks the connection as left in the database and notifies other users in the room.
+     * Lost connections (transport closed, ping timeout) are held for the
+     * reconnect grace window first, so a socket that resumes keeps its place.
+     *
+     * @event disconnect
+     * @param {string} reason - The reason for disconnection
+     * @emits userDisconnected - Notifies room members that a user has disconnected
+     */
+    socket.on("disconnect", async (reason) => {
+      try {
+        const roomId = socket.data.roomId;
+        const userId = socket.data.userId;
+
+        console.log(`[DISCONNECT] Socket ${socket.id} disconnected: ${reason}`);
+        await leaveLobby();
+        if (userId && roomId) clearTyping(roomId, userId, socket.id);
+
+        // A lost connection keeps its place until the grace window ends
+        if (reconnectGraceMs > 0 && RESUMABLE_DISCONNECT_REASONS.has(reason)) {
+          console.log(
+            `[DISCONNECT] ⏳ Holding ${socket.id} for ${reconnectGraceMs}ms before leaving`
+          );
+          graceTimers.set(
+            socket.id,
+            setTimeout(() => {
+              graceTimers.delete(socket.id);
+              releaseSocket().catch((error) =>
+                console.error("[DISCONNECT] ❌ Error releasing socket:", error)
+              );
+            }, reconnectGraceMs)
+          );
+          return;
+        }
+
+        await releaseSocket();
+      } catch (error: any) {
+        console.error("[ROOM] Error leaving room:", error.message);
+      }
+    });
+
+    // ===== DISCONNECT EVENT =====
+    /**
+     * Handler for 'leaveRoom' event.
+     * Allows a user to explicitly leave a room without disconnecting from the server.
+     * Updates the connection status and notifies other room members.
+     *
+     * @event leaveRoom
+     * @param {Function} [ack] - Optional acknowledgement callback, called once the user has left
+     * @emits userLeft - Notifies room members that a user has left the room
+     * @emits disconect_error - When an error occurs during the leave process
+     */
+    socket.on("leaveRoom", async (payload, ack) => {
+      // `emit("leaveRoom", cb)` delivers the callback as the first argument
+      const done = typeof payload === "function" ? (payload as AckCallback) : ack;
+
+      try {
+        await leaveLobby();
+
+        const roomId = socket.data.roomId;
+        const userId = socket.data.userId;
+
+        console.log(`[ROOM] User ${userId} leaving room ${roomId}`);
+
+        if (userId && roomId) {
+          clearTyping(roomId, userId, socket.id);
+
+          if (!(await hasOtherSockets(roomId, userId, socket.id))) {
+            forgetSignalingPeer(roomId, userId);
+            await leftConnection(userId, roomId);
+            socket.to(roomId).emit("userLeft", {
+              success: true,
+              message: `User ${user?.email} left the room`,
+              user: socket.data.user,
+            });
+          }
+        }
+
+        if (roomId) {
+          socket.leave(roomId);
+          if (userId) socket.leave(userRoom(roomId, userId));
+          await emitRoomUsersState(roomId);
+        }
+
+        done?.({ success: true, message: "Saliste de la sala" });
+      } catch (error: any) {
+        socket.emit("disconect_error", {
+          user: null,
+          message: "Error interno",
+          success: false,
+        });
+        done?.({ success: false, message: "Error interno", code: "INTERNAL_ERROR" });
+        console.error("[DISCONNECT] Error handling disconnect:", error.message);
+      }
+    });
+
+    // ===== END ROOM (HOST) EVENT =====
+    /**
+     * Handler for 'end_room' event.
+     * Ends the meeting for all participants: they are notified and removed,
+     * their connection records are closed and the room gets `endedAt`.
+     * Owners and admins only, from inside the room. Refused attempts are
+     * reported with `room_error` and logged.
+     *
+     * @event end_room
+     * @param {Object} [payload] - `{ roomId? }`, the current room by default
+     * @param {Function} [ack] - Optional acknowledgement callback receiving the room
+     * @emits room_ended - Notifies room members that the meeting has been ended
+     * @emits room_updated - To the room, with change `ended`
+     * @emits room_error - When the caller cannot end the room
+     */
+    socket.on("end_room", async (payload, ack) => {
+      // `emit("end_room", cb)` delivers the callback as the first argument
+      const done =
+        typeof payload === "function" ? (payload as AckCallback<RoomDetails>) : ack;
+      const roomId =
+        (typeof payload === "object" && payload?.roomId) || socket.data.roomId;
+      const actorId = socket.data.userId;
+
+      const fail = (message: string, code: string) => {
+        if (code !== "STORAGE_ERROR" && code !== "INTERNAL_ERROR") {
+          logDenied("end_room", { userId: actorId, roomId, code });
+        }
+        socket.emit("room_error", { success: false, message, code });
+        done?.({ success: false, message, code });
+      };
+
+      if (!roomId || !actorId || !socket.rooms.has(roomId)) {
+        return fail("Debes estar en la sala para finalizarla", "NOT_IN_ROOM");
+      }
+
+      try {
+        const result = await endRoom(actorId, roomId);
+        if (!result.success) return fail(result.message, result.code);
+
+        console.log(`[ROOM] 🔚 Ending room ${roomId} by ${actorId}`);
+        // Notify all users
+        io.to(roomId).emit("room_ended", {
+          success: true,
+          roomId,
+          message: "La reunión ha sido finalizada por el anfitrión",
+        });
+        // Hosts get the audit record before everyone leaves the room
+        await publishAudit(result.entry);
+        // Make all sockets leave the room, on every node
+        await publishRoomChange(result.change, result.room, actorId);
+
+        done?.({ success: true, message: result.message, data: result.room });
+        console.log(`[ROOM] ✅ Room ${roomId} ended and sockets left`);
+      } catch (error) {
+        console.error("[ROOM] ❌ Error in end_room:", error);
+        fail("Error interno", "INTERNAL_ERROR");
+      }
+    });
+
+    // ===== ROOM LIFECYCLE EVENTS =====
+    /**
+     * Runs a room mutation for the connected user, answers through the
+     * acknowledgement callback (or `room_error` on failure) and announces
+     * the change with `room_updated`.
+     *
+     * @param {Function} mutate - The roomService call, given the backend user ID
+     * @param {Function} [ack] - Optional acknowledgement callback
+     */
+    async function handleRoomMutation(
+      mutate: (userId: string) => Promise<RoomMutationResult>,
+      ack?: AckCallback<RoomDetails>
+    ) {
+      const fail = (message: string, code: string) => {
+        socket.emit("room_error", { success: false, message, code });
+        ack?.({ success: false, message, code });
+      };
+
+      try {
+        const userId = await resolveBackendUserId(user.id);
+        const result = await mutate(userId);
+        if (!result.success) return fail(result.message, result.code);
+
+        await publishRoomChange(result.change, result.room, userId);
+        ack?.({ success: true, message: result.message, data: result.room });
+      } catch (error) {
+        console.error("[ROOM] ❌ Error applying room change:", error);
+        fail("Error interno", "INTERNAL_ERROR");
+      }
+    }
+
+    /**
+     * Handler for 'create_room' event.
+     * Creates a room owned by the connected user. The creator is not joined
+     * to it; the client emits `join_room` with the returned ID.
+     *
+     * @event create_room
+     * @param {Object} payload - `{ name, description?, isPrivate?, lobbyEnabled? }`
+     * @param {Function} [ack] - Acknowledgement callback receiving the created room
+     * @emits room_error - When the room cannot be created
+     */
+    socket.on("create_room", (payload, ack) =>
+      handleRoomMutation((userId) => createRoom(userId, payload), ack)
+    );
+
+    /**
+     * Handler for 'update_room' event.
+     * Changes the name, description, privacy or lobby setting of a room.
+     * Creator or admins only. Turning the lobby off lets in the users waiting
+     * in it, except guests of a private room.
+     *
+     * @event update_room
+     * @param {Object} payload - `{ roomId, name?, description?, isPrivate?, lobbyEnabled? }`
+     * @param {Function} [ack] - Acknowledgement callback receiving the updated room
+     * @emits room_updated - Sent to the room's participants
+     * @emits room_error - When the user cannot change the room
+     */
+    socket.on("update_room", (payload, ack) =>
+      handleRoomMutation((userId) => updateRoom(userId, payload), ack)
+    );
+
+    /**
+     * Handler for 'archive_room' event.
+     * Archives a room (or restores it with `archived: false`). Participants
+     * are removed from an archived room. Creator or admins only.
+     *
+     * @event archive_room
+     * @param {Object} payload - `{ roomId, archived? }`
+     * @param {Function} [ack] - Acknowledgement callback receiving the updated room
+     * @emits room_updated - Sent to the room's participants
+     * @emits room_error - When the user cannot change the room
+     */
+    socket.on("archive_room", ({ roomId, archived }, ack) =>
+      handleRoomMutation(
+        (userId) => setRoomArchived(userId, roomId, archived ?? true),
+        ack
+      )
+    );
+
+    /**
+     * Handler for 'delete_room' event.
+     * Soft-deletes a room and removes its participants. Creator or admins only.
+     *
+     * @event delete_room
+     * @param {Object} payload - `{ roomId }`
+     * @param {Function} [ack] - Acknowledgement callback receiving the deleted room
+     * @emits room_updated - Sent to the room's participants
+     * @emits room_error - When the user cannot delete the room
+     */
+    socket.on("delete_room", ({ roomId }, ack) =>
+      handleRoomMutation((userId) => deleteRoom(userId, roomId), ack)
+    );
+
+    // ===== ROLE EVENTS =====
+    /**
+     * Changes the role of a user and announces it to the room and to the
+     * user, answering through the acknowledgement callback (or `role_error`
+     * on failure).
+     *
+     * @param {string} roomId - The room
+     * @param {string} targetUserId - The user whose role changes
+     * @param {StoredRoomRole} role - The new role
+     * @param {Function} [ack] - Optional acknowledgement callback
+     */
+    async function handleRoleChange(
+      roomId: string,
+      targetUserId: string,
+      role: StoredRoomRole,
+      ack?: AckCallback<RoleChangedPayload>
+    ) {
+      const actorId = await resolveBackendUserId(user.id);
+      const result = await setRoomRole(actorId, roomId, targetUserId, role);
+
+      if (!result.success) {
+        socket.emit("role_error", {
+          success: false,
+          message: result.message,
+          code: result.code,
+        });
+        ack?.({ success: false, message: result.message, code: result.code });
+        return;
+      }
+
+      const payload: RoleChangedPayload = {
+        roomId,
+        userId: result.userId,
+        role: result.role,
+        previousRole: result.previousRole,
+        changedBy: actorId,
+      };
+
+      console.log(
+        `[ROLES] 🎖️ ${result.userId} is now ${result.role} in ${roomId} (was ${result.previousRole})`
+      );
+      io.to([roomId, userRoom(roomId, result.userId)]).emit(
+        "role_changed",
+        payload
+      );
+      ack?.({ success: true, message: result.message, data: payload });
+    }
+
+    /**
+     * Handler for 'promote' event.
+     * Makes a user admin or moderator of a room. Admins can appoint
+     * moderators; only the owner can appoint admins.
+     *
+     * @event promote
+     * @param {Object} payload - `{ roomId, targetUserId, role: "admin" | "moderator" }`
+     * @param {Function} [ack] - Acknowledgement callback receiving the role change
+     * @emits role_changed - Sent to the room and to the promoted user
+     * @emits role_error - When the caller cannot change the role
+     */
+    socket.on("promote", ({ roomId, targetUserId, role }, ack) =>
+      handleRoleChange(roomId, targetUserId, role, ack)
+    );
+
+    /**
+     * Handler for 'demote' event.
+     * Takes a user back to a plain member of the room. Only the owner can
+     * demote admins.
+     *
+     * @event demote
+     * @param {Object} payload - `{ roomId, targetUserId }`
+     * @param {Function} [ack] - Acknowledgement callback receiving the role change
+     * @emits role_changed - Sent to the room and to the demoted user
+     * @emits role_error - When the caller cannot change the role
+     */
+    socket.on("demote", ({ roomId, targetUserId }, ack) =>
+      handleRoleChange(roomId, targetUserId, "member", ack)
+    );
+  });
+
+  // ===== Stale Connection Reaper =====
+
+  /**
+   * Closes connections of instances that are gone. Users with sockets in
+   * the room on any node keep their session, now held by this instance.
+   */
+  const reapConnections = () =>
+    reapStaleConnections({
+      instanceId,
+      isPresent: async (roomId, userId) =>
+        (await io.in(userRoom(roomId, userId)).fetchSockets()).length > 0,
+    });
+
+  return {
+    app,
+    httpServer,
+    io,
+    instanceId,
+    async listen(port = options.port ?? (Number(process.env.PORT) || 4000)) {
+      // Announce the instance before it opens any connection
+      await sendHeartbeat(instanceId, startedAt);
+
+      const bound = await new Promise<number>((resolve, reject) => {
+        httpServer.once("error", reject);
+        httpServer.listen(port, () => {
+          httpServer.off("error", reject);
+          const address = httpServer.address();
+          resolve(typeof address === "object" && address ? address.port : port);
+        });
+      });
+
+      backgroundTimers.push(
+        setInterval(() => sendHeartbeat(instanceId, startedAt), heartbeatIntervalMs)
+      );
+      if (reaperIntervalMs > 0) {
+        void reapConnections();
+        backgroundTimers.push(setInterval(reapConnections, reaperIntervalMs));
+      }
+      for (const timer of backgroundTimers) timer.unref();
+
+      return bound;
+    },
+    reapConnections,
+    async close() {
+      for (const timer of graceTimers.values()) clearTimeout(timer);
+      graceTimers.clear();
+      for (const timer of backgroundTimers) clearInterval(timer);
+      backgroundTimers.length = 0;
+
+      await new Promise<void>((resolve) => {
+        io.close(() => resolve());
+      });
+      await markInstanceStopped(instanceId, startedAt);
+    },
+  };
+};
@@ -0,0 +1,281 @@
+/**
+ * Access Requests
+ * Requests to enter private rooms, stored in `rooms/{roomId}/accessRequests`
+ * so they survive until an admin answers them, even if no admin was online
+ * when they were sent.
+ */
+
+import { getStore } from "../repositories";
+import { createRoomAccess, deleteRoomAccess } from "./roomAcessService";
+import { can, getRoomRole, hasPermission, outranks } from "./roleService";
+import type { AccessRequest } from "../types";
+
+/**
+ * Pending requests expire after this long without an answer. Defaults to 24 hours.
+ */
+export const ACCESS_REQUEST_TTL_MS =
+  Number(process.env.ACCESS_REQUEST_TTL_MS) || 24 * 60 * 60 * 1000;
+
+const fail = (message: string, code: string) => ({
+  success: false as const,
+  message,
+  code,
+});
+
+/**
+ * Marks a pending request as expired once its `expiresAt` has passed.
+ * Expiry is applied lazily whenever requests are read.
+ *
+ * @param {AccessRequest} request - The stored request
+ * @returns {Promise<AccessRequest>} The request with its current status
+ */
+const expireIfStale = async (request: AccessRequest): Promise<AccessRequest> => {
+  if (request.status !== "pending" || Date.parse(request.expiresAt) > Date.now()) {
+    return request;
+  }
+
+  const patch = { status: "expired" as const, resolvedAt: request.expiresAt };
+  await getStore().accessRequests.update(request.roomId, request.id, patch);
+  return { ...request, ...patch };
+};
+
+/**
+ * Finds the pending request of a user, expiring it first if needed.
+ *
+ * @param {string} roomId - The room
+ * @param {string} userId - The requester
+ * @returns {Promise<AccessRequest | null>} The pending request, or null
+ */
+const findPendingRequest = async (roomId: string, userId: string) => {
+  const request = await getStore().accessRequests.findPending(roomId, userId);
+  if (!request) return null;
+
+  const current = await expireIfStale(request);
+  return current.status === "pending" ? current : null;
+};
+
+/**
+ * Stores a request to enter a private room.
+ *
+ * A user with a pending request gets it back (`created: false`) instead of
+ * a duplicate, so admins are only notified once. Users who can already
+ * enter the room, such as members or anyone in a public room, are refused
+ * with `ALREADY_MEMBER`.
+ *
+ * @param {string} roomId - The private room
+ * @param {string} userId - Backend ID of the requester
+ * @param {string} [message] - Optional note for the admins
+ * @returns Result with the request and whether it was created, or a failure `code`
+ * @example
+ * const result = await requestAccess("room123", "user456", "Soy del equipo");
+ * if (result.success && result.created) notifyAdmins(result.request);
+ */
+export const requestAccess = async (
+  roomId: string,
+  userId: string,
+  message?: string
+) => {
+  try {
+    const room = await getStore().rooms.get(roomId);
+    if (!room || room.deletedAt) {
+      return fail("Sala no encontrada", "ROOM_NOT_FOUND");
+    }
+    if (room.archivedAt) {
+      return fail("La sala está archivada", "ROOM_ARCHIVED");
+    }
+
+    if ((await getRoomRole(roomId, userId)) !== "guest") {
+      return fail("Ya tienes acceso a la sala", "ALREADY_MEMBER");
+    }
+
+    const pending = await findPendingRequest(roomId, String(userId));
+    if (pending) {
+      return {
+        success: true as const,
+        message: "solicitud pendiente",
+        request: pending,
+        created: false,
+      };
+    }
+
+    const now = new Date();
+    const request = await getStore().accessRequests.create(roomId, {
+      roomId,
+      userId: String(userId),
+      status: "pending",
+      message: message?.trim() || null,
+      requestedAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + ACCESS_REQUEST_TTL_MS).toISOString(),
+      resolvedAt: null,
+      resolvedBy: null,
+    });
+
+    return {
+      success: true as const,
+      message: "solicitud enviada",
+      request,
+      created: true,
+    };
+  } catch (error) {
+    console.error("Error creando solicitud de acceso:", error);
+    return fail("error al crear la solicitud", "STORAGE_ERROR");
+  }
+};
+
+/**
+ * Lists the pending requests of a room, oldest first. Requests past their
+ * expiry are marked expired and left out.
+ *
+ * @param {string} roomId - The room
+ * @returns {Promise<{requests: AccessRequest[], success: boolean}>} The pending queue
+ * @example
+ * const { requests } = await listPendingRequests("room123");
+ */
+export const listPendingRequests = async (roomId: string) => {
+  try {
+    const stored = await getStore().accessRequests.listByRoom(roomId, "pending");
+    const current = await Promise.all(stored.map(expireIfStale));
+
+    return {
+      requests: current.filter((r) => r.status === "pending"),
+      success: true,
+    };
+  } catch (error) {
+    console.error("Error al obtener solicitudes de acceso:", error);
+    return { requests: [] as AccessRequest[], success: false };
+  }
+};
+
+/**
+ * Closes the pending request of a user, if any, with the given status.
+ *
+ * @returns {Promise<AccessRequest | null>} The closed request, or null
+ */
+const closeRequest = async (
+  roomId: string,
+  userId: string,
+  status: "approved" | "denied",
+  resolvedBy: string
+) => {
+  const pending = await findPendingRequest(roomId, String(userId));
+  if (!pending) return null;
+
+  const patch = {
+    status,
+    resolvedAt: new Date().toISOString(),
+    resolvedBy: String(resolvedBy),
+  };
+  await getStore().accessRequests.update(roomId, pending.id, patch);
+  return { ...pending, ...patch };
+};
+
+/**
+ * Grants a user access to a private room and approves their pending
+ * request, if they had one. Access can also be granted without a request.
+ *
+ * @param {string} actorId - Backend ID of the admin granting access
+ * @param {string} roomId - The room
+ * @param {string} userId - The user who gets access
+ * @returns Result with the approved request (null without one), or a failure `code`
+ * @example
+ * const result = await approveAccessRequest("admin1", "room123", "user456");
+ */
+export const approveAccessRequest = async (
+  actorId: string,
+  roomId: string,
+  userId: string
+) => {
+  if (!(await can(roomId, actorId, "grant_access"))) {
+    return fail("No eres admin ni creador", "FORBIDDEN");
+  }
+
+  const granted = await createRoomAccess(userId, roomId, actorId);
+  if (!granted.success) return fail(granted.message, "STORAGE_ERROR");
+
+  try {
+    const request = await closeRequest(roomId, userId, "approved", actorId);
+    return { success: true as const, message: "Acceso creado", request };
+  } catch (error) {
+    console.error("Error cerrando solicitud de acceso:", error);
+    return { success: true as const, message: "Acceso creado", request: null };
+  }
+};
+
+/**
+ * Turns down the pending request of a user.
+ *
+ * @param {string} actorId - Backend ID of the admin denying access
+ * @param {string} roomId - The room
+ * @param {string} userId - The requester
+ * @returns Result with the denied request, or a failure `code` (`REQUEST_NOT_FOUND` without a pending request)
+ * @example
+ * const result = await denyAccessRequest("admin1", "room123", "user456");
+ */
+export const denyAccessRequest = async (
+  actorId: string,
+  roomId: string,
+  userId: string
+) => {
+  if (!(await can(roomId, actorId, "grant_access"))) {
+    return fail("No eres admin ni creador", "FORBIDDEN");
+  }
+
+  try {
+    const request = await closeRequest(roomId, userId, "denied", actorId);
+    if (!request) {
+      return fail("No hay una solicitud pendiente", "REQUEST_NOT_FOUND");
+    }
+
+    return { success: true as const, message: "Solicitud rechazada", request };
+  } catch (error) {
+    console.error("Error rechazando solicitud de acceso:", error);
+    return fail("error al rechazar la solicitud", "STORAGE_ERROR");
+  }
+};
+
+/**
+ * Revokes the access grant of a user to a private room. Like moderation
+ * actions, it only applies to users of a lower role than the actor, and
+ * never to the actor themselves.
+ *
+ * @param {string} actorId - Backend ID of the admin revoking access
+ * @param {string} roomId - The room
+ * @param {string} userId - The user who loses access
+ * @returns Result with the deleted grant, or a failure `code` (`ACCESS_NOT_FOUND` without a grant)
+ * @example
+ * const result = await revokeAccess("admin1", "room123", "user456");
+ */
+export const revokeAccess = async (
+  actorId: string,
+  roomId: string,
+  userId: string
+) => {
+  try {
+    const actorRole = (await getRoomRole(roomId, actorId)) ?? "guest";
+    if (!hasPermission(actorRole, "grant_access")) {
+      return fail("No eres admin ni creador", "FORBIDDEN");
+    }
+
+    if (String(userId) === String(actorId)) {
+      return fail("No puedes revocar tu propio acceso", "INVALID_TARGET");
+    }
+
+    const targetRole = (await getRoomRole(roomId, userId)) ?? "guest";
+    if (!outranks(actorRole, targetRole)) {
+      return fail(
+        "No puedes revocar el acceso de un usuario de tu rol o superior",
+        "FORBIDDEN"
+      );
+    }
+  } catch (error) {
+    console.error("Error verificando permisos:", error);
+    return fail("error al revocar el acceso", "STORAGE_ERROR");
+  }
+
+  const revoked = await deleteRoomAccess(userId, roomId);
+  if (!revoked.success || !revoked.access) {
+    return fail("El usuario no tiene acceso a la sala", "ACCESS_NOT_FOUND");
+  }
+
+  return { success: true as const, message: revoked.message, access: revoked.access };
+};
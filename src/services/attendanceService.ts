@@ -0,0 +1,225 @@
+/**
+ * Attendance
+ * Who attended a room and for how long, from the connection records in
+ * `rooms/{roomId}/connections`: each record is one session, from a join to
+ * the matching leave. Reports cover a time window (the meeting or class)
+ * and can be exported as CSV.
+ */
+
+import { getStore } from "../repositories";
+import { getRoomRole, hasPermission } from "./roleService";
+import type {
+  AttendanceReport,
+  ParticipantAttendance,
+  RoomConnection,
+} from "../types";
+
+/**
+ * Window of a report when `from` is not given: the last 30 days.
+ */
+export const DEFAULT_ATTENDANCE_WINDOW_DAYS = 30;
+
+/**
+ * Longest window a report can cover.
+ */
+export const MAX_ATTENDANCE_WINDOW_DAYS = 366;
+
+/**
+ * Most sessions read for one report. Larger windows come back `truncated`.
+ */
+export const MAX_ATTENDANCE_SESSIONS = 5000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Later of two ISO dates. */
+const latest = (a: string, b: string) => (a > b ? a : b);
+
+const fail = (message: string, code: string) => ({
+  success: false as const,
+  message,
+  code,
+});
+
+/**
+ * Total length of a set of intervals, counting overlaps once.
+ *
+ * @param {Array<[number, number]>} intervals - Start and end, in ms
+ * @returns {number} Covered time, in ms
+ */
+const coveredMs = (intervals: [number, number][]): number => {
+  let total = 0;
+  let reached = -Infinity;
+
+  for (const [start, end] of [...intervals].sort((a, b) => a[0] - b[0])) {
+    const from = Math.max(start, reached);
+    if (end > from) total += end - from;
+    reached = Math.max(reached, end);
+  }
+
+  return total;
+};
+
+/**
+ * Builds the report of a room from its sessions in the window. Time is
+ * only counted within `[from, to]`; open sessions count until `to` or now.
+ *
+ * @param {string} roomId - The room
+ * @param {RoomConnection[]} connections - Sessions overlapping the window
+ * @param {number} from - Start of the window, in ms
+ * @param {number} to - End of the window, in ms
+ * @returns {Omit<AttendanceReport, "truncated">} The report
+ */
+const summarize = (
+  roomId: string,
+  connections: RoomConnection[],
+  from: number,
+  to: number
+): Omit<AttendanceReport, "truncated"> => {
+  const end = Math.min(to, Date.now());
+  const clip = (c: RoomConnection): [number, number] => [
+    Math.max(Date.parse(c.joinedAt), from),
+    Math.min(c.leftAt ? Date.parse(c.leftAt) : end, end),
+  ];
+
+  const byUser = new Map<string, RoomConnection[]>();
+  for (const connection of connections) {
+    const userId = String(connection.userId);
+    byUser.set(userId, [...(byUser.get(userId) ?? []), connection]);
+  }
+
+  const participants: ParticipantAttendance[] = [...byUser.entries()].map(
+    ([userId, sessions]) => {
+      const open = sessions.some((s) => s.leftAt === null);
+      return {
+        userId,
+        firstJoinAt: sessions[0].joinedAt,
+        lastLeftAt: open ? null : sessions.map((s) => s.leftAt!).reduce(latest),
+        totalSeconds: Math.round(coveredMs(sessions.map(clip)) / 1000),
+        sessions: sessions.map(({ joinedAt, leftAt }) => ({ joinedAt, leftAt })),
+      };
+    }
+  );
+
+  const present = participants.some((p) => p.lastLeftAt === null);
+
+  return {
+    roomId,
+    from: new Date(from).toISOString(),
+    to: new Date(to).toISOString(),
+    meeting: {
+      firstJoinAt: participants[0]?.firstJoinAt ?? null,
+      lastLeftAt:
+        participants.length === 0 || present
+          ? null
+          : participants.map((p) => p.lastLeftAt!).reduce(latest),
+      durationSeconds: Math.round(coveredMs(connections.map(clip)) / 1000),
+      participants: participants.length,
+      sessions: connections.length,
+      totalSeconds: participants.reduce((sum, p) => sum + p.totalSeconds, 0),
+    },
+    participants,
+  };
+};
+
+/**
+ * Builds the attendance report of a room: every session in the window,
+ * with the total time, first join and last leave of each participant and
+ * of the meeting as a whole. Requires `view_attendance`.
+ *
+ * @param {string} actorId - Backend ID of the host asking for the report
+ * @param {string} roomId - The room
+ * @param {Object} [window] - ISO dates; the last 30 days until now by default
+ * @param {string} [window.from] - Start of the window
+ * @param {string} [window.to] - End of the window
+ * @returns Result with the report, or a failure `code`
+ * @example
+ * const result = await getAttendanceReport("admin1", "room123", {
+ *   from: "2026-03-02T08:00:00Z",
+ *   to: "2026-03-02T10:00:00Z",
+ * });
+ * if (result.success) console.log(result.report.meeting.participants);
+ */
+export const getAttendanceReport = async (
+  actorId: string,
+  roomId: string,
+  window: { from?: string; to?: string } = {}
+) => {
+  const to = window.to === undefined ? Date.now() : Date.parse(window.to);
+  const from =
+    window.from === undefined
+      ? to - DEFAULT_ATTENDANCE_WINDOW_DAYS * DAY_MS
+      : Date.parse(window.from);
+
+  if (Number.isNaN(from) || Number.isNaN(to)) {
+    return fail("from y to deben ser fechas ISO", "INVALID_PAYLOAD");
+  }
+  if (from > to) {
+    return fail("from debe ser anterior a to", "INVALID_PAYLOAD");
+  }
+  if (to - from > MAX_ATTENDANCE_WINDOW_DAYS * DAY_MS) {
+    return fail(
+      `el periodo no puede superar ${MAX_ATTENDANCE_WINDOW_DAYS} días`,
+      "INVALID_PAYLOAD"
+    );
+  }
+
+  try {
+    const role = await getRoomRole(roomId, actorId);
+    if (!role) return fail("Sala no encontrada", "ROOM_NOT_FOUND");
+    if (!hasPermission(role, "view_attendance")) {
+      return fail("No eres admin ni creador", "FORBIDDEN");
+    }
+
+    const sessions = await getStore().connections.listInWindow(
+      roomId,
+      new Date(from).toISOString(),
+      new Date(to).toISOString(),
+      MAX_ATTENDANCE_SESSIONS + 1
+    );
+    const truncated = sessions.length > MAX_ATTENDANCE_SESSIONS;
+
+    const report = {
+      ...summarize(roomId, sessions.slice(0, MAX_ATTENDANCE_SESSIONS), from, to),
+      truncated,
+    };
+    return { success: true as const, message: "asistencia obtenida", report };
+  } catch (error) {
+    console.error("Error obteniendo asistencia:", error);
+    return fail("error al obtener la asistencia", "STORAGE_ERROR");
+  }
+};
+
+/**
+ * Quotes a CSV cell when needed. Cells that a spreadsheet would run as a
+ * formula are prefixed with `'`.
+ *
+ * @param {string | number | null} value - The cell value
+ * @returns {string} The escaped cell
+ */
+const csvCell = (value: string | number | null): string => {
+  let text = value === null ? "" : String(value);
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Exports the participants of a report as CSV, one row per user.
+ *
+ * @param {AttendanceReport} report - The report
+ * @returns {string} CSV with a header row and CRLF line endings
+ * @example
+ * res.type("text/csv").send(toAttendanceCsv(report));
+ */
+export const toAttendanceCsv = (report: AttendanceReport): string =>
+  [
+    ["userId", "firstJoinAt", "lastLeftAt", "totalSeconds", "sessions"],
+    ...report.participants.map((p) => [
+      p.userId,
+      p.firstJoinAt,
+      p.lastLeftAt,
+      p.totalSeconds,
+      p.sessions.length,
+    ]),
+  ]
+    .map((row) => row.map(csvCell).join(","))
+    .join("\r\n") + "\r\n";
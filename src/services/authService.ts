@@ -0,0 +1,86 @@
+import jwt from "jsonwebtoken";
+import { getStore } from "../repositories";
+import type { JWTUser } from "../types";
+
+/**
+ * Secret shared with the main backend and the WebRTC service to sign
+ * access tokens.
+ */
+const ACCESS_SECRET =
+  process.env.ACCESS_SECRET ||
+  process.env.JWT_SECRET ||
+  "default-secret-change-me";
+
+/**
+ * Verifies an access token and returns the normalized user it belongs to.
+ *
+ * The token is first checked as a backend JWT signed with `ACCESS_SECRET`;
+ * if that fails it is verified as a Firebase ID token. Both the Socket.IO
+ * middleware and the REST endpoints rely on this function so that the two
+ * entry points accept exactly the same credentials.
+ *
+ * @param {string} token - Raw token sent by the client
+ * @returns {Promise<JWTUser>} The authenticated user
+ * @throws {Error} When the token is neither a valid backend JWT nor a valid Firebase ID token
+ * @example
+ * const user = await verifyAccessToken(socket.handshake.auth.token);
+ * console.log(user.id, user.email);
+ */
+export const verifyAccessToken = async (token: string): Promise<JWTUser> => {
+  try {
+    const decoded = jwt.verify(token, ACCESS_SECRET) as JWTUser;
+    console.log(
+      `[AUTH] Backend JWT verified for user ${decoded.email} (${decoded.id})`
+    );
+    return decoded;
+  } catch (backendJWTError: any) {
+    console.log(
+      `[AUTH] Backend JWT verification failed, trying Firebase token...`
+    );
+
+    try {
+      const admin = (await import("../config/firebase")).default;
+      const decodedFirebaseToken = await admin.auth().verifyIdToken(token);
+
+      console.log(
+        `[AUTH] Firebase token verified for user ${decodedFirebaseToken.email} (${decodedFirebaseToken.uid})`
+      );
+      return {
+        id: decodedFirebaseToken.uid,
+        email: decodedFirebaseToken.email || "",
+      };
+    } catch (firebaseError: any) {
+      console.error(`[AUTH] Backend JWT error: ${backendJWTError.message}`);
+      console.error(`[AUTH] Firebase error: ${firebaseError.message}`);
+      throw new Error("Invalid authentication token");
+    }
+  }
+};
+
+/**
+ * Maps a Firebase UID to the backend user document ID.
+ * Falls back to the Firebase UID itself when no user document exists.
+ *
+ * @param {string} firebaseUid - The Firebase UID taken from the verified token
+ * @returns {Promise<string>} The backend user ID used in connections and messages
+ * @example
+ * const userId = await resolveBackendUserId(user.id);
+ */
+export const resolveBackendUserId = async (
+  firebaseUid: string
+): Promise<string> => {
+  try {
+    const userId = await getStore().users.findIdByUid(firebaseUid);
+
+    if (userId) {
+      console.log(`[AUTH] 📝 Mapped Firebase UID ${firebaseUid} → Backend ID ${userId}`);
+      return userId;
+    }
+
+    console.log(`[AUTH] ⚠️ No user document found for Firebase UID ${firebaseUid}, using Firebase UID as userId`);
+  } catch (err) {
+    console.error(`[AUTH] ❌ Error fetching user document:`, err);
+  }
+
+  return firebaseUid;
+};
@@ -0,0 +1,305 @@
+/**
+ * Room Invites
+ * Signed invite tokens that let users into a private room without an admin
+ * approving each of them. Tokens are JWTs carrying the room and invite IDs;
+ * the invite record in `rooms/{roomId}/invites` holds the limits (uses,
+ * email, revocation), so an invite can be revoked after sharing it.
+ */
+
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { getStore } from "../repositories";
+import { createRoomAccess } from "./roomAcessService";
+import { can, getRoomRole } from "./roleService";
+import type { RoomInvite } from "../types";
+
+/**
+ * Invites expire after 7 days unless the admin picks another lifetime.
+ */
+export const DEFAULT_INVITE_TTL_MINUTES = 7 * 24 * 60;
+
+/**
+ * Longest lifetime an invite can have: 30 days.
+ */
+export const MAX_INVITE_TTL_MINUTES = 30 * 24 * 60;
+
+/**
+ * Key used to sign invite tokens. Derived from the access token secret
+ * unless `INVITE_SECRET` is set, so an invite can never be presented as an
+ * access token (or the other way round).
+ */
+const INVITE_SECRET =
+  process.env.INVITE_SECRET ||
+  crypto
+    .createHmac(
+      "sha256",
+      process.env.ACCESS_SECRET ||
+        process.env.JWT_SECRET ||
+        "default-secret-change-me"
+    )
+    .update("room-invites")
+    .digest("hex");
+
+const INVITE_AUDIENCE = "room-invite";
+
+/**
+ * Claims of an invite token.
+ */
+interface InviteClaims {
+  roomId: string;
+  inviteId: string;
+}
+
+const fail = (message: string, code: string) => ({
+  success: false as const,
+  message,
+  code,
+});
+
+/**
+ * Signs the shareable token of an invite. It expires with the invite.
+ *
+ * @param {RoomInvite} invite - The stored invite
+ * @returns {string} The token to share
+ * @example
+ * const token = signInviteToken(invite);
+ */
+export const signInviteToken = (invite: RoomInvite): string =>
+  jwt.sign(
+    {
+      roomId: invite.roomId,
+      inviteId: invite.id,
+      exp: Math.floor(Date.parse(invite.expiresAt) / 1000),
+    },
+    INVITE_SECRET,
+    { audience: INVITE_AUDIENCE }
+  );
+
+/**
+ * Builds the link to share for an invite, from `INVITE_LINK_BASE_URL` or
+ * `FRONTEND_URL`. Returns null when neither is set.
+ *
+ * @param {string} roomId - The room
+ * @param {string} token - The invite token
+ * @returns {string | null} The link, e.g. `https://app/rooms/abc?invite=...`
+ */
+const buildInviteLink = (roomId: string, token: string): string | null => {
+  const base = (process.env.INVITE_LINK_BASE_URL || process.env.FRONTEND_URL || "")
+    .trim()
+    .replace(/\/+$/, "");
+  if (!base) return null;
+
+  return `${base}/rooms/${encodeURIComponent(roomId)}?invite=${token}`;
+};
+
+/**
+ * Creates an invite to a private room. Requires `grant_access`.
+ *
+ * @param {string} actorId - Backend ID of the admin creating the invite
+ * @param {string} roomId - The private room
+ * @param {Object} options - Limits of the invite
+ * @param {number} [options.expiresInMinutes] - Lifetime, 7 days by default and 30 days at most
+ * @param {number} [options.maxUses] - How many users may redeem it; unlimited by default
+ * @param {string} [options.email] - Only the user with this email may redeem it
+ * @returns Result with the invite, its token and link, or a failure `code`
+ * @example
+ * const result = await createInvite("admin1", "room123", { maxUses: 10 });
+ * if (result.success) share(result.link ?? result.token);
+ */
+export const createInvite = async (
+  actorId: string,
+  roomId: string,
+  options: { expiresInMinutes?: number; maxUses?: number; email?: string } = {}
+) => {
+  try {
+    const room = await getStore().rooms.get(roomId);
+    if (!room || room.deletedAt) {
+      return fail("Sala no encontrada", "ROOM_NOT_FOUND");
+    }
+    if (room.archivedAt) {
+      return fail("La sala está archivada", "ROOM_ARCHIVED");
+    }
+    if (!(room.isPrivate || room.private)) {
+      return fail("Solo las salas privadas usan invitaciones", "ROOM_NOT_PRIVATE");
+    }
+    if (!(await can(roomId, actorId, "grant_access"))) {
+      return fail("No eres admin ni creador", "FORBIDDEN");
+    }
+
+    const minutes = Math.min(
+      options.expiresInMinutes ?? DEFAULT_INVITE_TTL_MINUTES,
+      MAX_INVITE_TTL_MINUTES
+    );
+    const now = new Date();
+
+    const invite = await getStore().invites.create(roomId, {
+      roomId,
+      createdBy: String(actorId),
+      createdAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + minutes * 60_000).toISOString(),
+      maxUses: options.maxUses ?? null,
+      uses: 0,
+      email: options.email?.trim().toLowerCase() || null,
+      revokedAt: null,
+      revokedBy: null,
+    });
+    const token = signInviteToken(invite);
+
+    return {
+      success: true as const,
+      message: "invitación creada",
+      invite,
+      token,
+      link: buildInviteLink(roomId, token),
+    };
+  } catch (error) {
+    console.error("Error creando invitación:", error);
+    return fail("error al crear la invitación", "STORAGE_ERROR");
+  }
+};
+
+/**
+ * Lists the invites of a room, newest first, including used up, expired and
+ * revoked ones. Requires `grant_access`.
+ *
+ * @param {string} actorId - Backend ID of the admin
+ * @param {string} roomId - The room
+ * @returns Result with the invites, or a failure `code`
+ * @example
+ * const { invites } = await listInvites("admin1", "room123");
+ */
+export const listInvites = async (actorId: string, roomId: string) => {
+  if (!(await can(roomId, actorId, "grant_access"))) {
+    return fail("No eres admin ni creador", "FORBIDDEN");
+  }
+
+  try {
+    const invites = await getStore().invites.listByRoom(roomId);
+    return { success: true as const, message: "invitaciones obtenidas", invites };
+  } catch (error) {
+    console.error("Error al obtener invitaciones:", error);
+    return fail("error al obtener invitaciones", "STORAGE_ERROR");
+  }
+};
+
+/**
+ * Revokes an invite: its token stops working, even if already shared.
+ * Grants created with it are kept. Requires `grant_access`.
+ *
+ * @param {string} actorId - Backend ID of the admin
+ * @param {string} roomId - The room
+ * @param {string} inviteId - The invite to revoke
+ * @returns Result with the revoked invite, or a failure `code`
+ * @example
+ * const result = await revokeInvite("admin1", "room123", "inv789");
+ */
+export const revokeInvite = async (
+  actorId: string,
+  roomId: string,
+  inviteId: string
+) => {
+  if (!(await can(roomId, actorId, "grant_access"))) {
+    return fail("No eres admin ni creador", "FORBIDDEN");
+  }
+
+  try {
+    const invite = await getStore().invites.get(roomId, inviteId);
+    if (!invite) return fail("Invitación no encontrada", "INVITE_NOT_FOUND");
+    if (invite.revokedAt) {
+      return { success: true as const, message: "invitación revocada", invite };
+    }
+
+    const patch = {
+      revokedAt: new Date().toISOString(),
+      revokedBy: String(actorId),
+    };
+    await getStore().invites.update(roomId, inviteId, patch);
+
+    return {
+      success: true as const,
+      message: "invitación revocada",
+      invite: { ...invite, ...patch },
+    };
+  } catch (error) {
+    console.error("Error revocando invitación:", error);
+    return fail("error al revocar la invitación", "STORAGE_ERROR");
+  }
+};
+
+/**
+ * Redeems an invite token for a room, creating the user's access grant
+ * through `createRoomAccess` (on behalf of the invite's creator).
+ *
+ * Users who can already enter the room succeed without using the invite.
+ * Failure codes: `INVITE_INVALID` (bad signature or another room),
+ * `INVITE_EXPIRED`, `INVITE_REVOKED`, `INVITE_EXHAUSTED` (no uses left) and
+ * `INVITE_EMAIL_MISMATCH`.
+ *
+ * @param {string} token - The invite token presented by the user
+ * @param {string} roomId - The room the user is joining
+ * @param {string} userId - Backend ID of the user
+ * @param {string} email - Email of the authenticated user
+ * @returns Result with the invite used (null when not needed), or a failure `code`
+ * @example
+ * const result = await redeemInvite(token, "room123", userId, user.email);
+ * if (!result.success) return joinError(result.message, result.code);
+ */
+export const redeemInvite = async (
+  token: string,
+  roomId: string,
+  userId: string,
+  email: string
+) => {
+  let claims: InviteClaims;
+  try {
+    claims = jwt.verify(token, INVITE_SECRET, {
+      audience: INVITE_AUDIENCE,
+    }) as InviteClaims;
+  } catch (error) {
+    if (error instanceof jwt.TokenExpiredError) {
+      return fail("La invitación expiró", "INVITE_EXPIRED");
+    }
+    return fail("Invitación inválida", "INVITE_INVALID");
+  }
+
+  if (String(claims.roomId) !== String(roomId)) {
+    return fail("La invitación es de otra sala", "INVITE_INVALID");
+  }
+
+  try {
+    if ((await getRoomRole(roomId, userId)) !== "guest") {
+      return { success: true as const, message: "ya tienes acceso", invite: null };
+    }
+
+    const invite = await getStore().invites.get(roomId, claims.inviteId);
+    if (!invite) return fail("Invitación inválida", "INVITE_INVALID");
+    if (invite.revokedAt) {
+      return fail("La invitación fue revocada", "INVITE_REVOKED");
+    }
+    if (Date.parse(invite.expiresAt) <= Date.now()) {
+      return fail("La invitación expiró", "INVITE_EXPIRED");
+    }
+    if (invite.email && invite.email !== email.trim().toLowerCase()) {
+      return fail("La invitación es para otro usuario", "INVITE_EMAIL_MISMATCH");
+    }
+
+    // Counted before granting, so two users cannot take the last use
+    const used = await getStore().invites.claimUse(roomId, invite.id);
+    if (!used) {
+      return fail("La invitación ya no tiene usos disponibles", "INVITE_EXHAUSTED");
+    }
+
+    const granted = await createRoomAccess(userId, roomId, invite.createdBy);
+    if (!granted.success) {
+      // The use is given back, so a failed grant does not burn the invite
+      await getStore().invites.releaseUse(roomId, invite.id);
+      // The creator may have lost the permission to grant access
+      return fail("La invitación ya no es válida", "INVITE_INVALID");
+    }
+
+    return { success: true as const, message: "invitación usada", invite: used };
+  } catch (error) {
+    console.error("Error usando invitación:", error);
+    return fail("error al usar la invitación", "STORAGE_ERROR");
+  }
+};
@@ -1,4 +1,6 @@
-import { db } from "../config/firebase";
+import { createHash } from "crypto";
+import { getStore } from "../repositories";
+import type { StoredMessage } from "../types";
 
 /**
  * Retrieves all messages from a specific room, ordered by creation time.
@@ -14,17 +16,7 @@ import { db } from "../config/firebase";
  */
 export const getAllMessagesByRoom = async (roomId: any) => {
   try {
-    const snap = await db
-      .collection("rooms")
-      .doc(roomId)
-      .collection("messages")
-      .orderBy("createAt", "asc")
-      .get();
-
-    const messages = snap.docs.map((d) => ({
-      id: d.id,
-      ...d.data(),
-    }));
+    const messages = await getStore().messages.list(roomId, { order: "asc" });
 
     return {
       messages: messages,
@@ -41,6 +33,176 @@ export const getAllMessagesByRoom = async (roomId: any) => {
   }
 };
 
+/**
+ * Default number of messages returned by a history page.
+ */
+const DEFAULT_HISTORY_LIMIT = 50;
+
+/**
+ * Upper bound for a single history page, regardless of what the client asks for.
+ */
+const MAX_HISTORY_LIMIT = 100;
+
+/**
+ * Normalizes a `Date` (or a Firestore `Timestamp`, or an already
+ * serialized value) into an ISO string.
+ *
+ * @param {any} value - The stored timestamp
+ * @returns {string | null} ISO string, or null when the value is missing
+ */
+const toIsoString = (value: any): string | null => {
+  if (!value) return null;
+  if (typeof value.toDate === "function") return value.toDate().toISOString();
+  if (value instanceof Date) return value.toISOString();
+  return value;
+};
+
+/**
+ * Converts a stored message into the payload shape used by the
+ * real-time `message_success`/`new_success` events.
+ *
+ * @param {string} id - The message document ID
+ * @param {any} data - The stored message data
+ * @returns {Object} Serializable message payload with an ISO `createdAt`
+ */
+export const toMessagePayload = (id: string, data: any) => {
+  const createAt = data.createAt;
+
+  return {
+    id: id,
+    content: data.content,
+    userId: data.userId,
+    roomId: data.roomId,
+    visibility: data.visibility || "public",
+    target: data.target || null,
+    replyTo: data.replyTo || null,
+    threadId: data.threadId || null,
+    replyCount: data.replyCount || 0,
+    lastReplyAt: toIsoString(data.lastReplyAt),
+    reactions: data.reactions || {},
+    reactionCounts: data.reactionCounts || {},
+    editedAt: data.editedAt || null,
+    deleted: Boolean(data.deletedAt),
+    createdAt: toIsoString(createAt),
+  };
+};
+
+/**
+ * Checks whether a stored message is visible to a given user.
+ * Public messages are visible to everybody; private messages only to the
+ * sender and the users listed in `target`.
+ *
+ * @param {any} message - The stored message data
+ * @param {string} userId - The ID of the user reading the message
+ * @returns {boolean} True if the user is allowed to see the message
+ * @example
+ * const visible = canSeeMessage({ visibility: "private", userId: "a", target: [{ userId: "b" }] }, "b"); // true
+ */
+export const canSeeMessage = (message: any, userId: string): boolean => {
+  if (message.visibility !== "private") return true;
+  if (message.userId === userId) return true;
+  return Array.isArray(message.target) && sendMessageTo(message.target, userId);
+};
+
+/**
+ * Retrieves one page of a room's message history visible to a user.
+ *
+ * Pages are read backwards from `before` (a message ID) so that clients can
+ * keep scrolling up, but the messages inside a page are returned in
+ * ascending `createAt` order. Private messages the user is not part of are
+ * skipped, and more documents are read until the page is full or the
+ * history is exhausted.
+ *
+ * Without `threadId` the main room stream is returned and thread replies
+ * are left out; with `threadId` only the replies of that thread are returned.
+ *
+ * @param {string} roomId - The ID of the room to read from
+ * @param {string} userId - The ID of the user requesting the history
+ * @param {Object} [options] - Pagination options
+ * @param {string} [options.before] - Message ID used as cursor; only older messages are returned
+ * @param {number} [options.limit] - Page size (defaults to 50, capped at 100)
+ * @param {string} [options.threadId] - Root message ID to read a thread instead of the main stream
+ * @returns {Promise<{messages: Array<any> | null, nextCursor: string | null, hasMore: boolean, message: string, success: boolean}>}
+ *          Object containing the page, the cursor for the next (older) page, and success flag
+ * @example
+ * const page = await getMessagesPage("room123", "user456", { limit: 20 });
+ * if (page.success && page.hasMore) {
+ *   const older = await getMessagesPage("room123", "user456", { before: page.nextCursor! });
+ * }
+ */
+export const getMessagesPage = async (
+  roomId: string,
+  userId: string,
+  options: { before?: string; limit?: number; threadId?: string } = {}
+) => {
+  const limit = Math.min(
+    Math.max(Math.floor(Number(options.limit)) || DEFAULT_HISTORY_LIMIT, 1),
+    MAX_HISTORY_LIMIT
+  );
+
+  try {
+    const messages = getStore().messages;
+    let cursor: string | undefined;
+
+    if (options.before) {
+      cursor = options.before;
+      if (!(await messages.get(roomId, cursor))) {
+        return {
+          messages: null,
+          nextCursor: null,
+          hasMore: false,
+          message: "cursor inválido",
+          success: false,
+        };
+      }
+    }
+
+    const visible: StoredMessage[] = [];
+    let exhausted = false;
+
+    while (visible.length < limit && !exhausted) {
+      const batch = await messages.list(roomId, {
+        threadId: options.threadId,
+        order: "desc",
+        startAfter: cursor,
+        limit: limit,
+      });
+      exhausted = batch.length < limit;
+
+      for (const message of batch) {
+        cursor = message.id;
+        if (!options.threadId && message.threadId) continue;
+        if (!canSeeMessage(message, userId)) continue;
+        visible.push(message);
+        if (visible.length === limit) break;
+      }
+    }
+
+    // A full page may still be followed by older messages
+    const hasMore = !exhausted || visible.length === limit;
+    const page = visible
+      .reverse()
+      .map((message) => toMessagePayload(message.id, message));
+
+    return {
+      messages: page,
+      nextCursor: hasMore && page.length > 0 ? page[0].id : null,
+      hasMore: hasMore,
+      message: "mensajes obtenidos correctamente",
+      success: true,
+    };
+  } catch (error) {
+    console.error("Error al obtener historial de mensajes:", error);
+    return {
+      messages: null,
+      nextCursor: null,
+      hasMore: false,
+      message: "mensajes no encontrados",
+      success: false,
+    };
+  }
+};
+
 /**
  * Retrieves all messages sent by a specific user within a room.
  *
@@ -56,17 +218,7 @@ export const getAllMessagesByRoom = async (roomId: any) => {
  */
 export const getAllMessageOfUserInRoom = async (userId: any, roomId: any) => {
   try {
-    const snap = await db
-      .collection("rooms")
-      .doc(roomId)
-      .collection("messages")
-      .where("userId", "==", userId)
-      .get();
-
-    const messages = snap.docs.map((d) => ({
-      id: d.id,
-      ...d.data(),
-    }));
+    const messages = await getStore().messages.list(roomId, { userId });
 
     if (messages.length === 0)
       return {
@@ -105,18 +257,50 @@ export const sendMessageTo = (target: any[], userId: string): boolean => {
   return target.some((t) => t.userId === userId);
 };
 
+/**
+ * Derives a message document ID from a sender and its client-generated
+ * message ID, so the same send always maps to the same document.
+ *
+ * @param {string} userId - The ID of the sender
+ * @param {string} clientMessageId - The client-generated message ID
+ * @returns {string} Deterministic document ID
+ */
+const idempotentMessageId = (userId: string, clientMessageId: string) =>
+  createHash("sha256")
+    .update(`${userId}:${clientMessageId}`)
+    .digest("hex")
+    .slice(0, 32);
+
 /**
  * Creates and stores a new message in the database.
  * Supports both public and private messages with optional target recipients.
  *
+ * A message can reference another message of the same room:
+ * - `replyTo` quotes a message; the reply stays in the main room stream.
+ * - `threadId` posts the message inside the thread of a root message; it is
+ *   left out of the main history and the root keeps `replyCount` and
+ *   `lastReplyAt` up to date.
+ *
+ * Both references must exist in the same room, not be deleted, and be
+ * visible to the sender. When both are given, `replyTo` must belong to the
+ * thread.
+ *
+ * When the client provides a `clientMessageId`, the document ID is derived
+ * from it and the sender, so retrying the same send (e.g. after a
+ * reconnect) returns the stored message with `duplicate: true` instead of
+ * creating a second document.
+ *
  * @param {Object} data - The message data object
  * @param {string} data.userId - The ID of the user sending the message
  * @param {string} data.roomId - The ID of the room where the message is sent
  * @param {string} data.content - The content/text of the message
  * @param {('public'|'private')} data.visibility - The visibility type of the message
  * @param {Array<{userId: string}> | null} data.target - Array of target users for private messages
- * @returns {Promise<{user: string, message: any, success: boolean} | {userId: string, success: boolean}>}
- *          Object containing the user ID, created message document, and success flag
+ * @param {string} [data.replyTo] - The ID of the quoted message
+ * @param {string} [data.threadId] - The ID of the thread root message
+ * @param {string} [data.clientMessageId] - Client-generated ID used to deduplicate retries
+ * @returns {Promise<{user: string, message: any, thread: {threadId: string, replyCount: number, lastReplyAt: string} | null, duplicate: boolean, success: boolean} | {userId: string, error?: string, success: boolean}>}
+ *          Object containing the user ID, created message document, updated thread counters, and success flag
  * @example
  * const messageData = {
  *   userId: "user123",
@@ -128,26 +312,383 @@ export const sendMessageTo = (target: any[], userId: string): boolean => {
  * const result = await createMessage(messageData);
  */
 export const createMessage = async (data: any) => {
-  const { userId, roomId, content, visibility, target } = data;
+  const {
+    userId,
+    roomId,
+    content,
+    visibility,
+    target,
+    replyTo,
+    threadId,
+    clientMessageId,
+  } = data;
   try {
-    const messageRef = await db
-      .collection("rooms")
-      .doc(roomId)
-      .collection("messages")
-      .add({
+    const messages = getStore().messages;
+    const messageId = clientMessageId
+      ? idempotentMessageId(userId, clientMessageId)
+      : messages.newId(roomId);
+    const createAt = new Date();
+
+    const outcome = await messages.transaction(async (tx) => {
+      let replyCount = 0;
+
+      if (clientMessageId) {
+        const existing = await tx.get(roomId, messageId);
+        if (existing) return { error: null, duplicate: true };
+      }
+
+      if (threadId) {
+        const rootData = await tx.get(roomId, threadId);
+
+        if (!rootData || rootData.deletedAt) {
+          return { error: "hilo no encontrado" };
+        }
+        if (rootData.threadId) {
+          return { error: "threadId debe ser un mensaje raíz" };
+        }
+        if (!canSeeMessage(rootData, userId)) {
+          return { error: "hilo no encontrado" };
+        }
+
+        replyCount = (rootData.replyCount || 0) + 1;
+      }
+
+      if (replyTo) {
+        const parentData = await tx.get(roomId, replyTo);
+
+        if (!parentData || parentData.deletedAt) {
+          return { error: "mensaje padre no encontrado" };
+        }
+        if (!canSeeMessage(parentData, userId)) {
+          return { error: "mensaje padre no encontrado" };
+        }
+        if (
+          threadId &&
+          parentData.id !== threadId &&
+          parentData.threadId !== threadId
+        ) {
+          return { error: "el mensaje padre no pertenece al hilo" };
+        }
+      }
+
+      tx.create(roomId, messageId, {
         userId,
         roomId,
         content,
         visibility: visibility || "public",
         target: target || null,
-        createAt: new Date(),
+        replyTo: replyTo || null,
+        threadId: threadId || null,
+        clientMessageId: clientMessageId || null,
+        createAt,
       });
 
-    const message = await messageRef.get();
+      if (threadId) {
+        tx.update(roomId, threadId, {
+          replyCount: replyCount,
+          lastReplyAt: createAt,
+        });
+      }
+
+      return { error: null, duplicate: false, replyCount };
+    });
+
+    if (outcome.error) {
+      return { userId: userId, error: outcome.error, success: false };
+    }
+
+    const message = await messages.get(roomId, messageId);
 
-    return { user: userId, message: message, success: true };
+    if (outcome.duplicate) {
+      return {
+        user: userId,
+        message: message,
+        thread: null,
+        duplicate: true,
+        success: true,
+      };
+    }
+
+    const thread = threadId
+      ? {
+          threadId,
+          replyCount: outcome.replyCount ?? 0,
+          lastReplyAt: createAt.toISOString(),
+        }
+      : null;
+
+    return {
+      user: userId,
+      message: message,
+      thread: thread,
+      duplicate: false,
+      success: true,
+    };
   } catch (error) {
     console.error("Error al crear mensaje:", error);
     return { userId: userId, success: false };
   }
 };
+
+/**
+ * Retrieves a single message document from a room.
+ *
+ * @param {string} roomId - The ID of the room the message belongs to
+ * @param {string} messageId - The ID of the message to fetch
+ * @returns {Promise<{message: any | null, success: boolean}>}
+ *          Object containing the message data (with its `id`) and success flag
+ * @example
+ * const result = await getMessageById("room123", "msg456");
+ * if (result.success) {
+ *   console.log(result.message.userId);
+ * }
+ */
+export const getMessageById = async (roomId: string, messageId: string) => {
+  try {
+    const message = await getStore().messages.get(roomId, messageId);
+
+    if (!message) return { message: null, success: false };
+
+    return { message: message, success: true };
+  } catch (error) {
+    console.error("Error al obtener mensaje:", error);
+    return { message: null, success: false };
+  }
+};
+
+/**
+ * Replaces the content of a message, keeping the previous version in the
+ * `edits` history of the document. Deleted messages cannot be edited.
+ * Permission checks (author or room admin) are the caller's responsibility.
+ *
+ * @param {string} roomId - The ID of the room the message belongs to
+ * @param {string} messageId - The ID of the message to edit
+ * @param {string} editedBy - The ID of the user performing the edit
+ * @param {string} content - The new content of the message
+ * @returns {Promise<{edit: {content: string, editedAt: string, editedBy: string} | null, message: string, success: boolean}>}
+ *          Object containing the applied edit, status message, and success flag
+ * @example
+ * const result = await editMessage("room123", "msg456", "user789", "fixed link");
+ */
+export const editMessage = async (
+  roomId: string,
+  messageId: string,
+  editedBy: string,
+  content: string
+) => {
+  try {
+    return await getStore().messages.transaction(async (tx) => {
+      const data = await tx.get(roomId, messageId);
+
+      if (!data) {
+        return { edit: null, message: "mensaje no encontrado", success: false };
+      }
+
+      if (data.deletedAt) {
+        return { edit: null, message: "el mensaje fue eliminado", success: false };
+      }
+
+      const editedAt = new Date().toISOString();
+
+      tx.update(roomId, messageId, {
+        content,
+        editedAt,
+        editedBy,
+        edits: [
+          ...(data.edits || []),
+          { content: data.content, editedAt, editedBy },
+        ],
+      });
+
+      return {
+        edit: { content, editedAt, editedBy },
+        message: "mensaje editado",
+        success: true,
+      };
+    });
+  } catch (error) {
+    console.error("Error al editar mensaje:", error);
+    return { edit: null, message: "error al editar mensaje", success: false };
+  }
+};
+
+/**
+ * Soft-deletes a message, leaving a tombstone in place of the document.
+ * The content and the edit history are cleared so the original text can no
+ * longer be read, while `id`, `userId` and `createAt` are kept so clients can
+ * render a "message deleted" placeholder in the right position.
+ *
+ * @param {string} roomId - The ID of the room the message belongs to
+ * @param {string} messageId - The ID of the message to delete
+ * @param {string} deletedBy - The ID of the user performing the deletion
+ * @returns {Promise<{tombstone: {deletedAt: string, deletedBy: string} | null, message: string, success: boolean}>}
+ *          Object containing the tombstone data, status message, and success flag
+ * @example
+ * const result = await deleteMessage("room123", "msg456", "user789");
+ */
+export const deleteMessage = async (
+  roomId: string,
+  messageId: string,
+  deletedBy: string
+) => {
+  try {
+    return await getStore().messages.transaction(async (tx) => {
+      const data = await tx.get(roomId, messageId);
+
+      if (!data) {
+        return { tombstone: null, message: "mensaje no encontrado", success: false };
+      }
+
+      if (data.deletedAt) {
+        return { tombstone: null, message: "el mensaje ya fue eliminado", success: false };
+      }
+
+      const tombstone = { deletedAt: new Date().toISOString(), deletedBy };
+
+      tx.update(roomId, messageId, {
+        ...tombstone,
+        content: null,
+        edits: undefined,
+      });
+
+      return { tombstone, message: "mensaje eliminado", success: true };
+    });
+  } catch (error) {
+    console.error("Error al eliminar mensaje:", error);
+    return { tombstone: null, message: "error al eliminar mensaje", success: false };
+  }
+};
+
+/**
+ * Maximum number of distinct reactions a single message can hold.
+ */
+const MAX_REACTIONS_PER_MESSAGE = 50;
+
+/**
+ * Adds or removes one user's reaction on a message.
+ *
+ * Reactions are stored on the message document as `reactions` (emoji →
+ * list of user IDs) together with the aggregated `reactionCounts`
+ * (emoji → number). Adding a reaction twice or removing one that does not
+ * exist succeeds without changes (`changed: false`).
+ *
+ * @param {string} roomId - The ID of the room the message belongs to
+ * @param {string} messageId - The ID of the message to react to
+ * @param {string} userId - The ID of the reacting user
+ * @param {string} emoji - The reaction emoji
+ * @param {boolean} add - True to add the reaction, false to remove it
+ * @returns {Promise<{reaction: {emoji: string, userId: string, count: number} | null, changed: boolean, message: string, success: boolean}>}
+ */
+const updateReaction = async (
+  roomId: string,
+  messageId: string,
+  userId: string,
+  emoji: string,
+  add: boolean
+) => {
+  try {
+    return await getStore().messages.transaction(async (tx) => {
+      const data = await tx.get(roomId, messageId);
+
+      if (!data || data.deletedAt) {
+        return {
+          reaction: null,
+          changed: false,
+          message: "mensaje no encontrado",
+          success: false,
+        };
+      }
+
+      const reactions: Record<string, string[]> = { ...(data.reactions || {}) };
+      const users = reactions[emoji] || [];
+      const hasReacted = users.includes(userId);
+
+      if (add === hasReacted) {
+        return {
+          reaction: { emoji, userId, count: users.length },
+          changed: false,
+          message: "sin cambios",
+          success: true,
+        };
+      }
+
+      if (add && !reactions[emoji]) {
+        if (Object.keys(reactions).length >= MAX_REACTIONS_PER_MESSAGE) {
+          return {
+            reaction: null,
+            changed: false,
+            message: "demasiadas reacciones en el mensaje",
+            success: false,
+          };
+        }
+      }
+
+      const nextUsers = add
+        ? [...users, userId]
+        : users.filter((id) => id !== userId);
+
+      if (nextUsers.length > 0) reactions[emoji] = nextUsers;
+      else delete reactions[emoji];
+
+      const reactionCounts: Record<string, number> = {};
+      for (const [key, ids] of Object.entries(reactions)) {
+        reactionCounts[key] = ids.length;
+      }
+
+      tx.update(roomId, messageId, { reactions, reactionCounts });
+
+      return {
+        reaction: { emoji, userId, count: nextUsers.length },
+        changed: true,
+        message: add ? "reacción agregada" : "reacción eliminada",
+        success: true,
+      };
+    });
+  } catch (error) {
+    console.error("Error al actualizar reacción:", error);
+    return {
+      reaction: null,
+      changed: false,
+      message: "error al actualizar reacción",
+      success: false,
+    };
+  }
+};
+
+/**
+ * Records a user's emoji reaction on a message.
+ *
+ * @param {string} roomId - The ID of the room the message belongs to
+ * @param {string} messageId - The ID of the message to react to
+ * @param {string} userId - The ID of the reacting user
+ * @param {string} emoji - The reaction emoji
+ * @returns {Promise<{reaction: {emoji: string, userId: string, count: number} | null, changed: boolean, message: string, success: boolean}>}
+ *          Object containing the new count for the emoji and success flag
+ * @example
+ * const result = await addReaction("room123", "msg456", "user789", "👍");
+ */
+export const addReaction = (
+  roomId: string,
+  messageId: string,
+  userId: string,
+  emoji: string
+) => updateReaction(roomId, messageId, userId, emoji, true);
+
+/**
+ * Removes a user's emoji reaction from a message.
+ *
+ * @param {string} roomId - The ID of the room the message belongs to
+ * @param {string} messageId - The ID of the message
+ * @param {string} userId - The ID of the user removing the reaction
+ * @param {string} emoji - The reaction emoji
+ * @returns {Promise<{reaction: {emoji: string, userId: string, count: number} | null, changed: boolean, message: string, success: boolean}>}
+ *          Object containing the new count for the emoji and success flag
+ * @example
+ * const result = await removeReaction("room123", "msg456", "user789", "👍");
+ */
+export const removeReaction = (
+  roomId: string,
+  messageId: string,
+  userId: string,
+  emoji: string
+) => updateReaction(roomId, messageId, userId, emoji, false);
@@ -0,0 +1,418 @@
+/**
+ * Room Moderation
+ * Host actions against disruptive participants: removing them, banning
+ * them from rejoining, locking the room and asking people to turn off their
+ * microphone or camera. Every action is recorded in the audit log of the
+ * room, `rooms/{roomId}/audit`.
+ */
+
+import { getStore } from "../repositories";
+import { toRoomDetails } from "./roomService";
+import { closeRoomConnections } from "./userConnection";
+import {
+  getRoomRole,
+  hasPermission,
+  outranks,
+  resolveRole,
+  type RoomPermission,
+} from "./roleService";
+import type {
+  AuditEntry,
+  ModerationAction,
+  RoomBan,
+  RoomDetails,
+  StoredRoom,
+} from "../types";
+
+/**
+ * Most audit entries returned by `listAuditLog`.
+ */
+export const MAX_AUDIT_ENTRIES = 100;
+
+const fail = (message: string, code: string) => ({
+  success: false as const,
+  message,
+  code,
+});
+
+/**
+ * Checks whether a user is banned from a room.
+ *
+ * @param {StoredRoom} room - The room document
+ * @param {string} userId - The backend user ID
+ * @returns {boolean} True if the user may not join the room
+ * @example
+ * if (isBanned(room, userId)) return joinError("BANNED");
+ */
+export const isBanned = (room: StoredRoom, userId: string) =>
+  Boolean(room.bans?.[String(userId)]);
+
+/**
+ * Stores the audit record of a moderation action.
+ *
+ * @param {string} roomId - The room
+ * @param {Object} entry - The action, who took it and on whom
+ * @returns {Promise<AuditEntry>} The stored record
+ */
+const recordAudit = (
+  roomId: string,
+  entry: {
+    action: ModerationAction;
+    actorId: string;
+    targetUserId?: string;
+    reason?: string;
+    details?: Record<string, unknown>;
+  }
+): Promise<AuditEntry> =>
+  getStore().audit.create(roomId, {
+    roomId,
+    action: entry.action,
+    actorId: String(entry.actorId),
+    targetUserId: entry.targetUserId !== undefined ? String(entry.targetUserId) : null,
+    reason: entry.reason?.trim() || null,
+    details: entry.details ?? null,
+    createdAt: new Date().toISOString(),
+  });
+
+/**
+ * Loads the room and checks that the actor may take a moderation action,
+ * on `targetUserId` when given. Users can only act on users of a lower
+ * role, and never on themselves.
+ *
+ * @returns The room and the actor's role, or a failure `code`
+ */
+const authorize = async (
+  actorId: string,
+  roomId: string,
+  permission: RoomPermission,
+  targetUserId?: string
+) => {
+  const room = await getStore().rooms.get(roomId);
+  if (!room || room.deletedAt) {
+    return fail("Sala no encontrada", "ROOM_NOT_FOUND");
+  }
+
+  const actorRole = (await getRoomRole(roomId, actorId)) ?? "guest";
+  if (!hasPermission(actorRole, permission)) {
+    return fail("No tienes permisos para moderar la sala", "FORBIDDEN");
+  }
+
+  if (targetUserId !== undefined) {
+    if (String(targetUserId) === String(actorId)) {
+      return fail("No puedes aplicarte esta acción a ti mismo", "INVALID_TARGET");
+    }
+
+    const targetRole = (await getRoomRole(roomId, targetUserId)) ?? "guest";
+    if (!outranks(actorRole, targetRole)) {
+      return fail("No puedes moderar a un usuario de tu rol o superior", "FORBIDDEN");
+    }
+  }
+
+  return { success: true as const, room, actorRole };
+};
+
+/**
+ * Records the removal of a participant. The caller ends their connection;
+ * they may join again unless banned. Requires `remove_users`.
+ *
+ * @param {string} actorId - Backend ID of the host
+ * @param {string} roomId - The room
+ * @param {string} targetUserId - The user to remove
+ * @param {string} [reason] - Shown to the user and kept in the audit log
+ * @returns Result with the audit entry, or a failure `code`
+ * @example
+ * const result = await kickUser("admin1", "room123", "user456", "Spam");
+ * if (result.success) await evictUser("room123", "user456");
+ */
+export const kickUser = async (
+  actorId: string,
+  roomId: string,
+  targetUserId: string,
+  reason?: string
+) => {
+  try {
+    const allowed = await authorize(actorId, roomId, "remove_users", targetUserId);
+    if (!allowed.success) return allowed;
+
+    const entry = await recordAudit(roomId, {
+      action: "kick",
+      actorId,
+      targetUserId,
+      reason,
+    });
+    return { success: true as const, message: "usuario expulsado", entry };
+  } catch (error) {
+    console.error("Error expulsando usuario:", error);
+    return fail("error al expulsar al usuario", "STORAGE_ERROR");
+  }
+};
+
+/**
+ * Bans a user from a room: `join_room` refuses them with `BANNED` until
+ * the ban is lifted. Banning someone already banned updates the reason.
+ * Requires `remove_users`.
+ *
+ * @param {string} actorId - Backend ID of the host
+ * @param {string} roomId - The room
+ * @param {string} targetUserId - The user to ban
+ * @param {string} [reason] - Shown to the user and kept in the audit log
+ * @returns Result with the ban and its audit entry, or a failure `code`
+ * @example
+ * const result = await banUser("admin1", "room123", "user456", "Insultos");
+ */
+export const banUser = async (
+  actorId: string,
+  roomId: string,
+  targetUserId: string,
+  reason?: string
+) => {
+  try {
+    const allowed = await authorize(actorId, roomId, "remove_users", targetUserId);
+    if (!allowed.success) return allowed;
+
+    const now = new Date().toISOString();
+    const ban: RoomBan = {
+      bannedBy: String(actorId),
+      bannedAt: now,
+      reason: reason?.trim() || null,
+    };
+    await getStore().rooms.update(roomId, {
+      bans: { ...allowed.room.bans, [String(targetUserId)]: ban },
+      updatedAt: now,
+    });
+
+    const entry = await recordAudit(roomId, {
+      action: "ban",
+      actorId,
+      targetUserId,
+      reason,
+    });
+    return { success: true as const, message: "usuario bloqueado", ban, entry };
+  } catch (error) {
+    console.error("Error bloqueando usuario:", error);
+    return fail("error al bloquear al usuario", "STORAGE_ERROR");
+  }
+};
+
+/**
+ * Lifts the ban of a user. Requires `remove_users`.
+ *
+ * @param {string} actorId - Backend ID of the host
+ * @param {string} roomId - The room
+ * @param {string} targetUserId - The banned user
+ * @returns Result with the audit entry, or a failure `code` (`BAN_NOT_FOUND` when not banned)
+ * @example
+ * const result = await unbanUser("admin1", "room123", "user456");
+ */
+export const unbanUser = async (
+  actorId: string,
+  roomId: string,
+  targetUserId: string
+) => {
+  try {
+    const allowed = await authorize(actorId, roomId, "remove_users", targetUserId);
+    if (!allowed.success) return allowed;
+
+    const targetId = String(targetUserId);
+    if (!isBanned(allowed.room, targetId)) {
+      return fail("El usuario no está bloqueado", "BAN_NOT_FOUND");
+    }
+
+    const bans = { ...allowed.room.bans };
+    delete bans[targetId];
+    await getStore().rooms.update(roomId, {
+      bans,
+      updatedAt: new Date().toISOString(),
+    });
+
+    const entry = await recordAudit(roomId, {
+      action: "unban",
+      actorId,
+      targetUserId,
+    });
+    return { success: true as const, message: "usuario desbloqueado", entry };
+  } catch (error) {
+    console.error("Error desbloqueando usuario:", error);
+    return fail("error al desbloquear al usuario", "STORAGE_ERROR");
+  }
+};
+
+/**
+ * Locks or unlocks a room. Locked rooms refuse new joins with
+ * `ROOM_LOCKED`, except from users who can lock it; participants already
+ * in the room stay. Requires `lock_room`.
+ *
+ * @param {string} actorId - Backend ID of the host
+ * @param {string} roomId - The room
+ * @param {boolean} [locked=true] - False to unlock
+ * @returns Result with the room, the change to announce and the audit entry, or a failure `code`
+ * @example
+ * const result = await setRoomLocked("admin1", "room123");
+ * if (result.success) await publishRoomChange(result.change, result.room, "admin1");
+ */
+export const setRoomLocked = async (
+  actorId: string,
+  roomId: string,
+  locked = true
+) => {
+  try {
+    const allowed = await authorize(actorId, roomId, "lock_room");
+    if (!allowed.success) return allowed;
+
+    const now = new Date().toISOString();
+    const patch: Partial<StoredRoom> = {
+      lockedAt: locked ? allowed.room.lockedAt || now : null,
+      lockedBy: locked ? allowed.room.lockedBy || String(actorId) : null,
+      updatedAt: now,
+    };
+    await getStore().rooms.update(roomId, patch);
+
+    const entry = await recordAudit(roomId, {
+      action: locked ? "lock" : "unlock",
+      actorId,
+    });
+    const room: RoomDetails = toRoomDetails({ ...allowed.room, ...patch });
+
+    return {
+      success: true as const,
+      message: locked ? "sala cerrada" : "sala abierta",
+      room,
+      change: locked ? ("locked" as const) : ("unlocked" as const),
+      entry,
+    };
+  } catch (error) {
+    console.error("Error cerrando sala:", error);
+    return fail("error al cerrar la sala", "STORAGE_ERROR");
+  }
+};
+
+/**
+ * Ends the meeting of a room: every active connection record is closed and
+ * the room gets `endedAt`. The caller removes the participants. The room
+ * itself stays open for later meetings. Requires `end_room`.
+ *
+ * @param {string} actorId - Backend ID of the host
+ * @param {string} roomId - The room
+ * @returns Result with the room, the change to announce and the audit entry, or a failure `code`
+ * @example
+ * const result = await endRoom("admin1", "room123");
+ * if (result.success) await publishRoomChange(result.change, result.room, "admin1");
+ */
+export const endRoom = async (actorId: string, roomId: string) => {
+  try {
+    const allowed = await authorize(actorId, roomId, "end_room");
+    if (!allowed.success) return allowed;
+
+    const now = new Date().toISOString();
+    const patch: Partial<StoredRoom> = {
+      endedAt: now,
+      endedBy: String(actorId),
+      updatedAt: now,
+    };
+    await getStore().rooms.update(roomId, patch);
+
+    const { closed } = await closeRoomConnections(roomId);
+    const entry = await recordAudit(roomId, {
+      action: "end_room",
+      actorId,
+      details: { closedConnections: closed },
+    });
+
+    return {
+      success: true as const,
+      message: "reunión finalizada",
+      room: toRoomDetails({ ...allowed.room, ...patch }),
+      change: "ended" as const,
+      entry,
+    };
+  } catch (error) {
+    console.error("Error finalizando reunión:", error);
+    return fail("error al finalizar la reunión", "STORAGE_ERROR");
+  }
+};
+
+/**
+ * Works out who gets a request to turn off their microphone and/or camera
+ * and records it. Without `targetUserId` it goes to every participant the
+ * host outranks. Requires `mute_others`.
+ *
+ * @param {string} actorId - Backend ID of the host
+ * @param {string} roomId - The room
+ * @param {Object} request - What to turn off and for whom
+ * @param {string} [request.targetUserId] - One user; everyone when omitted
+ * @param {boolean} request.mic - Ask to turn off the microphone
+ * @param {boolean} request.camera - Ask to turn off the camera
+ * @param {string[]} participantIds - Backend IDs of the users in the room
+ * @returns Result with the users to ask and the audit entry, or a failure `code`
+ * @example
+ * const result = await requestMute("mod1", "room123", { mic: true, camera: false }, ids);
+ */
+export const requestMute = async (
+  actorId: string,
+  roomId: string,
+  request: { targetUserId?: string; mic: boolean; camera: boolean },
+  participantIds: string[]
+) => {
+  try {
+    const { targetUserId, mic, camera } = request;
+    const allowed = await authorize(actorId, roomId, "mute_others", targetUserId);
+    if (!allowed.success) return allowed;
+
+    const participants = [...new Set(participantIds.map(String))];
+    let userIds: string[];
+
+    if (targetUserId !== undefined) {
+      if (!participants.includes(String(targetUserId))) {
+        return fail("El usuario no está en la sala", "USER_NOT_IN_ROOM");
+      }
+      userIds = [String(targetUserId)];
+    } else {
+      // Everyone in the room has access, so nobody resolves to guest here
+      userIds = participants.filter((id) =>
+        outranks(allowed.actorRole, resolveRole(allowed.room, id, true))
+      );
+    }
+
+    const entry = await recordAudit(roomId, {
+      action: "mute",
+      actorId,
+      targetUserId,
+      details: { mic, camera, userIds },
+    });
+    return { success: true as const, message: "solicitud enviada", userIds, entry };
+  } catch (error) {
+    console.error("Error solicitando silenciar:", error);
+    return fail("error al solicitar silenciar", "STORAGE_ERROR");
+  }
+};
+
+/**
+ * Lists the latest moderation actions of a room, newest first. Requires
+ * `remove_users`.
+ *
+ * @param {string} actorId - Backend ID of the host
+ * @param {string} roomId - The room
+ * @param {number} [limit=MAX_AUDIT_ENTRIES] - How many entries to return
+ * @returns Result with the entries, or a failure `code`
+ * @example
+ * const { entries } = await listAuditLog("admin1", "room123", 20);
+ */
+export const listAuditLog = async (
+  actorId: string,
+  roomId: string,
+  limit = MAX_AUDIT_ENTRIES
+) => {
+  try {
+    const allowed = await authorize(actorId, roomId, "remove_users");
+    if (!allowed.success) return allowed;
+
+    const entries = await getStore().audit.listByRoom(
+      roomId,
+      Math.min(Math.max(1, Math.floor(limit)), MAX_AUDIT_ENTRIES)
+    );
+    return { success: true as const, message: "registro obtenido", entries };
+  } catch (error) {
+    console.error("Error al obtener el registro de moderación:", error);
+    return fail("error al obtener el registro", "STORAGE_ERROR");
+  }
+};
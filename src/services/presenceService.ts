@@ -0,0 +1,135 @@
+/**
+ * Presence
+ * Online status of users, merged from every socket (tab, device) they have
+ * open. Sockets report their own status; the user is `busy` if any socket
+ * is, `online` if any socket is active and `away` when all are idle. Users
+ * without sockets are `offline`, with the last seen time kept in
+ * `presence/{userId}`.
+ */
+
+import { getStore } from "../repositories";
+import type {
+  PresenceStatus,
+  SocketPresence,
+  UserPresence,
+} from "../types";
+
+/**
+ * Statuses in order of precedence when merging sockets.
+ */
+const STATUS_PRECEDENCE: PresenceStatus[] = ["busy", "online", "away"];
+
+/**
+ * How far back a shared room makes presence visible: the last 90 days.
+ */
+export const PRESENCE_CONTACT_WINDOW_DAYS = 90;
+
+/**
+ * Most sessions of each user read when looking for a shared room.
+ */
+export const MAX_PRESENCE_SESSIONS = 200;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Merges the status of a user's sockets.
+ *
+ * @param {string} userId - The user
+ * @param {SocketPresence[]} sockets - Status of each connected socket
+ * @param {string | null} [lastSeenAt] - Stored last seen time, used when there are no sockets
+ * @returns {UserPresence} The presence of the user
+ * @example
+ * mergePresence("u1", [{ status: "away", ... }, { status: "online", ... }]);
+ * // => { userId: "u1", status: "online", devices: 2, ... }
+ */
+export const mergePresence = (
+  userId: string,
+  sockets: SocketPresence[],
+  lastSeenAt: string | null = null
+): UserPresence => {
+  if (sockets.length === 0) {
+    return { userId, status: "offline", lastSeenAt, devices: 0 };
+  }
+
+  const status =
+    STATUS_PRECEDENCE.find((s) => sockets.some((p) => p.status === s)) ?? "online";
+  const latest = sockets
+    .map((p) => p.updatedAt)
+    .reduce((a, b) => (a > b ? a : b));
+
+  return { userId, status, lastSeenAt: latest, devices: sockets.length };
+};
+
+/**
+ * Reads when a user was last seen, once all their sockets disconnected.
+ *
+ * @param {string} userId - The user
+ * @returns {Promise<string | null>} ISO date, or null if unknown or unavailable
+ */
+export const getLastSeen = async (userId: string): Promise<string | null> => {
+  try {
+    const record = await getStore().presence.get(String(userId));
+    return record?.lastSeenAt ?? null;
+  } catch (error) {
+    console.error("Error obteniendo última conexión:", error);
+    return null;
+  }
+};
+
+/**
+ * Stores when a user was last seen. Failures are logged, not thrown: a
+ * missing last seen time is not worth failing a disconnect for.
+ *
+ * @param {string} userId - The user
+ * @param {string} lastSeenAt - ISO date
+ */
+export const recordLastSeen = async (userId: string, lastSeenAt: string) => {
+  try {
+    await getStore().presence.set({ userId: String(userId), lastSeenAt });
+  } catch (error) {
+    console.error("Error guardando última conexión:", error);
+  }
+};
+
+/**
+ * Splits users into those whose presence a viewer may see and the rest.
+ * Users can see themselves and anyone who has been in a room with them in
+ * the last `PRESENCE_CONTACT_WINDOW_DAYS`, among each user's latest
+ * `MAX_PRESENCE_SESSIONS` sessions, so the check stays bounded.
+ *
+ * @param {string} viewerId - Backend ID of the viewer
+ * @param {string[]} userIds - Users the viewer asks about
+ * @returns Result with the `visible` and `hidden` user IDs, or a failure `code`
+ * @example
+ * const { visible, hidden } = await filterVisiblePresence("u1", ["u2", "u3"]);
+ */
+export const filterVisiblePresence = async (viewerId: string, userIds: string[]) => {
+  try {
+    const connections = getStore().connections;
+    const since = new Date(
+      Date.now() - PRESENCE_CONTACT_WINDOW_DAYS * DAY_MS
+    ).toISOString();
+    const roomsOf = (userId: string) =>
+      connections.listRoomsOfUser(userId, since, MAX_PRESENCE_SESSIONS);
+    const viewerRooms = new Set(await roomsOf(String(viewerId)));
+
+    const visible: string[] = [];
+    const hidden: string[] = [];
+    for (const userId of new Set(userIds.map(String))) {
+      const shared =
+        userId === String(viewerId) ||
+        (viewerRooms.size > 0 &&
+          (await roomsOf(userId)).some((r) => viewerRooms.has(r)));
+      (shared ? visible : hidden).push(userId);
+    }
+
+    return { success: true as const, message: "presencia filtrada", visible, hidden };
+  } catch (error) {
+    console.error("Error comprobando presencia visible:", error);
+    return {
+      success: false as const,
+      message: "error al comprobar la presencia",
+      code: "STORAGE_ERROR",
+    };
+  }
+};
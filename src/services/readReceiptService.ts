@@ -0,0 +1,149 @@
+import { getStore } from "../repositories";
+import { canSeeMessage } from "./messageService";
+
+/**
+ * Unread counts are not computed past this value; clients show it as "999+".
+ */
+export const UNREAD_COUNT_CAP = 999;
+
+/**
+ * Converts a stored timestamp (`Date` or ISO string) to a `Date`.
+ *
+ * @param {any} value - The stored timestamp
+ * @returns {Date | null} The date, or null when the value is missing
+ */
+const toDate = (value: any): Date | null => {
+  if (!value) return null;
+  return value instanceof Date ? value : new Date(value);
+};
+
+/**
+ * Retrieves the read cursor of a user in a room.
+ *
+ * @param {string} roomId - The ID of the room
+ * @param {string} userId - The ID of the user
+ * @returns {Promise<{cursor: {userId: string, lastReadMessageId: string, lastReadAt: string, updatedAt: string} | null, success: boolean}>}
+ *          Object containing the cursor (null if the user never read the room) and success flag
+ * @example
+ * const { cursor } = await getReadCursor("room123", "user456");
+ */
+export const getReadCursor = async (roomId: string, userId: string) => {
+  try {
+    const cursor = await getStore().readCursors.get(roomId, userId);
+
+    return { cursor: cursor, success: true };
+  } catch (error) {
+    console.error("Error al obtener cursor de lectura:", error);
+    return { cursor: null, success: false };
+  }
+};
+
+/**
+ * Moves a user's read cursor to a message of the room.
+ *
+ * The cursor only moves forward: marking an older message as read than the
+ * one already stored succeeds without changes (`changed: false`).
+ *
+ * @param {string} roomId - The ID of the room
+ * @param {string} userId - The ID of the reader
+ * @param {string} messageId - The ID of the last message the user has seen
+ * @returns {Promise<{cursor: any | null, message: any | null, changed: boolean, success: boolean, error?: string}>}
+ *          Object containing the stored cursor, the read message data, and success flag
+ * @example
+ * const result = await markRead("room123", "user456", "msg789");
+ * if (result.changed) {
+ *   // broadcast read receipt
+ * }
+ */
+export const markRead = async (
+  roomId: string,
+  userId: string,
+  messageId: string
+) => {
+  try {
+    const message = await getStore().messages.get(roomId, messageId);
+
+    if (!message || !canSeeMessage(message, userId)) {
+      return {
+        cursor: null,
+        message: null,
+        changed: false,
+        error: "mensaje no encontrado",
+        success: false,
+      };
+    }
+
+    const readAt = toDate(message.createAt) || new Date();
+
+    const { cursor, changed } = await getStore().readCursors.advance(roomId, {
+      userId: String(userId),
+      lastReadMessageId: message.id,
+      lastReadAt: readAt.toISOString(),
+      updatedAt: new Date().toISOString(),
+    });
+
+    return { cursor, message, changed, success: true };
+  } catch (error) {
+    console.error("Error al marcar como leído:", error);
+    return {
+      cursor: null,
+      message: null,
+      changed: false,
+      error: "error al marcar como leído",
+      success: false,
+    };
+  }
+};
+
+/**
+ * Counts the messages of a room that a user has not read yet.
+ *
+ * Only main-stream messages newer than the user's read cursor are counted;
+ * the user's own messages, thread replies, deleted messages and private
+ * messages the user is not part of are ignored. The count stops at
+ * `UNREAD_COUNT_CAP`.
+ *
+ * @param {string} roomId - The ID of the room
+ * @param {string} userId - The ID of the user
+ * @returns {Promise<{unreadCount: number, capped: boolean, lastReadMessageId: string | null, success: boolean}>}
+ *          Object containing the unread count, whether it hit the cap, and success flag
+ * @example
+ * const { unreadCount } = await getUnreadCount("room123", "user456");
+ */
+export const getUnreadCount = async (roomId: string, userId: string) => {
+  try {
+    const { cursor } = await getReadCursor(roomId, userId);
+    const lastReadAt = toDate(cursor?.lastReadAt);
+
+    // Read a little past the cap since some messages will be filtered out
+    const messages = await getStore().messages.list(roomId, {
+      order: "asc",
+      createdAfter: lastReadAt || undefined,
+      limit: UNREAD_COUNT_CAP * 2,
+    });
+
+    let unreadCount = 0;
+    for (const data of messages) {
+      if (data.userId === userId || data.threadId || data.deletedAt) continue;
+      if (!canSeeMessage(data, userId)) continue;
+
+      unreadCount++;
+      if (unreadCount === UNREAD_COUNT_CAP) break;
+    }
+
+    return {
+      unreadCount,
+      capped: unreadCount === UNREAD_COUNT_CAP,
+      lastReadMessageId: cursor?.lastReadMessageId ?? null,
+      success: true,
+    };
+  } catch (error) {
+    console.error("Error al contar mensajes no leídos:", error);
+    return {
+      unreadCount: 0,
+      capped: false,
+      lastReadMessageId: null,
+      success: false,
+    };
+  }
+};
@@ -0,0 +1,296 @@
+/**
+ * Stale Connection Reaper
+ * Connection records are closed when the user leaves, but a process that
+ * crashes or is redeployed never gets to close the ones it held, and they
+ * would stay open forever. Each server instance writes a heartbeat to
+ * `instances/{instanceId}` and stamps its ID on the connections it opens;
+ * the reaper closes the open connections whose instance stopped or missed
+ * its heartbeats, at the last time that instance was known to be alive.
+ */
+
+import { randomUUID } from "crypto";
+import os from "os";
+import { getStore } from "../repositories";
+import type { ReapedConnection, RoomConnection, ServerInstance } from "../types";
+
+/**
+ * How often each instance refreshes its heartbeat, in milliseconds.
+ */
+export const HEARTBEAT_INTERVAL_MS =
+  Number(process.env.HEARTBEAT_INTERVAL_MS) || 30_000;
+
+/**
+ * How long without a heartbeat before an instance is considered dead, in
+ * milliseconds. Defaults to three missed heartbeats.
+ */
+export const INSTANCE_TIMEOUT_MS =
+  Number(process.env.INSTANCE_TIMEOUT_MS) || 3 * HEARTBEAT_INTERVAL_MS;
+
+/**
+ * How often each instance runs the reaper, in milliseconds. It also runs
+ * once on startup. `REAPER_INTERVAL_MS=0` turns both off.
+ */
+export const REAPER_INTERVAL_MS =
+  process.env.REAPER_INTERVAL_MS !== undefined
+    ? Number(process.env.REAPER_INTERVAL_MS)
+    : 5 * 60_000;
+
+/**
+ * Open connections read per page while reaping.
+ */
+export const REAPER_BATCH_SIZE = 500;
+
+/**
+ * Days the record of a dead instance is kept before it is deleted.
+ */
+export const INSTANCE_RETENTION_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Builds a unique ID for a server process: `INSTANCE_NAME` (or the host
+ * name) plus a random suffix, so a restarted process never passes for the
+ * one before it.
+ *
+ * @returns {string} The instance ID
+ * @example
+ * createInstanceId(); // "chat-7f9c-3b1e2a4d"
+ */
+export const createInstanceId = () =>
+  `${process.env.INSTANCE_NAME || os.hostname()}-${randomUUID().slice(0, 8)}`;
+
+/**
+ * Whether an instance is still running: it has not shut down and its last
+ * heartbeat is recent.
+ *
+ * @param {ServerInstance | null | undefined} instance - The instance record
+ * @param {number} [now] - Current time, in ms
+ * @returns {boolean} True if the instance is alive
+ */
+export const isInstanceAlive = (
+  instance: ServerInstance | null | undefined,
+  now = Date.now()
+): boolean =>
+  !!instance &&
+  !instance.stoppedAt &&
+  now - Date.parse(instance.heartbeatAt) < INSTANCE_TIMEOUT_MS;
+
+/**
+ * Best-known leave time of a connection whose instance is gone: when the
+ * instance stopped or last sent a heartbeat, or the join time when nothing
+ * better is known (no instance, or an instance that died before the join).
+ *
+ * @param {RoomConnection} connection - The orphaned connection
+ * @param {ServerInstance | null} instance - Its instance record, if any
+ * @returns {string} ISO date to stamp as `leftAt`
+ */
+export const staleLeftAt = (
+  connection: RoomConnection,
+  instance: ServerInstance | null
+): string => {
+  const lastAlive = instance ? instance.stoppedAt ?? instance.heartbeatAt : null;
+  return lastAlive && lastAlive > connection.joinedAt ? lastAlive : connection.joinedAt;
+};
+
+/**
+ * Writes the heartbeat of a running instance. Failures are logged, not
+ * thrown: a missed heartbeat is retried on the next tick.
+ *
+ * @param {string} instanceId - The instance
+ * @param {string} startedAt - When it started, ISO date
+ * @returns {Promise<boolean>} True if the heartbeat was stored
+ * @example
+ * setInterval(() => sendHeartbeat(instanceId, startedAt), HEARTBEAT_INTERVAL_MS);
+ */
+export const sendHeartbeat = async (instanceId: string, startedAt: string) => {
+  try {
+    await getStore().instances.set({
+      id: instanceId,
+      startedAt,
+      heartbeatAt: new Date().toISOString(),
+      stoppedAt: null,
+    });
+    return true;
+  } catch (error) {
+    console.error(`[REAPER] ❌ Heartbeat of ${instanceId} failed:`, error);
+    return false;
+  }
+};
+
+/**
+ * Records a clean shutdown, so the other instances close the connections it
+ * still held right away instead of waiting for the heartbeat to expire.
+ *
+ * @param {string} instanceId - The instance
+ * @param {string} startedAt - When it started, ISO date
+ * @returns {Promise<boolean>} True if the shutdown was stored
+ */
+export const markInstanceStopped = async (instanceId: string, startedAt: string) => {
+  try {
+    const now = new Date().toISOString();
+    await getStore().instances.set({
+      id: instanceId,
+      startedAt,
+      heartbeatAt: now,
+      stoppedAt: now,
+    });
+    return true;
+  } catch (error) {
+    console.error(`[REAPER] ❌ Could not mark ${instanceId} as stopped:`, error);
+    return false;
+  }
+};
+
+/**
+ * Closes a connection found open on join when the instance that opened it
+ * is gone, so the new join starts a new session instead of continuing one
+ * from before a crash. Connections of live instances (another tab on
+ * another replica) and older records without an instance are kept.
+ *
+ * @param {RoomConnection} connection - The open connection of the user
+ * @param {string} [instanceId] - The instance handling the join
+ * @returns {Promise<boolean>} True if the connection was closed
+ * @throws When the storage fails
+ */
+export const closeIfOrphaned = async (
+  connection: RoomConnection,
+  instanceId?: string
+): Promise<boolean> => {
+  if (!connection.instanceId || connection.instanceId === instanceId) return false;
+
+  const owner = await getStore().instances.get(connection.instanceId);
+  if (isInstanceAlive(owner)) return false;
+
+  const leftAt = staleLeftAt(connection, owner);
+  await getStore().connections.update(connection.roomId, connection.id, { leftAt });
+  console.log(
+    `[REAPER] 🧹 Closed connection ${connection.id} of ${connection.userId} left open by ${connection.instanceId}`
+  );
+  return true;
+};
+
+/**
+ * Options of a reaper run.
+ */
+export interface ReapOptions {
+  /** The instance running the reaper; its own connections are skipped. */
+  instanceId?: string;
+  /**
+   * Whether a user still has sockets in a room. Connections of users still
+   * present are handed over to `instanceId` instead of being closed.
+   */
+  isPresent?: (roomId: string, userId: string) => Promise<boolean>;
+  /** Only report what would be closed. */
+  dryRun?: boolean;
+}
+
+/**
+ * Closes every open connection whose instance stopped, missed its
+ * heartbeats or is unknown (records from before instances were tracked),
+ * stamping the best-known leave time (see `staleLeftAt`). Records of dead
+ * instances older than `INSTANCE_RETENTION_DAYS` are deleted afterwards.
+ *
+ * @param {ReapOptions} [options] - Running instance, presence check and dry run
+ * @returns Result with the closed connections, or a failure `code`
+ * @example
+ * const result = await reapStaleConnections({ instanceId });
+ * if (result.success) console.log(`${result.reaped.length} closed`);
+ */
+export const reapStaleConnections = async (
+  options: ReapOptions = {}
+): Promise<
+  | {
+      success: true;
+      message: string;
+      scanned: number;
+      reaped: ReapedConnection[];
+      adopted: number;
+      prunedInstances: number;
+    }
+  | { success: false; message: string; code: string }
+> => {
+  const { instanceId, isPresent, dryRun = false } = options;
+  const now = Date.now();
+  const reaped: ReapedConnection[] = [];
+  let scanned = 0;
+  let adopted = 0;
+
+  try {
+    const store = getStore();
+    const instances = new Map(
+      (await store.instances.list()).map((instance) => [instance.id, instance])
+    );
+
+    let page: RoomConnection[];
+    let cursor: string | undefined;
+    do {
+      page = await store.connections.listOpen(REAPER_BATCH_SIZE, cursor);
+      cursor = page[page.length - 1]?.joinedAt;
+
+      for (const connection of page) {
+        scanned++;
+        if (instanceId && connection.instanceId === instanceId) continue;
+
+        const owner = connection.instanceId
+          ? instances.get(connection.instanceId) ?? null
+          : null;
+        if (isInstanceAlive(owner, now)) continue;
+
+        if (isPresent && (await isPresent(connection.roomId, connection.userId))) {
+          adopted++;
+          if (!dryRun && instanceId) {
+            await store.connections.update(connection.roomId, connection.id, {
+              instanceId,
+            });
+          }
+          continue;
+        }
+
+        const leftAt = staleLeftAt(connection, owner);
+        if (!dryRun) {
+          await store.connections.update(connection.roomId, connection.id, { leftAt });
+        }
+        reaped.push({
+          roomId: connection.roomId,
+          connectionId: connection.id,
+          userId: connection.userId,
+          instanceId: connection.instanceId ?? null,
+          leftAt,
+        });
+      }
+    } while (page.length === REAPER_BATCH_SIZE);
+
+    const expired = [...instances.values()].filter(
+      (instance) =>
+        instance.id !== instanceId &&
+        !isInstanceAlive(instance, now) &&
+        now - Date.parse(instance.stoppedAt ?? instance.heartbeatAt) >
+          INSTANCE_RETENTION_DAYS * DAY_MS
+    );
+    if (!dryRun) {
+      await Promise.all(expired.map((instance) => store.instances.delete(instance.id)));
+    }
+
+    if (reaped.length > 0 || adopted > 0) {
+      console.log(
+        `[REAPER] 🧹 ${dryRun ? "Would close" : "Closed"} ${reaped.length} stale connections, kept ${adopted} of users still connected`
+      );
+    }
+
+    return {
+      success: true,
+      message: "conexiones huérfanas cerradas",
+      scanned,
+      reaped,
+      adopted,
+      prunedInstances: expired.length,
+    };
+  } catch (error) {
+    console.error("[REAPER] ❌ Error cerrando conexiones huérfanas:", error);
+    return {
+      success: false,
+      message: "error al cerrar conexiones huérfanas",
+      code: "STORAGE_ERROR",
+    };
+  }
+};
@@ -0,0 +1,337 @@
+/**
+ * Room Roles & Permissions
+ * Single source of truth for what each user may do in a room. Every
+ * permission check in the service goes through `getRoomRole` and
+ * `ROLE_PERMISSIONS`.
+ */
+
+import { getStore } from "../repositories";
+import type { StoredRoom, RoomRole, StoredRoomRole } from "../types";
+
+// ===== Permission Matrix =====
+
+/**
+ * Actions guarded by a role.
+ */
+export type RoomPermission =
+  | "send_message"
+  | "moderate_messages" // edit or delete messages of others
+  | "grant_access"
+  | "end_room"
+  | "mute_others"
+  | "remove_users" // kick and ban participants, read the audit log
+  | "lock_room"
+  | "view_attendance" // attendance reports
+  | "manage_roles"
+  | "manage_room"; // update, archive and delete the room
+
+/**
+ * Permissions of each role. Guests can only ask for access.
+ */
+export const ROLE_PERMISSIONS: Record<RoomRole, readonly RoomPermission[]> = {
+  owner: [
+    "send_message",
+    "moderate_messages",
+    "grant_access",
+    "end_room",
+    "mute_others",
+    "remove_users",
+    "lock_room",
+    "view_attendance",
+    "manage_roles",
+    "manage_room",
+  ],
+  admin: [
+    "send_message",
+    "moderate_messages",
+    "grant_access",
+    "end_room",
+    "mute_others",
+    "remove_users",
+    "lock_room",
+    "view_attendance",
+    "manage_roles",
+    "manage_room",
+  ],
+  moderator: ["send_message", "moderate_messages", "mute_others"],
+  member: ["send_message"],
+  guest: [],
+};
+
+/**
+ * Checks whether a role includes a permission.
+ *
+ * @param {RoomRole} role - The user's role in the room
+ * @param {RoomPermission} permission - The action to check
+ * @returns {boolean} True if the role allows the action
+ * @example
+ * if (!hasPermission(role, "grant_access")) return fail("FORBIDDEN");
+ */
+export const hasPermission = (role: RoomRole, permission: RoomPermission) =>
+  ROLE_PERMISSIONS[role].includes(permission);
+
+const ROLE_RANK: Record<RoomRole, number> = {
+  owner: 4,
+  admin: 3,
+  moderator: 2,
+  member: 1,
+  guest: 0,
+};
+
+/**
+ * Checks whether a role is above another. Revoking access and moderation
+ * actions only reach users of a lower role, so admins cannot revoke or kick
+ * each other or the owner.
+ *
+ * @param {RoomRole} role - Role of the user acting
+ * @param {RoomRole} other - Role of the user acted upon
+ * @returns {boolean} True if `role` is more privileged than `other`
+ * @example
+ * if (!outranks(actorRole, targetRole)) return fail("FORBIDDEN");
+ */
+export const outranks = (role: RoomRole, other: RoomRole) =>
+  ROLE_RANK[role] > ROLE_RANK[other];
+
+// ===== Role Resolution =====
+
+/**
+ * Resolves the role of a user from a room document.
+ *
+ * Order: the creator is the owner; then the role stored in `roles`; then
+ * the legacy `adminsId`/`adminId` lists (admins); then members, which in a
+ * private room need an access grant. IDs are compared as strings, since
+ * the main backend has stored them both as numbers and as strings.
+ *
+ * @param {StoredRoom} room - The room document
+ * @param {string} userId - The backend user ID
+ * @param {boolean} hasGrant - Whether the user has an access record
+ * @returns {RoomRole} The user's role
+ * @example
+ * const role = resolveRole(room, userId, false);
+ */
+export const resolveRole = (
+  room: StoredRoom,
+  userId: string,
+  hasGrant: boolean
+): RoomRole => {
+  const id = String(userId);
+
+  if (room.creatorId !== undefined && String(room.creatorId) === id) {
+    return "owner";
+  }
+
+  const stored = room.roles?.[id];
+  if (stored) return stored;
+
+  const legacyAdmins = [...(room.adminsId || []), ...(room.adminId || [])];
+  if (legacyAdmins.map(String).includes(id)) return "admin";
+
+  const isPrivate = room.isPrivate || room.private || false;
+  return !isPrivate || hasGrant ? "member" : "guest";
+};
+
+/**
+ * Returns the admin IDs of a room: users with the `admin` role plus the
+ * legacy `adminsId`/`adminId` entries that have no other stored role.
+ *
+ * @param {StoredRoom} room - The room document
+ * @returns {string[]} Admin user IDs, without duplicates
+ * @example
+ * const admins = getRoomAdminIds(room);
+ */
+export const getRoomAdminIds = (room: StoredRoom): string[] => {
+  const roles = room.roles || {};
+  const legacy = [...(room.adminsId || []), ...(room.adminId || [])]
+    .map(String)
+    .filter((id) => !roles[id] || roles[id] === "admin");
+  const promoted = Object.keys(roles).filter((id) => roles[id] === "admin");
+
+  return [...new Set([...legacy, ...promoted])];
+};
+
+/**
+ * Returns the users with a role above member: the owner, admins and
+ * moderators. Members and guests are not listed, since any user can be one.
+ *
+ * @param {StoredRoom} room - The room document
+ * @returns {{ userId: string, role: RoomRole }[]} Privileged users and their role
+ */
+export const listPrivilegedUsers = (
+  room: StoredRoom
+): { userId: string; role: RoomRole }[] => {
+  const users = new Map<string, RoomRole>();
+
+  for (const id of getRoomAdminIds(room)) users.set(id, "admin");
+  for (const [id, role] of Object.entries(room.roles || {})) {
+    if (role === "moderator") users.set(id, role);
+  }
+  if (room.creatorId !== undefined) users.set(String(room.creatorId), "owner");
+
+  return [...users].map(([userId, role]) => ({ userId, role }));
+};
+
+/**
+ * Looks up the role of a user in a room.
+ *
+ * @param {string} roomId - The room
+ * @param {string} userId - The backend user ID
+ * @returns {Promise<RoomRole | null>} The role, or null when the room does not exist or was deleted
+ * @example
+ * const role = await getRoomRole("room123", "user456");
+ * if (role === "guest") askForAccess();
+ */
+export const getRoomRole = async (
+  roomId: string,
+  userId: string
+): Promise<RoomRole | null> => {
+  const room = await getStore().rooms.get(roomId);
+  if (!room || room.deletedAt) return null;
+
+  const role = resolveRole(room, userId, false);
+  if (role !== "guest") return role;
+
+  // Only private rooms need the grant lookup
+  const grant = await getStore().access.findByUser(roomId, String(userId));
+  return grant ? "member" : "guest";
+};
+
+/**
+ * Checks whether a user may perform an action in a room.
+ *
+ * @param {string} roomId - The room
+ * @param {string} userId - The backend user ID
+ * @param {RoomPermission} permission - The action to check
+ * @returns {Promise<boolean>} True if allowed; false also when the room is missing or on errors
+ * @example
+ * if (!(await can(roomId, userId, "grant_access"))) return fail("FORBIDDEN");
+ */
+export const can = async (
+  roomId: string,
+  userId: string,
+  permission: RoomPermission
+): Promise<boolean> => {
+  try {
+    const role = await getRoomRole(roomId, userId);
+    return role !== null && hasPermission(role, permission);
+  } catch (error) {
+    console.error("Error verificando permisos:", error);
+    return false;
+  }
+};
+
+/**
+ * Returns the users of a room allowed to perform an action, among the
+ * owner, admins and moderators. Used to notify them, so storage errors are
+ * logged and give an empty list.
+ *
+ * @param {string} roomId - The room
+ * @param {RoomPermission} permission - The action
+ * @returns {Promise<string[]>} User IDs
+ * @example
+ * const hosts = await getUsersAllowedTo(roomId, "grant_access");
+ */
+export const getUsersAllowedTo = async (
+  roomId: string,
+  permission: RoomPermission
+): Promise<string[]> => {
+  try {
+    const room = await getStore().rooms.get(roomId);
+    if (!room || room.deletedAt) return [];
+
+    return listPrivilegedUsers(room)
+      .filter(({ role }) => hasPermission(role, permission))
+      .map(({ userId }) => userId);
+  } catch (error) {
+    console.error("Error listando usuarios con permiso:", error);
+    return [];
+  }
+};
+
+// ===== Role Changes =====
+
+/**
+ * Changes the role of a user in a room.
+ *
+ * Requires `manage_roles`. The owner's role cannot change, and only the
+ * owner may make or unmake admins; admins manage moderators and members.
+ * The legacy `adminsId`/`adminId` lists are kept in sync for the main
+ * backend. Making someone a member removes their stored role instead of
+ * storing "member", so in a private room they stay a member only with an
+ * access grant.
+ *
+ * @param {string} actorId - Backend ID of the user making the change
+ * @param {string} roomId - The room
+ * @param {string} targetUserId - The user whose role changes
+ * @param {StoredRoomRole} role - The new role
+ * @returns Result with the previous and new role, or a failure `code`
+ * @example
+ * const result = await setRoomRole("owner1", "room123", "user456", "moderator");
+ */
+export const setRoomRole = async (
+  actorId: string,
+  roomId: string,
+  targetUserId: string,
+  role: StoredRoomRole
+) => {
+  const fail = (message: string, code: string) => ({
+    success: false as const,
+    message,
+    code,
+  });
+
+  try {
+    const room = await getStore().rooms.get(roomId);
+    if (!room || room.deletedAt) {
+      return fail("Sala no encontrada", "ROOM_NOT_FOUND");
+    }
+
+    const targetId = String(targetUserId);
+    const actorRole = resolveRole(room, actorId, false);
+    const previousRole = await getRoomRole(roomId, targetId);
+
+    if (!hasPermission(actorRole, "manage_roles")) {
+      return fail("No tienes permisos para cambiar roles", "FORBIDDEN");
+    }
+
+    if (previousRole === "owner") {
+      return fail("No se puede cambiar el rol del creador", "FORBIDDEN");
+    }
+
+    if ((role === "admin" || previousRole === "admin") && actorRole !== "owner") {
+      return fail("Solo el creador puede nombrar o quitar admins", "FORBIDDEN");
+    }
+
+    const withoutTarget = (ids: (string | number)[] = []) =>
+      ids.filter((id) => String(id) !== targetId);
+
+    const adminsId = withoutTarget(room.adminsId);
+    if (role === "admin") adminsId.push(targetId);
+
+    const roles = { ...room.roles };
+    if (role === "member") delete roles[targetId];
+    else roles[targetId] = role;
+
+    const patch: Partial<StoredRoom> = {
+      roles,
+      adminsId,
+      updatedAt: new Date().toISOString(),
+    };
+    if (room.adminId) patch.adminId = withoutTarget(room.adminId).map(String);
+
+    await getStore().rooms.update(roomId, patch);
+    const newRole =
+      role === "member" ? await getRoomRole(roomId, targetId) : role;
+
+    return {
+      success: true as const,
+      message: "rol actualizado",
+      userId: targetId,
+      role: newRole ?? "guest",
+      previousRole: previousRole ?? "guest",
+      room: { ...room, ...patch },
+    };
+  } catch (error) {
+    console.error("Error cambiando rol:", error);
+    return fail("error al cambiar el rol", "STORAGE_ERROR");
+  }
+};
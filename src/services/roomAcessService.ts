@@ -1,9 +1,5 @@
-import { db } from "../config/firebase";
-
-/**
- * Firebase Firestore collection reference for rooms.
- */
-const ROOMS = db.collection("rooms");
+import { getStore } from "../repositories";
+import { hasPermission, resolveRole } from "./roleService";
 
 /**
  * Retrieves the access record for a specific user in a room.
@@ -21,14 +17,12 @@ const ROOMS = db.collection("rooms");
  */
 export const getRoomAccessForUser = async (userId: any, roomId: any) => {
   try {
-    const accessSnap = await ROOMS.doc(String(roomId))
-      .collection("access")
-      .where("userId", "==", Number(userId))
-      .get();
+    const access = await getStore().access.findByUser(
+      String(roomId),
+      String(userId)
+    );
 
-    if (accessSnap.empty) return { userId: userId, success: false };
-
-    const access = accessSnap.docs.map((d) => ({ id: d.id, ...d.data() }))[0];
+    if (!access) return { userId: userId, success: false };
 
     return { userId: userId, access: access, success: true };
   } catch (error) {
@@ -51,9 +45,7 @@ export const getRoomAccessForUser = async (userId: any, roomId: any) => {
  */
 export const getRoomAccessByRoomId = async (roomId: any) => {
   try {
-    const accessSnap = await ROOMS.doc(roomId).collection("access").get();
-
-    const access = accessSnap.docs.map((d) => ({ id: d.id, ...d.data() }));
+    const access = await getStore().access.listByRoom(roomId);
 
     return {
       roomId: roomId,
@@ -71,12 +63,14 @@ export const getRoomAccessByRoomId = async (roomId: any) => {
 
 /**
  * Creates a new access record for a user to join a private room.
- * Validates that the granter is an admin or the room creator before granting access.
+ * Validates that the granter's role allows `grant_access` (owner or admin).
+ * A user who already has access keeps their existing grant, so granting
+ * twice never leaves a second record behind.
  *
  * @param {any} userId - The ID of the user to grant access to
  * @param {any} roomId - The ID of the room to grant access for
  * @param {any} grantedBy - The ID of the admin or creator granting the access
- * @returns {Promise<{id?: string, grantedBy?: number, grantedAt?: string, roomId: any, message: string, success: boolean}>}
+ * @returns {Promise<{id?: string, grantedBy?: string, grantedAt?: string, roomId: any, message: string, success: boolean}>}
  *          Object containing the created access record details, status message, and success flag
  * @example
  * const result = await createRoomAccess(123, "room456", 789);
@@ -90,18 +84,13 @@ export const createRoomAccess = async (
   grantedBy: any
 ) => {
   try {
-    const roomRef = ROOMS.doc(roomId);
-    const roomDoc = await roomRef.get();
+    const roomData = await getStore().rooms.get(roomId);
 
-    if (!roomDoc.exists || roomDoc.data()?.deletedAt !== null) {
+    if (!roomData || roomData.deletedAt) {
       return { roomId: roomId, message: "Sala no encontrada", success: false }; //res.status(404).json({ error: "Sala no encontrada" });
     }
 
-    const roomData = roomDoc.data();
-    const creatorId = roomData?.creatorId;
-    const adminsId = roomData?.adminsId;
-
-    if (!adminsId.includes(grantedBy) && grantedBy !== creatorId) {
+    if (!hasPermission(resolveRole(roomData, grantedBy, false), "grant_access")) {
       return {
         roomId: roomId,
         message: "Solo los admins pueden dar acceso",
@@ -109,18 +98,31 @@ export const createRoomAccess = async (
       }; //res.status(403).json({ error: "Solo los admins pueden dar acceso" });
     }
 
-    const accessRef = ROOMS.doc(String(roomId)).collection("access").doc();
+    const existing = await getStore().access.findByUser(
+      String(roomId),
+      String(userId)
+    );
+    if (existing) {
+      return {
+        id: existing.id,
+        userId: String(existing.userId),
+        grantedBy: String(existing.grantedBy),
+        grantedAt: existing.grantedAt,
+        message: "el usuario ya tenía acceso a la sala",
+        success: true,
+      };
+    }
 
     const accessData = {
-      userId: Number(userId),
-      grantedBy: Number(grantedBy),
+      userId: String(userId),
+      grantedBy: String(grantedBy),
       grantedAt: new Date().toISOString(),
     };
 
-    await accessRef.set(accessData);
+    const access = await getStore().access.create(String(roomId), accessData);
 
     return {
-      id: accessRef.id,
+      id: access.id,
       ...accessData,
       message: "aceso a sala creado correctamente",
       success: true,
@@ -131,13 +133,14 @@ export const createRoomAccess = async (
 };
 
 /**
- * Deletes an access record for a user in a room.
- * Revokes a user's permission to access a private room.
+ * Deletes the access records of a user in a room.
+ * Revokes a user's permission to access a private room; every grant of the
+ * user is removed, including duplicates left by older versions.
  *
  * @param {any} userId - The ID of the user whose access to revoke
  * @param {any} roomId - The ID of the room to revoke access from
  * @returns {Promise<{access: any | null, message: string, success: boolean}>}
- *          Object containing the deleted access snapshot (if found), status message, and success flag
+ *          Object containing the deleted access record (if found), status message, and success flag
  * @example
  * const result = await deleteRoomAccess(123, "room456");
  * if (result.success) {
@@ -146,23 +149,26 @@ export const createRoomAccess = async (
  */
 export const deleteRoomAccess = async (userId: any, roomId: any) => {
   try {
-    const snap = await ROOMS.doc(String(roomId))
-      .collection("access")
-      .where("userId", "==", Number(userId))
-      .get();
+    const access = await getStore().access.findByUser(
+      String(roomId),
+      String(userId)
+    );
 
-    if (snap.empty)
+    if (!access)
       return {
         access: null,
         message: "error al eliminar acceso",
         success: false,
       };
 
-    const docId = snap.docs[0].id;
-
-    await ROOMS.doc(String(roomId)).collection("access").doc(docId).delete();
+    // Older grants were not deduplicated; none may survive the revoke
+    let leftover: typeof access | null = access;
+    while (leftover) {
+      await getStore().access.delete(String(roomId), leftover.id);
+      leftover = await getStore().access.findByUser(String(roomId), String(userId));
+    }
 
-    return { access: snap, message: "acceso eliminado", success: true };
+    return { access: access, message: "acceso eliminado", success: true };
   } catch (error) {
     return {
       access: null,
@@ -1,63 +1,295 @@
-import { db } from "../config/firebase";
+import { getStore } from "../repositories";
+import {
+  getRoomAdminIds,
+  getRoomRole,
+  hasPermission,
+  resolveRole,
+} from "./roleService";
+import type {
+  StoredRoom,
+  RoomDetails,
+  RoomChange,
+  CreateRoomPayload,
+  UpdateRoomPayload,
+} from "../types";
 
 /**
- * Firebase Firestore collection reference for rooms.
+ * Checks whether a user may manage a room (change, archive or delete it),
+ * as granted by the `manage_room` permission of their role.
+ *
+ * @param {StoredRoom} room - The room document
+ * @param {string} userId - The backend user ID
+ * @returns {boolean} True if the user can change the room
+ * @example
+ * if (!canManageRoom(room, userId)) return forbidden();
+ */
+export const canManageRoom = (room: StoredRoom, userId: string): boolean =>
+  hasPermission(resolveRole(room, userId, false), "manage_room");
+
+/**
+ * Builds the public view of a room.
+ *
+ * @param {StoredRoom} room - The room document
+ * @returns {RoomDetails} Room details for API responses and broadcasts
+ */
+export const toRoomDetails = (room: StoredRoom): RoomDetails => ({
+  id: room.id,
+  name: room.name ?? null,
+  description: room.description ?? null,
+  isPrivate: Boolean(room.isPrivate || room.private),
+  creatorId: room.creatorId !== undefined ? String(room.creatorId) : null,
+  adminsId: getRoomAdminIds(room),
+  roles: { ...room.roles },
+  lobbyEnabled: Boolean(room.lobbyEnabled),
+  lockedAt: room.lockedAt ?? null,
+  endedAt: room.endedAt ?? null,
+  createdAt: room.createdAt ?? null,
+  updatedAt: room.updatedAt ?? null,
+  archivedAt: room.archivedAt ?? null,
+  deletedAt: room.deletedAt ?? null,
+});
+
+/**
+ * Retrieves the list of admin IDs for a specific room.
+ * Returns an empty array if the room doesn't exist.
+ *
+ * @param {string} roomId - The ID of the room to fetch admins from
+ * @returns {Promise<string[]>} Array of admin user IDs
+ * @example
+ * const admins = await getAdminsInRoom("room123");
+ * console.log(`Room has ${admins.length} admins`);
  */
-const ROOMS = db.collection("rooms");
+export const getAdminsInRoom = async (roomId: string) => {
+  const room = await getStore().rooms.get(roomId);
+  if (!room) return [];
+
+  return getRoomAdminIds(room);
+};
 
 /**
- * Verifies if a specific admin exists in a room.
- * Checks whether a user ID is listed as an admin in the room's admin list.
- * Returns false if the room doesn't exist or has been deleted.
+ * Checks whether a user may read the content of a room (history, etc.).
+ * Public rooms are readable by any authenticated user; private rooms by
+ * everyone but guests (see `getRoomRole`).
  *
  * @param {string} roomId - The ID of the room to check
- * @param {string} adminId - The ID of the admin to verify
- * @returns {Promise<boolean>} True if the user is an admin in the room, false otherwise
+ * @param {string} userId - The ID of the user requesting access
+ * @returns {Promise<boolean>} True if the user can read the room, false otherwise
  * @example
- * const isAdmin = await existsAdmin("room123", "user456");
- * if (isAdmin) {
- *   console.log("User is an admin");
+ * if (await canReadRoom("room123", "user456")) {
+ *   // load messages
  * }
  */
-export const existsAdmin = async (
+export const canReadRoom = async (
   roomId: string,
-  adminId: string
+  userId: string
 ): Promise<boolean> => {
   try {
-    const roomDoc = await ROOMS.doc(roomId).get();
+    const role = await getRoomRole(roomId, userId);
+    return role !== null && role !== "guest";
+  } catch (error) {
+    console.error("Error verificando acceso de lectura:", error);
+    return false;
+  }
+};
+
+// ===== Room Lifecycle =====
+
+/**
+ * Result of a room mutation. `code` is machine-readable on failure.
+ */
+export type RoomMutationResult =
+  | { success: true; message: string; room: RoomDetails; change: RoomChange }
+  | { success: false; message: string; code: string };
+
+/**
+ * Loads a room that `userId` is about to change.
+ *
+ * @returns The room, or the failure to report when it does not exist, is
+ *          deleted, or the user is neither its creator nor an admin
+ */
+const loadManagedRoom = async (
+  roomId: string,
+  userId: string
+): Promise<{ room: StoredRoom } | Extract<RoomMutationResult, { success: false }>> => {
+  const room = await getStore().rooms.get(roomId);
+
+  if (!room || room.deletedAt) {
+    return { success: false, message: "Sala no encontrada", code: "ROOM_NOT_FOUND" };
+  }
+
+  if (!canManageRoom(room, userId)) {
+    return {
+      success: false,
+      message: "Solo el creador o los admins pueden modificar la sala",
+      code: "FORBIDDEN",
+    };
+  }
+
+  return { room };
+};
 
-    // Sala no encontrada o eliminada
-    if (!roomDoc.exists || roomDoc.data()?.deletedAt !== null) {
-      return false;
+/**
+ * Creates a room owned by `userId`.
+ *
+ * @param {string} userId - Backend ID of the creator
+ * @param {CreateRoomPayload} data - Name, description and privacy
+ * @returns {Promise<RoomMutationResult>} The created room
+ * @example
+ * const result = await createRoom("user123", { name: "Daily", isPrivate: true });
+ * if (result.success) console.log(result.room.id);
+ */
+export const createRoom = async (
+  userId: string,
+  data: CreateRoomPayload
+): Promise<RoomMutationResult> => {
+  try {
+    const now = new Date().toISOString();
+    const room = await getStore().rooms.create({
+      name: data.name.trim(),
+      description: data.description?.trim() || null,
+      isPrivate: data.isPrivate ?? false,
+      lobbyEnabled: data.lobbyEnabled ?? false,
+      creatorId: userId,
+      adminsId: [],
+      createdAt: now,
+      updatedAt: now,
+      archivedAt: null,
+      deletedAt: null,
+    });
+
+    return {
+      success: true,
+      message: "sala creada correctamente",
+      room: toRoomDetails(room),
+      change: "created",
+    };
+  } catch (error) {
+    console.error("Error creando sala:", error);
+    return { success: false, message: "error al crear la sala", code: "STORAGE_ERROR" };
+  }
+};
+
+/**
+ * Changes the name, description, privacy or lobby setting of a room.
+ * Archived rooms must be restored first.
+ *
+ * @param {string} userId - Backend ID of the user making the change
+ * @param {UpdateRoomPayload} data - Room ID and the fields to change
+ * @returns {Promise<RoomMutationResult>} The updated room
+ * @example
+ * await updateRoom("user123", { roomId: "room456", isPrivate: false });
+ */
+export const updateRoom = async (
+  userId: string,
+  { roomId, name, description, isPrivate, lobbyEnabled }: UpdateRoomPayload
+): Promise<RoomMutationResult> => {
+  try {
+    const loaded = await loadManagedRoom(roomId, userId);
+    if (!("room" in loaded)) return loaded;
+
+    if (loaded.room.archivedAt) {
+      return {
+        success: false,
+        message: "La sala está archivada",
+        code: "ROOM_ARCHIVED",
+      };
     }
 
-    const admins = roomDoc.data()?.adminId || [];
+    const patch: Partial<StoredRoom> = { updatedAt: new Date().toISOString() };
+    if (name !== undefined) patch.name = name.trim();
+    if (description !== undefined) patch.description = description?.trim() || null;
+    if (isPrivate !== undefined) {
+      patch.isPrivate = isPrivate;
+      // Keep the legacy flag in sync, readers accept either
+      if ("private" in loaded.room) patch.private = isPrivate;
+    }
+    if (lobbyEnabled !== undefined) patch.lobbyEnabled = lobbyEnabled;
 
-    // Convertir a Set para búsqueda O(1)
-    const adminSet = new Set<string>(admins);
+    await getStore().rooms.update(roomId, patch);
 
-    return adminSet.has(adminId);
+    return {
+      success: true,
+      message: "sala actualizada correctamente",
+      room: toRoomDetails({ ...loaded.room, ...patch }),
+      change: "updated",
+    };
   } catch (error) {
-    console.error("Error verificando admin:", error);
-    return false;
+    console.error("Error actualizando sala:", error);
+    return { success: false, message: "error al actualizar la sala", code: "STORAGE_ERROR" };
   }
 };
 
 /**
- * Retrieves the list of admin IDs for a specific room.
- * Returns an empty array if the room doesn't exist.
+ * Archives a room, or restores it when `archived` is false. Archived rooms
+ * keep their history but cannot be joined or changed.
  *
- * @param {string} roomId - The ID of the room to fetch admins from
- * @returns {Promise<number[]>} Array of admin user IDs (as numbers)
+ * @param {string} userId - Backend ID of the user making the change
+ * @param {string} roomId - The room to archive
+ * @param {boolean} [archived=true] - False to restore the room
+ * @returns {Promise<RoomMutationResult>} The updated room
  * @example
- * const admins = await getAdminsInRoom("room123");
- * console.log(`Room has ${admins.length} admins`);
+ * await setRoomArchived("user123", "room456");
  */
-export const getAdminsInRoom = async (roomId: string) => {
-  const roomSnap = await db.collection("rooms").doc(roomId).get();
-  if (!roomSnap.exists) return [];
+export const setRoomArchived = async (
+  userId: string,
+  roomId: string,
+  archived = true
+): Promise<RoomMutationResult> => {
+  try {
+    const loaded = await loadManagedRoom(roomId, userId);
+    if (!("room" in loaded)) return loaded;
+
+    const now = new Date().toISOString();
+    const patch: Partial<StoredRoom> = {
+      archivedAt: archived ? loaded.room.archivedAt || now : null,
+      updatedAt: now,
+    };
 
-  const adminIds: number[] = roomSnap.data()?.adminsId || [];
+    await getStore().rooms.update(roomId, patch);
 
-  return [...adminIds];
+    return {
+      success: true,
+      message: archived ? "sala archivada" : "sala restaurada",
+      room: toRoomDetails({ ...loaded.room, ...patch }),
+      change: archived ? "archived" : "unarchived",
+    };
+  } catch (error) {
+    console.error("Error archivando sala:", error);
+    return { success: false, message: "error al archivar la sala", code: "STORAGE_ERROR" };
+  }
+};
+
+/**
+ * Soft-deletes a room by setting `deletedAt`. Its documents are kept, but
+ * every API treats it as missing from then on.
+ *
+ * @param {string} userId - Backend ID of the user making the change
+ * @param {string} roomId - The room to delete
+ * @returns {Promise<RoomMutationResult>} The deleted room
+ * @example
+ * await deleteRoom("user123", "room456");
+ */
+export const deleteRoom = async (
+  userId: string,
+  roomId: string
+): Promise<RoomMutationResult> => {
+  try {
+    const loaded = await loadManagedRoom(roomId, userId);
+    if (!("room" in loaded)) return loaded;
+
+    const now = new Date().toISOString();
+    const patch: Partial<StoredRoom> = { deletedAt: now, updatedAt: now };
+
+    await getStore().rooms.update(roomId, patch);
+
+    return {
+      success: true,
+      message: "sala eliminada",
+      room: toRoomDetails({ ...loaded.room, ...patch }),
+      change: "deleted",
+    };
+  } catch (error) {
+    console.error("Error eliminando sala:", error);
+    return { success: false, message: "error al eliminar la sala", code: "STORAGE_ERROR" };
+  }
 };
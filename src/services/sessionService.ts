@@ -0,0 +1,89 @@
+/**
+ * Session Resume
+ * Sockets that drop (network blip, laptop lid, ping timeout) keep their
+ * place in the room for a grace window instead of leaving at once. A client
+ * that reconnects within it gets its socket back through Socket.IO
+ * connection state recovery: same socket ID, rooms and `socket.data`, plus
+ * the broadcasts it missed. What happened to the room meanwhile is checked
+ * here before the session is resumed.
+ */
+
+import { getStore } from "../repositories";
+import { isBanned } from "./moderationService";
+import { getRoomRole } from "./roleService";
+import type { RoomRole } from "../types";
+
+/**
+ * How long a dropped socket keeps its room, connection record and missed
+ * events, in milliseconds. `RECONNECT_GRACE_MS=0` turns resuming off, so
+ * drops leave the room right away.
+ */
+export const RECONNECT_GRACE_MS =
+  process.env.RECONNECT_GRACE_MS !== undefined
+    ? Number(process.env.RECONNECT_GRACE_MS)
+    : 30_000;
+
+/**
+ * Disconnect reasons of a connection that was lost rather than closed on
+ * purpose, so the client is expected to come back.
+ */
+export const RESUMABLE_DISCONNECT_REASONS = new Set([
+  "transport close",
+  "transport error",
+  "ping timeout",
+]);
+
+const fail = (message: string, code: string) => ({
+  success: false as const,
+  message,
+  code,
+});
+
+/**
+ * Checks that a user whose socket reconnected may stay in the room it was
+ * in. Fails when, while they were away, the room was deleted or archived,
+ * they were banned or lost access, or their connection record was closed
+ * (the meeting ended or the grace window ran out).
+ *
+ * @param {string} userId - Backend ID of the user
+ * @param {string} roomId - The room the socket was in
+ * @returns Result with the user's role, or a failure `code`
+ * @example
+ * const resumed = await resumeRoomSession(userId, socket.data.roomId);
+ * if (!resumed.success) socket.leave(roomId);
+ */
+export const resumeRoomSession = async (
+  userId: string,
+  roomId: string
+): Promise<
+  | { success: true; message: string; role: RoomRole }
+  | { success: false; message: string; code: string }
+> => {
+  try {
+    const room = await getStore().rooms.get(roomId);
+    if (!room || room.deletedAt) {
+      return fail("Sala no encontrada", "ROOM_NOT_FOUND");
+    }
+    if (room.archivedAt) {
+      return fail("La sala está archivada", "ROOM_ARCHIVED");
+    }
+    if (isBanned(room, userId)) {
+      return fail("No puedes entrar a esta sala", "BANNED");
+    }
+
+    const role = await getRoomRole(roomId, userId);
+    if (!role || role === "guest") {
+      return fail("usuario sin permisos para sala privada", "ACCESS_DENIED");
+    }
+
+    const active = await getStore().connections.findActive(roomId, String(userId));
+    if (!active) {
+      return fail("Tu conexión a la sala se cerró", "SESSION_EXPIRED");
+    }
+
+    return { success: true, message: "sesión reanudada", role };
+  } catch (error) {
+    console.error("Error reanudando sesión:", error);
+    return fail("error al reanudar la sesión", "STORAGE_ERROR");
+  }
+};
@@ -0,0 +1,252 @@
+/**
+ * WebRTC Signaling Coordinator
+ * Negotiation state of each pair of participants of a mesh call. Offers,
+ * answers and ICE candidates still go straight to the target, but the
+ * server now knows which offers are pending, so it can settle glare (both
+ * peers offering at once), drop answers to offers that were superseded and
+ * hold ICE candidates until the target has the description they belong to.
+ *
+ * Each pair has a polite peer, which yields when both sides offer: its
+ * offer is refused with `GLARE` and it answers the other one instead. The
+ * role is derived from the user IDs, so every node assigns the same one.
+ */
+
+import type { IceCandidate } from "../types";
+
+/**
+ * Time after which an unanswered offer no longer blocks the other peer's
+ * offers, in milliseconds.
+ */
+export const OFFER_TIMEOUT_MS = Number(process.env.SIGNAL_OFFER_TIMEOUT_MS) || 30_000;
+
+/**
+ * Most ICE candidates held for one direction of a pair.
+ */
+export const MAX_BUFFERED_CANDIDATES = 50;
+
+/**
+ * Negotiation state of two participants of a room.
+ */
+interface SignalingPair {
+  peers: [string, string];
+  /** Peers with an offer delivered and not answered yet, and when it was sent. */
+  pendingOffers: Map<string, number>;
+  /** Peers that got a description (offer or answer) to the other one. */
+  described: Set<string>;
+  /** Candidates held per sender until its description is delivered. */
+  buffered: Map<string, IceCandidate[]>;
+}
+
+/**
+ * Outcome of an offer or answer: relayed with the candidates it releases,
+ * or refused with a `code`.
+ */
+export type DescriptionDecision =
+  | { relay: true; flush: IceCandidate[] }
+  | { relay: false; code: "GLARE" | "NO_PENDING_OFFER"; message: string };
+
+/**
+ * Outcome of an ICE candidate.
+ */
+export type CandidateDecision =
+  | { relay: true; buffered: false }
+  | { relay: false; buffered: true }
+  | { relay: false; buffered: false; code: "BUFFER_FULL"; message: string };
+
+/**
+ * Whether `userId` is the polite peer of its pair with `peerId`: the one
+ * with the greater ID yields on glare.
+ *
+ * @param {string} userId - The peer asked about
+ * @param {string} peerId - The other peer
+ * @returns {boolean} True if `userId` yields
+ * @example
+ * isPolitePeer("2", "1"); // true
+ */
+export const isPolitePeer = (userId: string, peerId: string): boolean =>
+  String(userId) > String(peerId);
+
+/**
+ * Creates the signaling state of one server. Nodes of a cluster keep their
+ * own copy, kept in step with `recordDescription` and `removePeer`.
+ *
+ * @returns The coordinator
+ * @example
+ * const signaling = createSignalingCoordinator();
+ * const decision = signaling.offer(roomId, senderId, targetUserId);
+ * if (decision.relay) relay();
+ */
+export const createSignalingCoordinator = () => {
+  /** Pairs of each room, keyed by "lowerId|higherId". */
+  const rooms = new Map<string, Map<string, SignalingPair>>();
+
+  const keyOf = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+  const pairOf = (roomId: string, a: string, b: string) => {
+    let pairs = rooms.get(roomId);
+    if (!pairs) {
+      pairs = new Map();
+      rooms.set(roomId, pairs);
+    }
+
+    let pair = pairs.get(keyOf(a, b));
+    if (!pair) {
+      pair = {
+        peers: [a, b],
+        pendingOffers: new Map(),
+        described: new Set(),
+        buffered: new Map(),
+      };
+      pairs.set(keyOf(a, b), pair);
+    }
+    return pair;
+  };
+
+  /**
+   * Marks a description of `from` as delivered and returns the candidates
+   * it was holding back.
+   */
+  const delivered = (pair: SignalingPair, from: string) => {
+    pair.described.add(from);
+    const flush = pair.buffered.get(from) ?? [];
+    pair.buffered.delete(from);
+    return flush;
+  };
+
+  const applyOffer = (pair: SignalingPair, from: string, to: string, now: number) => {
+    pair.pendingOffers.delete(to);
+    pair.pendingOffers.set(from, now);
+  };
+
+  return {
+    /**
+     * Decides on an offer from `from` to `to`. When `to` has a pending
+     * offer too, the impolite peer's offer wins and the polite one is
+     * refused with `GLARE`.
+     *
+     * @param {string} roomId - The room of the call
+     * @param {string} from - The offering user
+     * @param {string} to - The target user
+     * @param {number} [now] - Current time, in ms
+     * @returns {DescriptionDecision} Whether to relay it
+     */
+    offer(roomId: string, from: string, to: string, now = Date.now()): DescriptionDecision {
+      const pair = pairOf(roomId, from, to);
+      const theirs = pair.pendingOffers.get(to);
+
+      if (
+        theirs !== undefined &&
+        now - theirs < OFFER_TIMEOUT_MS &&
+        isPolitePeer(from, to)
+      ) {
+        return {
+          relay: false,
+          code: "GLARE",
+          message: "El otro participante ya envió una oferta; respóndela",
+        };
+      }
+
+      applyOffer(pair, from, to, now);
+      return { relay: true, flush: delivered(pair, from) };
+    },
+
+    /**
+     * Decides on an answer from `from` to `to`, which must answer a pending
+     * offer of `to`. Answers to offers that lost a glare are refused with
+     * `NO_PENDING_OFFER`.
+     *
+     * @param {string} roomId - The room of the call
+     * @param {string} from - The answering user
+     * @param {string} to - The user whose offer is answered
+     * @returns {DescriptionDecision} Whether to relay it
+     */
+    answer(roomId: string, from: string, to: string): DescriptionDecision {
+      const pair = pairOf(roomId, from, to);
+      if (!pair.pendingOffers.has(to)) {
+        return {
+          relay: false,
+          code: "NO_PENDING_OFFER",
+          message: "No hay una oferta pendiente de ese participante",
+        };
+      }
+
+      // Answering also drops any offer of our own the other side ignored
+      pair.pendingOffers.clear();
+      return { relay: true, flush: delivered(pair, from) };
+    },
+
+    /**
+     * Decides on an ICE candidate from `from` to `to`: relayed once a
+     * description of `from` was delivered, held until then.
+     *
+     * @param {string} roomId - The room of the call
+     * @param {string} from - The sending user
+     * @param {string} to - The target user
+     * @param {IceCandidate} candidate - The candidate
+     * @returns {CandidateDecision} Whether to relay it now
+     */
+    candidate(
+      roomId: string,
+      from: string,
+      to: string,
+      candidate: IceCandidate
+    ): CandidateDecision {
+      const pair = pairOf(roomId, from, to);
+      if (pair.described.has(from)) return { relay: true, buffered: false };
+
+      const held = pair.buffered.get(from) ?? [];
+      if (held.length >= MAX_BUFFERED_CANDIDATES) {
+        return {
+          relay: false,
+          buffered: false,
+          code: "BUFFER_FULL",
+          message: "Demasiados candidatos antes de la oferta",
+        };
+      }
+      pair.buffered.set(from, [...held, candidate]);
+      return { relay: false, buffered: true };
+    },
+
+    /**
+     * Whether the coordinator knows a pair, i.e. a signal went between them
+     * since they were both in the room.
+     */
+    hasPair(roomId: string, a: string, b: string): boolean {
+      return rooms.get(roomId)?.has(keyOf(a, b)) ?? false;
+    },
+
+    /**
+     * Applies an offer or answer relayed by another node of the cluster.
+     *
+     * @param {string} roomId - The room of the call
+     * @param {string} from - The sender
+     * @param {string} to - The target
+     * @param {"offer" | "answer"} type - What was relayed
+     */
+    recordDescription(roomId: string, from: string, to: string, type: "offer" | "answer") {
+      const pair = pairOf(roomId, from, to);
+      if (type === "offer") applyOffer(pair, from, to, Date.now());
+      else pair.pendingOffers.clear();
+      pair.described.add(from);
+    },
+
+    /**
+     * Forgets the pairs of a user who left a room, or of everyone when
+     * `userId` is null (the room was emptied).
+     *
+     * @param {string} roomId - The room
+     * @param {string | null} userId - The user who left
+     */
+    removePeer(roomId: string, userId: string | null) {
+      const pairs = rooms.get(roomId);
+      if (!pairs) return;
+
+      for (const [key, pair] of pairs) {
+        if (userId === null || pair.peers.includes(userId)) pairs.delete(key);
+      }
+      if (pairs.size === 0) rooms.delete(roomId);
+    },
+  };
+};
+
+export type SignalingCoordinator = ReturnType<typeof createSignalingCoordinator>;
@@ -0,0 +1,125 @@
+import type { UserTargeted } from "../types";
+
+/**
+ * Time without a new `typing_start` after which an indicator expires.
+ * Clients are expected to re-send `typing_start` every few seconds while
+ * the user keeps typing.
+ */
+export const TYPING_EXPIRY_MS = Number(process.env.TYPING_EXPIRY_MS) || 6000;
+
+/**
+ * In-memory typing indicator of one user in one room.
+ */
+export interface TypingEntry {
+  roomId: string;
+  userId: string;
+  socketId: string;
+  target: UserTargeted[] | null; // null = whole room, otherwise private audience
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Active typing indicators keyed by "roomId:userId".
+ */
+const typingStates = new Map<string, TypingEntry>();
+
+/**
+ * Builds a comparable key for a private audience so that a change of
+ * recipients can be detected.
+ *
+ * @param {UserTargeted[] | null} target - The private audience, or null for the whole room
+ * @returns {string} Stable key for the audience
+ */
+const audienceKey = (target: UserTargeted[] | null): string =>
+  target
+    ? target
+        .map((t) => String(t.userId))
+        .sort()
+        .join(",")
+    : "*";
+
+/**
+ * Marks a user as typing in a room, coalescing bursts of `typing_start`.
+ *
+ * Repeated calls only refresh the expiry timer; a change is reported only
+ * when the user was not typing before or when the audience changed. When
+ * the timer fires the indicator is removed and `onExpire` is called so the
+ * caller can broadcast the stop.
+ *
+ * @param {string} roomId - The room the user is typing in
+ * @param {string} userId - The typing user
+ * @param {string} socketId - The socket the indicator comes from
+ * @param {UserTargeted[] | null} target - Private audience, or null for the whole room
+ * @param {(entry: TypingEntry) => void} onExpire - Called when the indicator expires
+ * @returns {{changed: boolean, previous: TypingEntry | null}}
+ *          Whether the indicator must be broadcast, and the replaced entry if its audience changed
+ * @example
+ * const { changed } = startTyping("room1", "user1", socket.id, null, emitStop);
+ * if (changed) emitStart();
+ */
+export const startTyping = (
+  roomId: string,
+  userId: string,
+  socketId: string,
+  target: UserTargeted[] | null,
+  onExpire: (entry: TypingEntry) => void
+) => {
+  const key = `${roomId}:${userId}`;
+  const existing = typingStates.get(key);
+
+  if (existing) clearTimeout(existing.timer);
+
+  const entry: TypingEntry = {
+    roomId,
+    userId,
+    socketId,
+    target,
+    timer: setTimeout(() => {
+      if (typingStates.get(key) === entry) {
+        typingStates.delete(key);
+        onExpire(entry);
+      }
+    }, TYPING_EXPIRY_MS),
+  };
+  entry.timer.unref?.();
+
+  typingStates.set(key, entry);
+
+  if (!existing) return { changed: true, previous: null };
+
+  const audienceChanged =
+    audienceKey(existing.target) !== audienceKey(target);
+
+  return {
+    changed: audienceChanged,
+    previous: audienceChanged ? existing : null,
+  };
+};
+
+/**
+ * Clears the typing indicator of a user in a room.
+ * When `socketId` is given, the indicator is only cleared if it was
+ * started from that socket (another tab of the same user may be typing).
+ *
+ * @param {string} roomId - The room the user was typing in
+ * @param {string} userId - The user
+ * @param {string} [socketId] - Only clear indicators started from this socket
+ * @returns {TypingEntry | null} The removed entry, or null if the user was not typing
+ * @example
+ * const entry = stopTyping("room1", "user1");
+ * if (entry) emitStop(entry);
+ */
+export const stopTyping = (
+  roomId: string,
+  userId: string,
+  socketId?: string
+): TypingEntry | null => {
+  const key = `${roomId}:${userId}`;
+  const entry = typingStates.get(key);
+  if (!entry) return null;
+  if (socketId && entry.socketId !== socketId) return null;
+
+  clearTimeout(entry.timer);
+  typingStates.delete(key);
+  return entry;
+};
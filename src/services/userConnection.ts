@@ -1,14 +1,6 @@
-import { db } from "../config/firebase";
-import { OnlineUser, storedOnlineUser } from "../types";
-
-/**
- * Firebase Firestore collection reference for rooms.
- */
-const ROOMS = db.collection("rooms");
-/**
- * Name of the subcollection that stores user connections within each room.
- */
-const CON_COLECTION = "connections";
+import { getStore } from "../repositories";
+import { OnlineUser } from "../types";
+import { closeIfOrphaned } from "./reaperService";
 
 /**
  * Retrieves all active and past connections for a specific room.
@@ -25,12 +17,7 @@ const CON_COLECTION = "connections";
  */
 export const getConnectionsByRoom = async (roomId: any) => {
   try {
-    const snap = await ROOMS.doc(roomId).collection(CON_COLECTION).get();
-
-    const connections = snap.docs.map((d) => ({
-      id: d.id,
-      ...d.data(),
-    }));
+    const connections = await getStore().connections.listByRoom(roomId);
 
     return {
       connections: connections,
@@ -43,62 +30,63 @@ export const getConnectionsByRoom = async (roomId: any) => {
 };
 
 /**
- * Creates a new connection or refreshes an existing active connection for a user in a room.
- * If the user already has an active connection (leftAt is null), it updates the joinedAt timestamp.
- * If no active connection exists, creates a new connection record.
+ * Creates a new connection or reuses an existing active connection for a user in a room.
+ * Each connection record is one session: if the user already has an active connection
+ * (leftAt is null), e.g. from another tab or a resumed session, it is kept with its
+ * original joinedAt. If no active connection exists, creates a new connection record.
+ * An active connection left open by a server instance that is gone (crash or
+ * redeploy) is closed first, so the join starts a new session.
  *
  * @param {any} userId - The ID of the user connecting to the room
  * @param {any} roomId - The ID of the room the user is connecting to
+ * @param {string} [firebaseUid] - Firebase UID of the user
+ * @param {string} [instanceId] - The server instance handling the join
  * @returns {Promise<{user: any, connection: any | null, success: boolean}>}
  *          Object containing the user ID, connection data, and success flag
  * @example
- * const result = await createConnection(123, "room456", "firebase-uid-123");
+ * const result = await createConnection(123, "room456", "firebase-uid-123", instanceId);
  * if (result.success) {
  *   console.log("Connection created:", result.connection);
  * }
  */
-export const createConnection = async (userId: any, roomId: any, firebaseUid?: string) => {
+export const createConnection = async (
+  userId: any,
+  roomId: any,
+  firebaseUid?: string,
+  instanceId?: string
+) => {
   try {
     const userIdStr = String(userId);
     console.log(`[CREATE_CONNECTION] Creating connection for userId: ${userIdStr}, roomId: ${roomId}, firebaseUid: ${firebaseUid || 'not provided'}`);
 
     // Buscar conexión anterior - usar string para match con Firebase UIDs
-    const snap = await ROOMS.doc(String(roomId))
-      .collection(CON_COLECTION)
-      .where("userId", "==", userIdStr)
-      .where("leftAt", "==", null)
-      .get();
-
-    if (!snap.empty) {
-      // Refrescar conexión existente
-      const id = snap.docs[0].id;
-      console.log(`[CREATE_CONNECTION] Refreshing existing connection ${id}`);
-
-      const updated: any = {
-        userId: userIdStr,
-        roomId: String(roomId),
-        joinedAt: new Date().toISOString(),
-        leftAt: null,
-      };
-      
-      // Add firebaseUid if provided
-      if (firebaseUid) {
-        updated.firebaseUid = firebaseUid;
+    const active = await getStore().connections.findActive(
+      String(roomId),
+      userIdStr
+    );
+
+    if (active && !(await closeIfOrphaned(active, instanceId))) {
+      // Seguir en la misma sesión: joinedAt no cambia
+      const id = active.id;
+      console.log(`[CREATE_CONNECTION] Reusing active connection ${id}`);
+
+      const patch: { firebaseUid?: string; instanceId?: string } = {};
+      if (firebaseUid && active.firebaseUid !== firebaseUid) patch.firebaseUid = firebaseUid;
+      // Registros anteriores a las instancias quedan a cargo de esta
+      if (instanceId && !active.instanceId) patch.instanceId = instanceId;
+      if (Object.keys(patch).length > 0) {
+        await getStore().connections.update(String(roomId), id, patch);
       }
 
-      await ROOMS.doc(String(roomId))
-        .collection(CON_COLECTION)
-        .doc(id)
-        .update(updated);
-
-      console.log(`[CREATE_CONNECTION] ✅ Connection refreshed for ${userIdStr}`);
-      return { user: userId, connection: updated, success: true };
+      console.log(`[CREATE_CONNECTION] ✅ Connection kept for ${userIdStr}`);
+      return {
+        user: userId,
+        connection: { ...active, ...patch },
+        success: true,
+      };
     }
 
     // Crear nueva conexión
-    const ref = ROOMS.doc(String(roomId)).collection(CON_COLECTION).doc();
-    console.log(`[CREATE_CONNECTION] Creating new connection document ${ref.id}`);
-
     const newConn: any = {
       userId: userIdStr,
       roomId: String(roomId),
@@ -110,8 +98,12 @@ export const createConnection = async (userId: any, roomId: any, firebaseUid?: s
     if (firebaseUid) {
       newConn.firebaseUid = firebaseUid;
     }
+    if (instanceId) {
+      newConn.instanceId = instanceId;
+    }
 
-    await ref.set(newConn);
+    const created = await getStore().connections.create(String(roomId), newConn);
+    console.log(`[CREATE_CONNECTION] Created new connection document ${created.id}`);
 
     console.log(`[CREATE_CONNECTION] ✅ New connection created for ${userIdStr}`);
     return { user: userId, connection: newConn, success: true };
@@ -140,27 +132,21 @@ export const leftConnection = async (userId: any, roomId: any) => {
     const userIdStr = String(userId);
     console.log(`[LEFT_CONNECTION] User ${userIdStr} leaving room ${roomId}`);
 
-    const snap = await ROOMS.doc(String(roomId))
-      .collection(CON_COLECTION)
-      .where("userId", "==", userIdStr)
-      .where("leftAt", "==", null)
-      .get();
+    const active = await getStore().connections.findActive(
+      String(roomId),
+      userIdStr
+    );
 
-    if (snap.empty) {
+    if (!active) {
       console.warn(`[LEFT_CONNECTION] No active connection found for ${userIdStr} in room ${roomId}`);
       return { user: userId, connection: null, success: false };
     }
 
-    const docId = snap.docs[0].id;
-
     const updated = {
       leftAt: new Date().toISOString(),
     };
 
-    await ROOMS.doc(String(roomId))
-      .collection(CON_COLECTION)
-      .doc(docId)
-      .update(updated);
+    await getStore().connections.update(String(roomId), active.id, updated);
 
     console.log(`[LEFT_CONNECTION] ✅ User ${userIdStr} successfully left room ${roomId}`);
     return { user: userId, connection: updated, success: true };
@@ -171,37 +157,31 @@ export const leftConnection = async (userId: any, roomId: any) => {
 };
 
 /**
- * Retrieves all connection records across all rooms using a collection group query.
- * Useful for getting a global view of all user connections in the system.
- * Each connection includes the room ID, user ID, and join/leave timestamps.
+ * Closes every active connection of a room by setting their leftAt
+ * timestamp. Used when a host ends the meeting for everyone.
  *
- * @returns {Promise<storedOnlineUser[]>} Array of all connection records across all rooms
+ * @param {string} roomId - The ID of the room being ended
+ * @returns {Promise<{closed: number, success: boolean}>}
+ *          Number of connections closed and success flag
  * @example
- * const allConnections = await getAllConnetions();
- * console.log(`Total connections: ${allConnections.length}`);
- * allConnections.forEach(conn => {
- *   console.log(`User ${conn.userId} in room ${conn.roomId}`);
- * });
+ * const result = await closeRoomConnections("room456");
+ * console.log(`${result.closed} users were still connected`);
  */
-export const getAllConnetions = async () => {
+export const closeRoomConnections = async (roomId: string) => {
   try {
-    const snap = await db.collectionGroup(CON_COLECTION).get();
+    const active = await getStore().connections.listActive(String(roomId));
+    const leftAt = new Date().toISOString();
 
-    const allConnections = snap.docs.map((doc) => {
-      const data = doc.data();
-      const roomId = doc.ref.parent.parent?.id;
+    await Promise.all(
+      active.map((connection) =>
+        getStore().connections.update(String(roomId), connection.id, { leftAt })
+      )
+    );
 
-      return {
-        roomId,
-        userId: data.userId,
-        joinedAt: data.joinedAt,
-        leftAt: data.leftAt,
-      } as storedOnlineUser;
-    });
-
-    return allConnections;
+    console.log(`[LEFT_CONNECTION] ✅ Closed ${active.length} connections of room ${roomId}`);
+    return { closed: active.length, success: true };
   } catch (error) {
-    console.log("Error obteniendo las conexiones");
-    return [];
+    console.error(`[LEFT_CONNECTION] ❌ Error closing connections of ${roomId}:`, error);
+    return { closed: 0, success: false };
   }
 };
@@ -1,7 +1,7 @@
 /**
  * Shared TypeScript interfaces for the Charlaton Chat microservice.
  *
- * These types are imported by both the Socket.IO server (`index.ts`) and
+ * These types are imported by both the Socket.IO server (`server.ts`) and
  * the service layer, and they define the contract between backend and
  * frontend for all real‑time events and REST payloads.
  */
@@ -23,15 +23,13 @@ export interface OnlineUser {
 }
 
 /**
- * 
- * 
+ * Connection record as stored in `rooms/{roomId}/connections`.
  */
-
 export interface storedOnlineUser {
   roomId: string;
   userId: string;
-  joinedAt: FirebaseFirestore.Timestamp | number;
-  leftAt: FirebaseFirestore.Timestamp | number;
+  joinedAt: string;
+  leftAt: string | null;
 }
 
 /**
@@ -46,68 +44,459 @@ export interface JWTUser {
   exp?: number;
 }
 
+/**
+ * Public descriptor of a participant, built from the socket's JWT data.
+ */
+export interface RoomUserInfo {
+  id: string;
+  email: string;
+  displayName: string;
+  nickname: string | null;
+  photoURL?: string | null;
+}
+
+/**
+ * One entry of the `usersOnline` list: a user, however many sockets (tabs,
+ * devices) they have in the room.
+ */
+export interface RoomUser {
+  userId: string;
+  email: string;
+  roomId: string;
+  user: RoomUserInfo;
+  status: PresenceStatus; // merged from the user's sockets in the room
+  devices: number; // sockets of the user in the room
+}
+
+/**
+ * Presence status of a user. `offline` means no socket is connected.
+ */
+export type PresenceStatus = "online" | "away" | "busy" | "offline";
+
+/**
+ * Status a client can report for one of its sockets.
+ */
+export type SocketPresenceStatus = Exclude<PresenceStatus, "offline">;
+
+/**
+ * Status reported by one socket, kept in `socket.data.presence`.
+ */
+export interface SocketPresence {
+  status: SocketPresenceStatus;
+  updatedAt: string;
+}
+
+/**
+ * Last time a user was seen, stored in `presence/{userId}` when their last
+ * socket disconnects.
+ */
+export interface PresenceRecord {
+  userId: string;
+  lastSeenAt: string;
+}
+
+/**
+ * Presence of a user, merged from all their sockets across nodes.
+ */
+export interface UserPresence {
+  userId: string;
+  status: PresenceStatus;
+  lastSeenAt: string | null; // last activity; null if never seen
+  devices: number; // connected sockets
+}
+
 // ===== Message Types =====
 
 /**
- * Base message shape exchanged between client and server.
+ * Message document as stored in `rooms/{roomId}/messages`.
  *
- * `createAt` can be either a Firestore `Timestamp` (when loaded from
- * the database) or a numeric epoch (when coming directly from Socket.IO).
+ * `createAt` is a `Date` once loaded through a repository (Firestore
+ * `Timestamp`s are converted when reading). Payloads sent to clients
+ * expose it as the ISO string `createdAt`.
  */
 export interface Message {
-  senderId: string; // this field is for identificate the user who send de message
-  roomId: string; // the room where the message is will be publicate
-  text: string; // the content of the message
-  target: UserTargeted[]; // the users who will get the message
-  visibility: number; // number that identify if the message is public or private ( at moment )
-  createAt: FirebaseFirestore.Timestamp | number; // for order the message 
-}
-
-/** 
- *  User targeted for send a private message 
- * 
- * 
-*/
+  userId: string; // the user who sent the message
+  roomId: string; // the room where the message is published
+  content: string | null; // the text of the message, null once deleted
+  target: UserTargeted[] | null; // recipients of a private message
+  visibility: MessageVisibility;
+  createAt: Date; // for order the message
+  replyTo?: string | null; // id of the quoted message, shown inline in the main stream
+  threadId?: string | null; // id of the thread root; thread replies are kept out of the main stream
+  replyCount?: number; // only on thread roots
+  lastReplyAt?: Date | null; // only on thread roots
+}
+
+/**
+ * Whether a message is sent to the whole room or only to its `target` users.
+ */
+export type MessageVisibility = "public" | "private";
+
+/**
+ * User targeted for send a private message
+ */
 export interface UserTargeted {
-  userId: String;
-};
+  userId: string;
+}
 
 /**
- * Message record as stored/read from Firestore.
- *
- * The `id` field is optional because Firestore does not include it
- * inside `doc.data()`; we attach it manually where needed.
+ * Previous version of an edited message, kept in `edits`.
+ */
+export interface MessageEdit {
+  content: string | null;
+  editedAt: string;
+  editedBy: string;
+}
+
+/**
+ * Message record as returned by the message repository, with its
+ * document `id` attached.
  */
 export interface StoredMessage extends Message {
-  id?: string;
+  id: string;
+  clientMessageId?: string | null;
+  reactions?: Record<string, string[]>; // emoji -> user ids
+  reactionCounts?: Record<string, number>; // emoji -> count
+  edits?: MessageEdit[];
+  editedAt?: string | null;
+  editedBy?: string | null;
+  deletedAt?: string | null; // tombstone
+  deletedBy?: string | null;
+}
+
+/**
+ * Message as returned by the history and thread APIs.
+ */
+export interface HistoryMessage {
+  id: string;
+  content: string | null;
+  userId: string;
+  roomId: string;
+  visibility: MessageVisibility;
+  target: UserTargeted[] | null;
+  replyTo: string | null;
+  threadId: string | null;
+  replyCount: number;
+  lastReplyAt: string | null;
+  reactions: Record<string, string[]>; // emoji -> user ids
+  reactionCounts: Record<string, number>; // emoji -> count
+  editedAt: string | null;
+  deleted: boolean; // tombstone: content is null
+  createdAt: string | null;
 }
 
-// ===== Socket Event Payloads =====
+// ===== Room Types =====
 
 /**
- * Payload emitted by the client when sending a new message via Socket.IO.
+ * Room document as stored in `rooms/{roomId}`. Rooms created by the main
+ * backend may lack the lifecycle fields; older documents use `private` and
+ * `adminId` instead of `isPrivate` and `adminsId`.
  */
-export interface SendMessagePayload {
-  senderId: string;
+export interface StoredRoom {
+  id: string;
+  name?: string;
+  description?: string | null;
+  isPrivate?: boolean;
+  private?: boolean;
+  creatorId?: string;
+  adminsId?: (string | number)[];
+  adminId?: string[];
+  roles?: Record<string, StoredRoomRole>; // user ID -> role granted in this room
+  createdAt?: string;
+  updatedAt?: string;
+  archivedAt?: string | null; // archived rooms are read-only and cannot be joined
+  deletedAt?: string | null; // soft delete
+  lobbyEnabled?: boolean; // joins wait in the lobby until a host admits them
+  lockedAt?: string | null; // locked rooms refuse new joins, except from hosts
+  lockedBy?: string | null;
+  bans?: Record<string, RoomBan>; // user ID -> ban; banned users cannot join
+  endedAt?: string | null; // last time a host ended the meeting with `end_room`
+  endedBy?: string | null;
+  [field: string]: unknown;
+}
+
+/**
+ * Role of a user in a room, from most to least privileged. The owner is
+ * the room's creator; guests are users without access to a private room.
+ * See `ROLE_PERMISSIONS` in `services/roleService.ts` for what each can do.
+ */
+export type RoomRole = "owner" | "admin" | "moderator" | "member" | "guest";
+
+/**
+ * Roles that are stored in `rooms/{roomId}.roles`. Owners come from
+ * `creatorId` and guests are everyone else.
+ */
+export type StoredRoomRole = "admin" | "moderator" | "member";
+
+/**
+ * Public view of a room, returned by the room APIs and `room_updated`.
+ * Legacy fields are folded into `isPrivate` and `adminsId`.
+ */
+export interface RoomDetails {
+  id: string;
+  name: string | null;
+  description: string | null;
+  isPrivate: boolean;
+  creatorId: string | null;
+  adminsId: string[];
+  roles: Record<string, StoredRoomRole>;
+  lobbyEnabled: boolean;
+  lockedAt: string | null;
+  endedAt: string | null;
+  createdAt: string | null;
+  updatedAt: string | null;
+  archivedAt: string | null;
+  deletedAt: string | null;
+}
+
+/**
+ * Kind of change announced by `room_updated`.
+ */
+export type RoomChange =
+  | "created"
+  | "updated"
+  | "archived"
+  | "unarchived"
+  | "locked"
+  | "unlocked"
+  | "ended"
+  | "deleted";
+
+/**
+ * Ban of a user from a room, stored in `rooms/{roomId}.bans`.
+ */
+export interface RoomBan {
+  bannedBy: string;
+  bannedAt: string;
+  reason: string | null;
+}
+
+/**
+ * Moderation action recorded in the audit log of a room.
+ */
+export type ModerationAction =
+  | "kick"
+  | "ban"
+  | "unban"
+  | "lock"
+  | "unlock"
+  | "mute"
+  | "end_room";
+
+/**
+ * Audit record of a moderation action, stored in `rooms/{roomId}/audit`.
+ */
+export interface AuditEntry {
+  id: string;
   roomId: string;
-  text: string;
+  action: ModerationAction;
+  actorId: string;
+  targetUserId: string | null; // null for actions on the whole room
+  reason: string | null;
+  details: Record<string, unknown> | null; // e.g. the devices of a mute request
+  createdAt: string;
 }
 
 /**
- * Payload delivered by the server when broadcasting a new message.
- *
- * It extends the base `Message` type and include the
- * persisted `id` and a small user descriptor used by the UI.
+ * Access grant to a private room, stored in `rooms/{roomId}/access`.
+ */
+export interface RoomAccess {
+  id: string;
+  userId: string | number;
+  grantedBy: string | number;
+  grantedAt: string;
+}
+
+/**
+ * State of an access request. Pending requests expire after
+ * `ACCESS_REQUEST_TTL_MS` if no admin answers them.
+ */
+export type AccessRequestStatus = "pending" | "approved" | "denied" | "expired";
+
+/**
+ * Request to enter a private room, stored in `rooms/{roomId}/accessRequests`.
+ */
+export interface AccessRequest {
+  id: string;
+  roomId: string;
+  userId: string;
+  status: AccessRequestStatus;
+  message: string | null; // optional note from the requester
+  requestedAt: string;
+  expiresAt: string;
+  resolvedAt: string | null;
+  resolvedBy: string | null; // admin who approved or denied it
+}
+
+/**
+ * Invite to a private room, stored in `rooms/{roomId}/invites`. The shareable
+ * token only carries the invite ID; uses and revocation are checked here.
+ */
+export interface RoomInvite {
+  id: string;
+  roomId: string;
+  createdBy: string;
+  createdAt: string;
+  expiresAt: string;
+  maxUses: number | null; // null = unlimited
+  uses: number;
+  email: string | null; // only this user may redeem it (lowercase)
+  revokedAt: string | null;
+  revokedBy: string | null;
+}
+
+/**
+ * Connection record as stored in `rooms/{roomId}/connections`.
+ * `leftAt` is null while the user is in the room.
+ */
+export interface RoomConnection {
+  id: string;
+  userId: string;
+  roomId: string;
+  joinedAt: string;
+  leftAt: string | null;
+  firebaseUid?: string;
+  instanceId?: string; // server instance holding the session; missing on older records
+}
+
+/**
+ * A running chat server process, as seen by the other replicas. Each one
+ * writes a heartbeat while it runs, so the sessions it held can be closed
+ * once it stops or misses its heartbeats.
  */
-export interface ReceiveMessagePayload extends Message {
+export interface ServerInstance {
   id: string;
-  user: {
-    id: string;
-    email: string;
-    name: string;
-    last_name?: string;
-    birth_date?: FirebaseFirestore.Timestamp | number;
+  startedAt: string;
+  heartbeatAt: string;
+  stoppedAt: string | null; // set on a clean shutdown
+}
+
+/**
+ * A connection closed by the stale connection reaper.
+ */
+export interface ReapedConnection {
+  roomId: string;
+  connectionId: string;
+  userId: string;
+  instanceId: string | null;
+  leftAt: string; // best-known leave time
+}
+
+/**
+ * One stay of a user in a room, from a join to the matching leave.
+ */
+export interface AttendanceSession {
+  joinedAt: string;
+  leftAt: string | null; // null while the user is still in the room
+}
+
+/**
+ * Attendance of one user within the window of a report.
+ */
+export interface ParticipantAttendance {
+  userId: string;
+  firstJoinAt: string;
+  lastLeftAt: string | null; // null while the user is still in the room
+  totalSeconds: number; // time in the room within the window; overlaps count once
+  sessions: AttendanceSession[];
+}
+
+/**
+ * Attendance report of a room over a time window (the meeting).
+ */
+export interface AttendanceReport {
+  roomId: string;
+  from: string;
+  to: string;
+  meeting: {
+    firstJoinAt: string | null;
+    lastLeftAt: string | null; // null while someone is still in the room
+    durationSeconds: number; // time with anyone in the room, within the window
+    participants: number;
+    sessions: number;
+    totalSeconds: number; // sum of the participants' totals
   };
+  participants: ParticipantAttendance[];
+  truncated: boolean; // more sessions than a report holds; narrow the window
+}
+
+/**
+ * Read cursor of one user, stored in `rooms/{roomId}/readCursors/{userId}`.
+ */
+export interface ReadCursor {
+  userId: string;
+  lastReadMessageId: string;
+  lastReadAt: string;
+  updatedAt: string;
+}
+
+// ===== Client → Server Payloads =====
+
+/**
+ * Payload emitted by the client when sending a new message via Socket.IO.
+ */
+export interface SendMessagePayload {
+  msg: string;
+  visibility: MessageVisibility;
+  target?: UserTargeted[] | null; // required for private messages
+  replyTo?: string; // id of the quoted message
+  threadId?: string; // id of the thread root when replying inside a thread
+  clientMessageId?: string; // client-generated id; retries with the same id are not stored twice
+}
+
+/**
+ * Payload emitted by the client to request an older page of the room history.
+ * The same options are accepted as query params by `GET /rooms/:roomId/messages`.
+ */
+export interface LoadHistoryPayload {
+  before?: string; // id of the oldest message the client already has
+  limit?: number; // page size, capped by the server
+}
+
+/**
+ * Payload emitted by the client to read the replies of a thread.
+ */
+export interface LoadThreadPayload extends LoadHistoryPayload {
+  threadId: string; // id of the thread root message
+}
+
+/**
+ * Payload emitted by the client to edit one of the room's messages.
+ */
+export interface EditMessagePayload {
+  messageId: string;
+  content: string;
+}
+
+/**
+ * Payload emitted by the client to delete one of the room's messages.
+ */
+export interface DeleteMessagePayload {
+  messageId: string;
+}
+
+/**
+ * Payload emitted by the client to add or remove an emoji reaction.
+ */
+export interface ReactionPayload {
+  messageId: string;
+  emoji: string;
+}
+
+/**
+ * Payload emitted by the client to move its read cursor.
+ */
+export interface MarkReadPayload {
+  messageId: string;
+}
+
+/**
+ * Payload of `typing_start`. Without `visibility: "private"` the indicator
+ * is shown to the whole room.
+ */
+export interface TypingPayload {
+  visibility?: MessageVisibility;
+  target?: UserTargeted[];
 }
 
 /**
@@ -122,6 +511,96 @@ export interface JoinRoomPayload {
   userId: string;
 }
 
+/**
+ * Payload of `join_room` when entering a private room with an invite
+ * token. The room ID alone is also accepted.
+ */
+export interface JoinRoomInvitePayload {
+  roomId: string;
+  invite: string;
+}
+
+/**
+ * Payload emitted by an admin to create an invite. Defaults: expires in
+ * 7 days, unlimited uses, any user.
+ */
+export interface CreateInvitePayload {
+  roomId: string;
+  expiresInMinutes?: number;
+  maxUses?: number;
+  email?: string;
+}
+
+/**
+ * Payload to list the invites of a room.
+ */
+export interface ListInvitesPayload {
+  roomId: string;
+}
+
+/**
+ * Payload to revoke an invite.
+ */
+export interface RevokeInvitePayload {
+  roomId: string;
+  inviteId: string;
+}
+
+/**
+ * Payload emitted by a host to admit or reject users waiting in the lobby.
+ * Without `targetUserId` it applies to everyone waiting.
+ */
+export interface LobbyActionPayload {
+  roomId: string;
+  targetUserId?: string;
+  reason?: string; // rejections only
+}
+
+/**
+ * Payload emitted by a host to remove (`kick_user`) or ban (`ban_user`) a
+ * participant.
+ */
+export interface ModerateUserPayload {
+  roomId: string;
+  targetUserId: string;
+  reason?: string;
+}
+
+/**
+ * Payload emitted by a host to lift a ban.
+ */
+export interface UnbanUserPayload {
+  roomId: string;
+  targetUserId: string;
+}
+
+/**
+ * Payload emitted by a host to lock or unlock a room. Locks by default.
+ */
+export interface LockRoomPayload {
+  roomId: string;
+  locked?: boolean;
+}
+
+/**
+ * Payload emitted by a host to ask one user (`targetUserId`) or everyone
+ * to turn off their microphone and/or camera. Only the microphone by default.
+ */
+export interface MuteRequestPayload {
+  roomId: string;
+  targetUserId?: string;
+  mic?: boolean;
+  camera?: boolean;
+}
+
+/**
+ * Payload emitted by a host to end a meeting. Defaults to the room the
+ * socket is in.
+ */
+export interface EndRoomPayload {
+  roomId?: string;
+}
+
 /**
  * Payload describing a user leaving a room.
  */
@@ -130,6 +609,169 @@ export interface LeaveRoomPayload {
   userId: string;
 }
 
+/**
+ * Payload emitted by an admin to let a user into a private room.
+ */
+export interface GrantAccessPayload {
+  roomId: string;
+  targetUserId: string;
+}
+
+/**
+ * Payload emitted by a user asking to enter a private room. The room ID
+ * alone is also accepted.
+ */
+export interface SendAccessPayload {
+  roomId: string;
+  message?: string;
+}
+
+/**
+ * Payload emitted by an admin to turn down an access request.
+ */
+export interface DenyAccessPayload {
+  roomId: string;
+  targetUserId: string;
+  reason?: string;
+}
+
+/**
+ * Payload to create a room. The creator becomes its owner.
+ */
+export interface CreateRoomPayload {
+  name: string;
+  description?: string;
+  isPrivate?: boolean;
+  lobbyEnabled?: boolean;
+}
+
+/**
+ * Payload to change a room. Omitted fields are left as they are; a null
+ * `description` clears it.
+ */
+export interface UpdateRoomPayload {
+  roomId: string;
+  name?: string;
+  description?: string | null;
+  isPrivate?: boolean;
+  lobbyEnabled?: boolean;
+}
+
+/**
+ * Payload to archive a room, or to restore it with `archived: false`.
+ */
+export interface ArchiveRoomPayload {
+  roomId: string;
+  archived?: boolean;
+}
+
+/**
+ * Payload to give a user a higher role in a room.
+ */
+export interface PromotePayload {
+  roomId: string;
+  targetUserId: string;
+  role: "admin" | "moderator";
+}
+
+/**
+ * Payload to take a user back to a plain member of a room.
+ */
+export interface DemotePayload {
+  roomId: string;
+  targetUserId: string;
+}
+
+/**
+ * Payload to soft-delete a room.
+ */
+export interface DeleteRoomPayload {
+  roomId: string;
+}
+
+/**
+ * Payload of `set_presence`.
+ */
+export interface SetPresencePayload {
+  status: SocketPresenceStatus;
+}
+
+/**
+ * Payload of `subscribe_presence` and `unsubscribe_presence`.
+ */
+export interface PresenceSubscriptionPayload {
+  userIds: string[];
+}
+
+/**
+ * Microphone/camera state of the emitting participant.
+ */
+export interface MediaStatePayload {
+  micEnabled: boolean;
+  cameraEnabled: boolean;
+}
+
+/**
+ * Session description exchanged during WebRTC negotiation
+ * (mirrors the browser's `RTCSessionDescriptionInit`).
+ */
+export interface SessionDescription {
+  type: "offer" | "answer" | "pranswer" | "rollback";
+  sdp?: string;
+}
+
+/**
+ * ICE candidate exchanged during WebRTC negotiation
+ * (mirrors the browser's `RTCIceCandidateInit`).
+ */
+export interface IceCandidate {
+  candidate?: string;
+  sdpMid?: string | null;
+  sdpMLineIndex?: number | null;
+  usernameFragment?: string | null;
+}
+
+/**
+ * Offer or answer sent to one participant of the room.
+ */
+export interface WebRTCDescriptionPayload {
+  roomId: string;
+  targetUserId: string;
+  sdp: SessionDescription;
+}
+
+/**
+ * ICE candidate sent to one participant of the room.
+ */
+export interface WebRTCCandidatePayload {
+  roomId: string;
+  targetUserId: string;
+  candidate: IceCandidate;
+}
+
+// ===== Acknowledgements =====
+
+/**
+ * Response passed to a Socket.IO acknowledgement callback.
+ *
+ * `message` is a human readable status, `code` a machine-readable reason
+ * on failure, and `data` the result of the action on success.
+ */
+export interface AckResponse<T = undefined> {
+  success: boolean;
+  message?: string;
+  code?: string;
+  data?: T;
+}
+
+/**
+ * Optional acknowledgement callback accepted as last argument by events
+ * that support it.
+ */
+export type AckCallback<T = undefined> = (response: AckResponse<T>) => void;
+
+// ===== Server → Client Payloads =====
+
 /**
  * Generic success/error response used by room‑level events such as
  * `join_room_success`, `join_room_error`, and presence‑related events.
@@ -140,45 +782,559 @@ export interface RoomActionResponse {
   user?: JWTUser;
 }
 
+/**
+ * Generic result of an action, used by `*_error` and `*_success` events.
+ */
+export interface ActionResult {
+  success: boolean;
+  message?: string;
+}
+
+/**
+ * Payload of `join_room_success`.
+ */
+export interface JoinRoomSuccessPayload extends RoomActionResponse {
+  roomId: string;
+  role: RoomRole;
+  unreadCount: number;
+  lastReadMessageId: string | null;
+}
+
+/**
+ * Payload sent to the other participants when someone joins.
+ */
+export interface UserJoinedPayload {
+  user: { id: string; email: string };
+  message: string;
+  roomId: string;
+}
+
+/**
+ * Payload delivered by the server when broadcasting a new message
+ * (`message_success` to the sender, `new_success` to the rest of the room).
+ */
+export interface ChatMessagePayload {
+  id: string;
+  content: string;
+  userId: string;
+  roomId: string;
+  visibility: MessageVisibility;
+  replyTo: string | null;
+  threadId: string | null;
+  clientMessageId: string | null;
+  createdAt: string;
+  user: Omit<RoomUserInfo, "photoURL">;
+  success: true;
+}
+
+/**
+ * Payload of `message_edited`.
+ */
+export interface MessageEditedPayload {
+  id: string;
+  roomId: string;
+  content: string;
+  editedAt: string;
+  editedBy: string;
+  success: true;
+}
+
+/**
+ * Payload of `message_deleted`.
+ */
+export interface MessageDeletedPayload {
+  id: string;
+  roomId: string;
+  deletedAt: string;
+  deletedBy: string;
+  success: true;
+}
+
+/**
+ * Payload of `thread_updated`, sent when a reply is posted in a thread.
+ */
+export interface ThreadUpdatedPayload {
+  roomId: string;
+  threadId: string;
+  replyCount: number;
+  lastReplyAt: string;
+}
+
+/**
+ * Delta broadcast when a reaction is added or removed.
+ */
+export interface ReactionUpdatedPayload {
+  messageId: string;
+  roomId: string;
+  action: "added" | "removed";
+  emoji: string;
+  userId: string;
+  count: number;
+}
+
+/**
+ * Payload of `read_receipt`.
+ */
+export interface ReadReceiptPayload {
+  roomId: string;
+  userId: string;
+  messageId: string;
+  readAt: string;
+}
+
+/**
+ * Payload of `user_typing`.
+ */
+export interface UserTypingPayload {
+  roomId: string;
+  userId: string;
+  typing: boolean;
+  visibility: MessageVisibility;
+}
+
+/**
+ * One page of message history, ordered by `createAt` ascending.
+ */
+export interface MessageHistoryPage {
+  roomId: string;
+  messages: HistoryMessage[] | null;
+  nextCursor: string | null; // pass as `before` to get the previous page
+  hasMore: boolean;
+  success: boolean;
+  message: string;
+}
+
+/**
+ * One page of a thread's replies together with its root message.
+ */
+export interface ThreadPage extends MessageHistoryPage {
+  threadId: string;
+  root: HistoryMessage;
+}
+
+/**
+ * Media state of another participant. With `requestedBy`, it is a host
+ * asking the receiving user to turn off the devices set to false.
+ */
+export interface UserMediaChangedPayload extends MediaStatePayload {
+  userId: string;
+  requestedBy?: string;
+}
+
+/**
+ * Offer or answer relayed to its target.
+ */
+export interface RelayedDescriptionPayload {
+  senderId: string;
+  sdp: SessionDescription;
+  polite: boolean; // the receiver yields to the sender on offer glare
+}
+
+/**
+ * ICE candidate relayed to its target.
+ */
+export interface RelayedCandidatePayload {
+  senderId: string;
+  candidate: IceCandidate;
+}
+
+/**
+ * Access request forwarded to the admins of a room.
+ */
+export interface AccessRequestPayload {
+  userId: string;
+  roomId: string;
+  message: string;
+  request: AccessRequest;
+}
+
+/**
+ * Pending access requests of a room, sent to admins when they join.
+ */
+export interface AccessRequestQueuePayload {
+  roomId: string;
+  requests: AccessRequest[];
+}
+
+/**
+ * A new invite and the token to share. `link` is built from `FRONTEND_URL`
+ * when it is set.
+ */
+export interface CreatedInvite {
+  invite: RoomInvite;
+  token: string;
+  link: string | null;
+}
+
+/**
+ * Lobby state of a socket waiting to be admitted to a room.
+ */
+export interface LobbyEntry {
+  roomId: string;
+  since: string;
+  /** Role the user will join with; guests get an access grant when admitted. */
+  role: RoomRole;
+}
+
+/**
+ * A user waiting in the lobby, as shown to hosts.
+ */
+export interface LobbyUser {
+  userId: string;
+  email: string;
+  since: string;
+  needsAccess: boolean; // guest of a private room, admitting grants access
+}
+
+/**
+ * Users waiting in the lobby of a room, sent to hosts on every change.
+ */
+export interface LobbyUpdatedPayload {
+  roomId: string;
+  users: LobbyUser[];
+}
+
+/**
+ * Answer to an access request, sent to the requester by user ID.
+ */
+export interface AccessDecisionPayload {
+  roomId: string;
+  message: string;
+}
+
+/**
+ * Payload of `room_updated`, broadcast to the participants of a room when
+ * it is changed, archived or deleted.
+ */
+export interface RoomUpdatedPayload {
+  roomId: string;
+  change: RoomChange;
+  room: RoomDetails;
+  updatedBy: string;
+}
+
+/**
+ * Payload of `role_changed`, broadcast to the room when a user is promoted
+ * or demoted.
+ */
+export interface RoleChangedPayload {
+  roomId: string;
+  userId: string;
+  role: RoomRole;
+  previousRole: RoomRole;
+  changedBy: string;
+}
+
+/**
+ * Moderation action taken on the receiving user, sent by user ID.
+ */
+export interface ModerationNoticePayload {
+  roomId: string;
+  action: ModerationAction;
+  message: string;
+}
+
+/**
+ * Audit record of a moderation action, sent to the hosts in the room.
+ */
+export interface ModerationAuditPayload {
+  roomId: string;
+  entry: AuditEntry;
+}
+
+/**
+ * Payload of `room_ended`.
+ */
+export interface RoomEndedPayload {
+  success: true;
+  roomId: string;
+  message: string;
+}
+
+/**
+ * Payload of `session_resumed`, sent to a socket recovered after a drop.
+ * `roomId` is null when it was in no room or cannot stay in it (see
+ * `code`); the client has to join again.
+ */
+export interface SessionResumedPayload {
+  roomId: string | null;
+  role: RoomRole | null;
+  message: string;
+  code?: string;
+}
+
+/**
+ * Acknowledgement of a WebRTC signal.
+ */
+export interface SignalAck {
+  polite: boolean; // the sender yields to the target on offer glare
+  buffered: boolean; // ICE candidate held until the sender's offer or answer is delivered
+}
+
+/**
+ * Payload of `signal_error`, sent when a WebRTC signal is not relayed.
+ */
+export interface SignalErrorPayload extends ActionResult {
+  code: string;
+  event: "webrtc_offer" | "webrtc_answer" | "webrtc_ice_candidate";
+  targetUserId: string;
+}
+
+/**
+ * Acknowledgement of `subscribe_presence`. Users whose presence the caller
+ * may not see are listed in `hidden` and are not subscribed.
+ */
+export interface PresenceSnapshot {
+  users: UserPresence[];
+  hidden: string[];
+}
+
+/**
+ * Payload of the generic `error` event, sent when an inbound event is
+ * rejected before reaching its handler.
+ */
+export interface SocketErrorPayload {
+  code: string; // machine-readable, e.g. "INVALID_PAYLOAD"
+  event: string; // the rejected client event
+  path?: string; // location of the offending value, e.g. "args[0].msg"
+  message: string;
+}
+
+/**
+ * Payload of `rate_limited`, sent when an event exceeds its budget.
+ */
+export interface RateLimitedPayload {
+  event: string;
+  retryAfterMs: number;
+  message: string;
+}
+
+/**
+ * Protocol version negotiated during the handshake.
+ */
+export interface ProtocolInfo {
+  version: number;
+  minSupported: number;
+}
+
 // ===== Socket Event Maps for Type Safety =====
 
 /**
  * Socket.IO events that the server can emit to connected clients.
  *
- * Keeping this interface in sync with the actual `io.emit`/`socket.emit`
- * calls in `index.ts` gives us end‑to‑end type safety for real‑time flows.
+ * This map is enforced by the typed `Server` instance in `server.ts`: an
+ * `emit` whose name or payload does not match fails to compile.
  */
 export interface ServerToClientEvents {
-  // User connection events
-  usersOnline: (users: OnlineUser[]) => void;
+  // Handshake & errors
+  protocol_version: (info: ProtocolInfo) => void;
+  error: (payload: SocketErrorPayload) => void;
+  rate_limited: (payload: RateLimitedPayload) => void;
+
+  // Presence events
+  usersOnline: (users: RoomUser[]) => void;
+  number_usersOnline: (count: number) => void;
+  room_users: (userIds: string[]) => void;
+  joins_users: (users: JWTUser[]) => void;
+  joins_in_room_error: (response: ActionResult & { userId?: string }) => void;
+  presence_updated: (presence: UserPresence) => void;
+  presence_error: (response: ActionResult & { code: string }) => void;
 
   // Room events
-  join_room_success: (response: RoomActionResponse) => void;
+  join_room_success: (response: JoinRoomSuccessPayload) => void;
   join_room_error: (response: RoomActionResponse) => void;
+  user_joined: (payload: UserJoinedPayload) => void;
   userLeft: (response: RoomActionResponse) => void;
   userDisconnected: (response: RoomActionResponse) => void;
+  disconect_error: (response: ActionResult & { user: null }) => void;
+  room_ended: (payload: RoomEndedPayload) => void;
+  session_resumed: (payload: SessionResumedPayload) => void;
+  room_updated: (payload: RoomUpdatedPayload) => void;
+  room_error: (response: ActionResult & { code: string }) => void;
+  role_changed: (payload: RoleChangedPayload) => void;
+  role_error: (response: ActionResult & { code: string }) => void;
 
   // Message events
-  newMessage: (message: ReceiveMessagePayload) => void;
-  receiveMessage: (message: ReceiveMessagePayload) => void;
+  message_success: (message: ChatMessagePayload) => void;
+  new_success: (message: ChatMessagePayload) => void;
+  message_error: (response: ActionResult) => void;
+  message_edited: (payload: MessageEditedPayload) => void;
+  edit_message_error: (response: ActionResult) => void;
+  message_deleted: (payload: MessageDeletedPayload) => void;
+  delete_message_error: (response: ActionResult) => void;
+  thread_updated: (payload: ThreadUpdatedPayload) => void;
+  load_history_success: (page: MessageHistoryPage) => void;
+  load_history_error: (response: ActionResult) => void;
+  load_thread_success: (page: ThreadPage) => void;
+  load_thread_error: (response: ActionResult) => void;
+  reaction_updated: (payload: ReactionUpdatedPayload) => void;
+  reaction_error: (response: ActionResult) => void;
+  read_receipt: (payload: ReadReceiptPayload) => void;
+  mark_read_error: (response: ActionResult) => void;
+  user_typing: (payload: UserTypingPayload) => void;
+
+  // Media & WebRTC events
+  user_media_changed: (payload: UserMediaChangedPayload) => void;
+  webrtc_offer: (payload: RelayedDescriptionPayload) => void;
+  webrtc_answer: (payload: RelayedDescriptionPayload) => void;
+  webrtc_ice_candidate: (payload: RelayedCandidatePayload) => void;
+  signal_error: (payload: SignalErrorPayload) => void;
+
+  // Access events
+  send_access: (payload: AccessRequestPayload) => void;
+  access_requests: (payload: AccessRequestQueuePayload) => void;
+  access_request_updated: (payload: { roomId: string; request: AccessRequest }) => void;
+  access_request_error: (response: ActionResult & { code: string }) => void;
+  access_granted: (payload: AccessDecisionPayload) => void;
+  access_denied: (payload: AccessDecisionPayload) => void;
+  access_revoked: (payload: AccessDecisionPayload) => void;
+  grant_access_success: (response: ActionResult) => void;
+  grant_access_error: (response: ActionResult & { code?: string }) => void;
+
+  // Invite events
+  invite_error: (response: ActionResult & { code: string }) => void;
+
+  // Lobby events
+  lobby_updated: (payload: LobbyUpdatedPayload) => void;
+  lobby_waiting: (payload: { roomId: string; message: string }) => void;
+  lobby_rejected: (payload: { roomId: string; message: string }) => void;
+  lobby_error: (response: ActionResult & { code: string }) => void;
+
+  // Moderation events
+  moderation_notice: (payload: ModerationNoticePayload) => void;
+  moderation_audit: (payload: ModerationAuditPayload) => void;
+  moderation_error: (response: ActionResult & { code: string }) => void;
 }
 
 /**
  * Socket.IO events that clients are allowed to emit to the server.
  */
 export interface ClientToServerEvents {
-  // User events
-  newUser: (userId: string) => void;
-  
   // Room events
-  join_room: (roomId: string) => void;
-  leaveRoom: (payload: LeaveRoomPayload) => void;
-  
+  join_room: (
+    payload: string | JoinRoomInvitePayload,
+    ack?: AckCallback<JoinRoomSuccessPayload>
+  ) => void;
+  leaveRoom: (payload?: LeaveRoomPayload, ack?: AckCallback) => void;
+  end_room: (payload?: EndRoomPayload, ack?: AckCallback<RoomDetails>) => void;
+  create_room: (
+    payload: CreateRoomPayload,
+    ack?: AckCallback<RoomDetails>
+  ) => void;
+  update_room: (
+    payload: UpdateRoomPayload,
+    ack?: AckCallback<RoomDetails>
+  ) => void;
+  archive_room: (
+    payload: ArchiveRoomPayload,
+    ack?: AckCallback<RoomDetails>
+  ) => void;
+  delete_room: (
+    payload: DeleteRoomPayload,
+    ack?: AckCallback<RoomDetails>
+  ) => void;
+  promote: (payload: PromotePayload, ack?: AckCallback<RoleChangedPayload>) => void;
+  demote: (payload: DemotePayload, ack?: AckCallback<RoleChangedPayload>) => void;
+
+  // Presence events
+  joins_in_room: (roomId: string) => void;
+  joins: () => void;
+  set_presence: (
+    payload: SetPresencePayload,
+    ack?: AckCallback<UserPresence>
+  ) => void;
+  subscribe_presence: (
+    payload: PresenceSubscriptionPayload,
+    ack?: AckCallback<PresenceSnapshot>
+  ) => void;
+  unsubscribe_presence: (
+    payload: PresenceSubscriptionPayload,
+    ack?: AckCallback
+  ) => void;
+
   // Message events
-  sendMessage: (payload: SendMessagePayload) => void;
-  
-  // Disconnection
-  disconnect: () => void;
+  message: (
+    payload: SendMessagePayload,
+    ack?: AckCallback<ChatMessagePayload & { duplicate: boolean }>
+  ) => void;
+  edit_message: (payload: EditMessagePayload) => void;
+  delete_message: (payload: DeleteMessagePayload) => void;
+  load_history: (payload?: LoadHistoryPayload) => void;
+  load_thread: (payload: LoadThreadPayload) => void;
+  add_reaction: (payload: ReactionPayload) => void;
+  remove_reaction: (payload: ReactionPayload) => void;
+  mark_read: (payload: MarkReadPayload) => void;
+  typing_start: (payload?: TypingPayload) => void;
+  typing_stop: () => void;
+
+  // Media & WebRTC events
+  media_state_changed: (payload: MediaStatePayload) => void;
+  webrtc_offer: (payload: WebRTCDescriptionPayload, ack?: AckCallback<SignalAck>) => void;
+  webrtc_answer: (payload: WebRTCDescriptionPayload, ack?: AckCallback<SignalAck>) => void;
+  webrtc_ice_candidate: (
+    payload: WebRTCCandidatePayload,
+    ack?: AckCallback<SignalAck>
+  ) => void;
+
+  // Access events
+  send_access: (
+    payload: string | SendAccessPayload,
+    ack?: AckCallback<AccessRequest>
+  ) => void;
+  grant_access: (payload: GrantAccessPayload, ack?: AckCallback) => void;
+  deny_access: (payload: DenyAccessPayload, ack?: AckCallback<AccessRequest>) => void;
+
+  // Invite events
+  create_invite: (
+    payload: CreateInvitePayload,
+    ack?: AckCallback<CreatedInvite>
+  ) => void;
+  list_invites: (payload: ListInvitesPayload, ack?: AckCallback<RoomInvite[]>) => void;
+  revoke_invite: (payload: RevokeInvitePayload, ack?: AckCallback<RoomInvite>) => void;
+
+  // Lobby events
+  lobby_admit: (
+    payload: LobbyActionPayload,
+    ack?: AckCallback<{ userIds: string[] }>
+  ) => void;
+  lobby_reject: (
+    payload: LobbyActionPayload,
+    ack?: AckCallback<{ userIds: string[] }>
+  ) => void;
+
+  // Moderation events
+  kick_user: (payload: ModerateUserPayload, ack?: AckCallback<AuditEntry>) => void;
+  ban_user: (payload: ModerateUserPayload, ack?: AckCallback<AuditEntry>) => void;
+  unban_user: (payload: UnbanUserPayload, ack?: AckCallback<AuditEntry>) => void;
+  lock_room: (payload: LockRoomPayload, ack?: AckCallback<RoomDetails>) => void;
+  request_mute: (
+    payload: MuteRequestPayload,
+    ack?: AckCallback<{ userIds: string[] }>
+  ) => void;
+}
+
+/**
+ * Events exchanged between server instances through the cluster adapter
+ * (`io.serverSideEmit`).
+ */
+export interface InterServerEvents {
+  /** A node started processing a join; other nodes reject duplicates of it. */
+  join_pending: (userId: string, roomId: string, startedAt: number) => void;
+  /** The join finished or failed; the user may join again. */
+  join_cleared: (userId: string, roomId: string) => void;
+  /** Users were admitted from a lobby; their nodes complete the joins. */
+  lobby_admitted: (roomId: string, userIds: string[]) => void;
+  /** Users were turned away from a lobby; their nodes drop the pending joins. */
+  lobby_rejected: (roomId: string, userIds: string[]) => void;
+  /** A WebRTC offer or answer was relayed; other nodes update the pair's state. */
+  signal_described: (
+    roomId: string,
+    senderId: string,
+    targetUserId: string,
+    type: "offer" | "answer"
+  ) => void;
+  /** A user left a call (null: everyone); other nodes forget their pairs. */
+  signal_peer_left: (roomId: string, userId: string | null) => void;
 }
 
 /**
@@ -189,5 +1345,11 @@ export interface SocketData {
   user?: JWTUser;
   userId?: string;
   roomId?: string;
+  protocolVersion?: number;
+  /** Set while the socket waits in the lobby of a room. */
+  lobby?: LobbyEntry;
+  /** Last media state reported with `media_state_changed`. */
+  media?: MediaStatePayload;
+  /** Status of this socket, `online` on connection. */
+  presence?: SocketPresence;
 }
-
@@ -0,0 +1,237 @@
+/**
+ * Access Request Integration Tests
+ * Persisted requests, the pending queue, deny, expiry and revoking access.
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  startTestServer,
+  api,
+  nextEvent,
+  recordEvents,
+  settle,
+  joinRoom,
+  publicRoom,
+  privateRoom,
+  type TestServer,
+} from "./helpers";
+
+describe("access requests", () => {
+  let server: TestServer;
+
+  before(async () => {
+    const past = new Date(Date.now() - 60_000).toISOString();
+
+    server = await startTestServer({
+      rooms: [
+        privateRoom("queue", "1"),
+        privateRoom("stale", "2"),
+        privateRoom("guarded", "3"),
+        { ...privateRoom("ranked", "4"), roles: { "40": "admin", "41": "admin" } },
+        publicRoom("open"),
+      ],
+      accessRequests: [
+        {
+          id: "old-request",
+          roomId: "stale",
+          userId: "20",
+          status: "pending",
+          message: null,
+          requestedAt: new Date(Date.now() - 120_000).toISOString(),
+          expiresAt: past,
+          resolvedAt: null,
+          resolvedBy: null,
+        },
+      ],
+    });
+  });
+
+  after(() => server.close());
+
+  it("keeps requests until an admin joins and sends them the queue", async () => {
+    const guest = await server.connectAs("10");
+
+    const ack = await guest.timeout(2000).emitWithAck("send_access", {
+      roomId: "queue",
+      message: "Soy del equipo",
+    });
+    assert.equal(ack.success, true);
+    assert.equal(ack.data?.status, "pending");
+
+    // Asking again returns the same request
+    const again = await guest.timeout(2000).emitWithAck("send_access", "queue");
+    assert.equal(again.data?.id, ack.data?.id);
+
+    const admin = await server.connectAs("1");
+    const queue = nextEvent(admin, "access_requests");
+    await joinRoom(admin, "queue");
+
+    const { requests } = await queue;
+    assert.equal(requests.length, 1);
+    assert.equal(requests[0].userId, "10");
+    assert.equal(requests[0].message, "Soy del equipo");
+  });
+
+  it("tells the requester by user ID when access is granted", async () => {
+    const admin = await server.connectAs("1");
+    await joinRoom(admin, "queue");
+    const guest = await server.connectAs("11");
+
+    const request = nextEvent(admin, "send_access");
+    await guest.timeout(2000).emitWithAck("send_access", "queue");
+    assert.equal((await request).request.userId, "11");
+
+    // The guest is not in the room, yet gets the answer
+    const granted = nextEvent(guest, "access_granted");
+    const updated = nextEvent(admin, "access_request_updated");
+    await admin
+      .timeout(2000)
+      .emitWithAck("grant_access", { roomId: "queue", targetUserId: "11" });
+
+    assert.equal((await granted).roomId, "queue");
+    assert.equal((await updated).request.status, "approved");
+    assert.equal((await joinRoom(guest, "queue")).success, true);
+  });
+
+  it("denies requests and notifies the requester", async () => {
+    const admin = await server.connectAs("1");
+    await joinRoom(admin, "queue");
+    const guest = await server.connectAs("12");
+    await guest.timeout(2000).emitWithAck("send_access", "queue");
+
+    const denied = nextEvent(guest, "access_denied");
+    const ack = await admin.timeout(2000).emitWithAck("deny_access", {
+      roomId: "queue",
+      targetUserId: "12",
+      reason: "Sala completa",
+    });
+
+    assert.equal(ack.success, true);
+    assert.equal(ack.data?.status, "denied");
+    assert.equal(ack.data?.resolvedBy, "1");
+    assert.equal((await denied).message, "Sala completa");
+
+    const twice = await admin
+      .timeout(2000)
+      .emitWithAck("deny_access", { roomId: "queue", targetUserId: "12" });
+    assert.equal(twice.code, "REQUEST_NOT_FOUND");
+  });
+
+  it("only lets users who can grant access deny requests", async () => {
+    const admin = await server.connectAs("1");
+    await joinRoom(admin, "queue");
+    await admin
+      .timeout(2000)
+      .emitWithAck("grant_access", { roomId: "queue", targetUserId: "14" });
+
+    const guest = await server.connectAs("13");
+    await guest.timeout(2000).emitWithAck("send_access", "queue");
+    const member = await server.connectAs("14");
+    await joinRoom(member, "queue");
+
+    const ack = await member
+      .timeout(2000)
+      .emitWithAck("deny_access", { roomId: "queue", targetUserId: "13" });
+
+    assert.equal(ack.success, false);
+    assert.equal(ack.code, "FORBIDDEN");
+  });
+
+  it("expires requests nobody answered in time", async () => {
+    const admin = await server.connectAs("2");
+    const queue = nextEvent(admin, "access_requests");
+    await joinRoom(admin, "stale");
+    assert.deepEqual((await queue).requests, []);
+
+    // A new request replaces the expired one
+    const guest = await server.connectAs("20");
+    const ack = await guest.timeout(2000).emitWithAck("send_access", "stale");
+    assert.notEqual(ack.data?.id, "old-request");
+  });
+
+  it("refuses requests from users who can already enter", async () => {
+    const user = await server.connectAs("21");
+    const error = nextEvent(user, "access_request_error");
+
+    const ack = await user.timeout(2000).emitWithAck("send_access", "open");
+
+    assert.equal(ack.code, "ALREADY_MEMBER");
+    assert.equal((await error).code, "ALREADY_MEMBER");
+  });
+
+  describe("REST API", () => {
+    it("lists the pending queue for admins only", async () => {
+      const guest = await server.connectAs("30");
+      await guest.timeout(2000).emitWithAck("send_access", "guarded");
+
+      const listed = await api(server, "3", "GET", "/rooms/guarded/access-requests");
+      assert.equal(listed.status, 200);
+      assert.deepEqual(
+        listed.body.requests.map((r: { userId: string }) => r.userId),
+        ["30"]
+      );
+
+      const forbidden = await api(server, "30", "GET", "/rooms/guarded/access-requests");
+      assert.equal(forbidden.status, 403);
+    });
+
+    it("revokes access and removes the user from the room", async () => {
+      const admin = await server.connectAs("3");
+      await joinRoom(admin, "guarded");
+      await admin
+        .timeout(2000)
+        .emitWithAck("grant_access", { roomId: "guarded", targetUserId: "31" });
+
+      const member = await server.connectAs("31");
+      await joinRoom(member, "guarded");
+
+      const forbidden = await api(server, "31", "DELETE", "/rooms/guarded/access/31");
+      assert.equal(forbidden.status, 403);
+
+      const revoked = nextEvent(member, "access_revoked");
+      const messages = recordEvents(member, "new_success");
+      const res = await api(server, "3", "DELETE", "/rooms/guarded/access/31");
+
+      assert.equal(res.status, 200);
+      assert.equal((await revoked).roomId, "guarded");
+
+      admin.emit("message", { msg: "ya no lo ves", visibility: "public" });
+      await settle();
+      assert.deepEqual(messages(), []);
+      assert.equal((await joinRoom(member, "guarded")).code, "ACCESS_DENIED");
+
+      const missing = await api(server, "3", "DELETE", "/rooms/guarded/access/31");
+      assert.equal(missing.status, 404);
+    });
+
+    it("only revokes the access of users of a lower role", async () => {
+      const own = await api(server, "40", "DELETE", "/rooms/ranked/access/40");
+      assert.equal(own.status, 400);
+      assert.equal(own.body.code, "INVALID_TARGET");
+
+      const peer = await api(server, "40", "DELETE", "/rooms/ranked/access/41");
+      assert.equal(peer.status, 403);
+
+      const owner = await api(server, "40", "DELETE", "/rooms/ranked/access/4");
+      assert.equal(owner.status, 403);
+    });
+
+    it("leaves no grant behind when access was granted twice", async () => {
+      const admin = await server.connectAs("3");
+      await joinRoom(admin, "guarded");
+      for (let i = 0; i < 2; i++) {
+        const ack = await admin
+          .timeout(2000)
+          .emitWithAck("grant_access", { roomId: "guarded", targetUserId: "32" });
+        assert.equal(ack.success, true);
+      }
+
+      const res = await api(server, "3", "DELETE", "/rooms/guarded/access/32");
+      assert.equal(res.status, 200);
+
+      const member = await server.connectAs("32");
+      assert.equal((await joinRoom(member, "guarded")).code, "ACCESS_DENIED");
+    });
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Attendance Integration Tests
+ * Session records of joins and leaves, and the REST attendance reports.
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  startTestServer,
+  api,
+  joinRoom,
+  publicRoom,
+  type TestServer,
+} from "./helpers";
+import { getStore } from "../src/repositories";
+
+describe("attendance", () => {
+  let server: TestServer;
+
+  const at = (time: string) => `2026-03-02T${time}:00.000Z`;
+  const session = (id: string, userId: string, joined: string, left: string) => ({
+    id,
+    userId,
+    roomId: "history",
+    joinedAt: at(joined),
+    leftAt: at(left),
+  });
+
+  before(async () => {
+    server = await startTestServer({
+      rooms: [publicRoom("class", "1"), publicRoom("history", "1")],
+      connections: [
+        session("a", "20", "09:00", "09:30"),
+        session("b", "20", "09:45", "10:00"),
+        session("c", "21", "08:50", "09:20"),
+        session("d", "21", "09:10", "09:15"), // overlaps the one above
+        session("e", "22", "11:00", "12:00"), // after the class
+      ],
+    });
+  });
+
+  after(() => server.close());
+
+  it("keeps one record per stay in the room", async () => {
+    const host = await server.connectAs("1");
+    await joinRoom(host, "class");
+    const laptop = await server.connectAs("10");
+    await joinRoom(laptop, "class");
+    const first = await getStore().connections.findActive("class", "10");
+
+    // A second tab continues the same session
+    const phone = await server.connectAs("10");
+    await joinRoom(phone, "class");
+    const same = await getStore().connections.findActive("class", "10");
+    assert.equal(same?.id, first?.id);
+    assert.equal(same?.joinedAt, first?.joinedAt);
+
+    await laptop.timeout(2000).emitWithAck("leaveRoom");
+    await phone.timeout(2000).emitWithAck("leaveRoom");
+    await joinRoom(laptop, "class");
+
+    const sessions = (await getStore().connections.listByRoom("class")).filter(
+      (c) => c.userId === "10"
+    );
+    assert.equal(sessions.length, 2);
+    assert.equal(sessions.filter((c) => c.leftAt === null).length, 1);
+  });
+
+  describe("REST API", () => {
+    const window = `from=${at("09:00")}&to=${at("10:00")}`;
+
+    it("reports the time of each participant within the window", async () => {
+      const res = await api(server, "1", "GET", `/rooms/history/attendance?${window}`);
+      assert.equal(res.status, 200);
+      const { report } = res.body;
+
+      assert.deepEqual(report.meeting, {
+        firstJoinAt: at("08:50"),
+        lastLeftAt: at("10:00"),
+        durationSeconds: 45 * 60,
+        participants: 2,
+        sessions: 4,
+        totalSeconds: 65 * 60,
+      });
+      assert.deepEqual(
+        report.participants.map((p: { userId: string; totalSeconds: number }) => [
+          p.userId,
+          p.totalSeconds,
+        ]),
+        [
+          ["21", 20 * 60],
+          ["20", 45 * 60],
+        ]
+      );
+      assert.equal(report.participants[1].sessions.length, 2);
+      assert.equal(report.truncated, false);
+    });
+
+    it("exports the participants as CSV", async () => {
+      const res = await api(
+        server,
+        "1",
+        "GET",
+        `/rooms/history/attendance?${window}&format=csv`
+      );
+      assert.equal(res.status, 200);
+      assert.match(res.headers.get("content-type") ?? "", /^text\/csv/);
+
+      const lines = res.body.trim().split("\r\n");
+      assert.deepEqual(lines, [
+        "userId,firstJoinAt,lastLeftAt,totalSeconds,sessions",
+        `21,${at("08:50")},${at("09:20")},1200,2`,
+        `20,${at("09:00")},${at("10:00")},2700,2`,
+      ]);
+    });
+
+    it("is limited to hosts and valid windows", async () => {
+      const forbidden = await api(server, "20", "GET", "/rooms/history/attendance");
+      assert.equal(forbidden.status, 403);
+      const missing = await api(server, "1", "GET", "/rooms/nowhere/attendance");
+      assert.equal(missing.status, 404);
+
+      const invalid = await api(
+        server,
+        "1",
+        "GET",
+        "/rooms/history/attendance?from=ayer"
+      );
+      assert.equal(invalid.status, 400);
+      assert.equal(invalid.body.code, "INVALID_PAYLOAD");
+
+      const reversed = await api(
+        server,
+        "1",
+        "GET",
+        `/rooms/history/attendance?from=${at("10:00")}&to=${at("09:00")}`
+      );
+      assert.equal(reversed.status, 400);
+    });
+  });
+});
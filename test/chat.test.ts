@@ -0,0 +1,340 @@
+/**
+ * Chat Server Integration Tests
+ * Drives real Socket.IO clients against an in-process server backed by the
+ * in-memory store.
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  startTestServer,
+  nextEvent,
+  recordEvents,
+  settle,
+  joinRoom,
+  publicRoom,
+  privateRoom,
+  type TestServer,
+} from "./helpers";
+
+describe("chat server", () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer({
+      rooms: [
+        publicRoom("lobby"),
+        publicRoom("calls"),
+        publicRoom("finale"),
+        privateRoom("vip", "1"),
+      ],
+    });
+  });
+
+  after(() => server.close());
+
+  describe("authentication", () => {
+    it("rejects connections without a valid token", async () => {
+      const { io } = await import("socket.io-client");
+      const client = io(server.url, {
+        auth: { token: "not-a-token" },
+        transports: ["websocket"],
+        reconnection: false,
+        forceNew: true,
+      });
+
+      const error = await new Promise<Error>((resolve) =>
+        client.once("connect_error", resolve)
+      );
+      client.disconnect();
+
+      assert.equal(error.message, "Invalid authentication token");
+    });
+
+    it("serves the health check", async () => {
+      const res = await fetch(`${server.url}/health`);
+      assert.equal(res.status, 200);
+      assert.equal((await res.json()).status, "ok");
+    });
+  });
+
+  describe("joining rooms", () => {
+    it("joins a public room and announces the user to the others", async () => {
+      const alice = await server.connectAs("11");
+      const bob = await server.connectAs("12");
+
+      const first = await joinRoom(alice, "lobby");
+      assert.equal(first.success, true);
+      assert.equal(first.data?.roomId, "lobby");
+
+      const joined = nextEvent(alice, "user_joined");
+      const online = nextEvent(alice, "number_usersOnline");
+      const second = await joinRoom(bob, "lobby");
+
+      assert.equal(second.success, true);
+      assert.equal((await joined).user.id, "12");
+      assert.equal(await online, 2);
+    });
+
+    it("fails with ROOM_NOT_FOUND for unknown rooms", async () => {
+      const carol = await server.connectAs("13");
+      const error = nextEvent(carol, "join_room_error");
+
+      const ack = await joinRoom(carol, "nowhere");
+
+      assert.equal(ack.success, false);
+      assert.equal(ack.code, "ROOM_NOT_FOUND");
+      assert.equal((await error).success, false);
+    });
+
+    it("refuses private rooms without access and disconnects the socket", async () => {
+      const mallory = await server.connectAs("14");
+      const disconnected = new Promise((resolve) =>
+        mallory.once("disconnect", resolve)
+      );
+
+      const ack = await joinRoom(mallory, "vip");
+
+      assert.equal(ack.success, false);
+      assert.equal(ack.code, "ACCESS_DENIED");
+      await disconnected;
+    });
+  });
+
+  describe("messages", () => {
+    it("broadcasts public messages to the room", async () => {
+      const alice = await server.connectAs("21");
+      const bob = await server.connectAs("22");
+      await joinRoom(alice, "lobby");
+      await joinRoom(bob, "lobby");
+
+      const received = nextEvent(bob, "new_success");
+      const echoed = nextEvent(alice, "message_success");
+      const ack = await alice
+        .timeout(2000)
+        .emitWithAck("message", { msg: "hola", visibility: "public" });
+
+      assert.equal(ack.success, true);
+      assert.equal((await received).content, "hola");
+      assert.equal((await echoed).id, ack.data?.id);
+    });
+
+    it("delivers private messages only to their targets", async () => {
+      const alice = await server.connectAs("31");
+      const bob = await server.connectAs("32");
+      const eve = await server.connectAs("33");
+      await joinRoom(alice, "lobby");
+      await joinRoom(bob, "lobby");
+      await joinRoom(eve, "lobby");
+
+      const eveMessages = recordEvents(eve, "message_success");
+      const eveBroadcasts = recordEvents(eve, "new_success");
+      const received = nextEvent(bob, "message_success");
+
+      const ack = await alice.timeout(2000).emitWithAck("message", {
+        msg: "solo para bob",
+        visibility: "private",
+        target: [{ userId: "32" }],
+      });
+
+      assert.equal(ack.success, true);
+      assert.equal((await received).content, "solo para bob");
+      await settle();
+      assert.deepEqual(eveMessages(), []);
+      assert.deepEqual(eveBroadcasts(), []);
+    });
+
+    it("reports message errors only to the sender", async () => {
+      const alice = await server.connectAs("41");
+      const bob = await server.connectAs("42");
+      await joinRoom(alice, "lobby");
+      await joinRoom(bob, "lobby");
+
+      const bobErrors = recordEvents(bob, "message_error");
+      const error = nextEvent(alice, "message_error");
+
+      const ack = await alice.timeout(2000).emitWithAck("message", {
+        msg: "respuesta",
+        visibility: "public",
+        replyTo: "missing-message",
+      });
+
+      assert.equal(ack.success, false);
+      assert.equal(ack.code, "INVALID_REFERENCE");
+      assert.equal((await error).success, false);
+      await settle();
+      assert.deepEqual(bobErrors(), []);
+    });
+
+    it("does not store a retried send twice", async () => {
+      const alice = await server.connectAs("51");
+      await joinRoom(alice, "lobby");
+
+      const payload = {
+        msg: "una vez",
+        visibility: "public" as const,
+        clientMessageId: "retry-1",
+      };
+      const first = await alice.timeout(2000).emitWithAck("message", payload);
+      const retry = await alice.timeout(2000).emitWithAck("message", payload);
+
+      assert.equal(first.data?.duplicate, false);
+      assert.equal(retry.data?.duplicate, true);
+      assert.equal(retry.data?.id, first.data?.id);
+    });
+  });
+
+  describe("access requests", () => {
+    it("forwards requests to the admins and lets granted users in", async () => {
+      const admin = await server.connectAs("1");
+      assert.equal((await joinRoom(admin, "vip")).success, true);
+
+      const guest = await server.connectAs("61");
+      const request = nextEvent(admin, "send_access");
+      guest.emit("send_access", "vip");
+
+      const { userId } = await request;
+      assert.equal(userId, "61");
+
+      const granted = await admin
+        .timeout(2000)
+        .emitWithAck("grant_access", { roomId: "vip", targetUserId: userId });
+      assert.equal(granted.success, true);
+
+      assert.equal((await joinRoom(guest, "vip")).success, true);
+    });
+
+    it("only lets admins grant access", async () => {
+      const admin = await server.connectAs("1");
+      await joinRoom(admin, "vip");
+      const member = await server.connectAs("62");
+      await admin
+        .timeout(2000)
+        .emitWithAck("grant_access", { roomId: "vip", targetUserId: "62" });
+      await joinRoom(member, "vip");
+
+      const ack = await member
+        .timeout(2000)
+        .emitWithAck("grant_access", { roomId: "vip", targetUserId: "63" });
+
+      assert.equal(ack.success, false);
+      assert.equal(ack.code, "FORBIDDEN");
+    });
+  });
+
+  describe("WebRTC signaling", () => {
+    it("relays offers, answers and candidates to the target only", async () => {
+      const alice = await server.connectAs("71");
+      const bob = await server.connectAs("72");
+      const eve = await server.connectAs("73");
+      await joinRoom(alice, "calls");
+      await joinRoom(bob, "calls");
+      await joinRoom(eve, "calls");
+
+      const eveOffers = recordEvents(eve, "webrtc_offer");
+
+      const offer = nextEvent(bob, "webrtc_offer");
+      alice.emit("webrtc_offer", {
+        roomId: "calls",
+        targetUserId: "72",
+        sdp: { type: "offer", sdp: "v=0" },
+      });
+      assert.deepEqual(await offer, {
+        senderId: "71",
+        sdp: { type: "offer", sdp: "v=0" },
+        polite: true,
+      });
+
+      const answer = nextEvent(alice, "webrtc_answer");
+      bob.emit("webrtc_answer", {
+        roomId: "calls",
+        targetUserId: "71",
+        sdp: { type: "answer", sdp: "v=0" },
+      });
+      assert.equal((await answer).senderId, "72");
+
+      const candidate = nextEvent(bob, "webrtc_ice_candidate");
+      alice.emit("webrtc_ice_candidate", {
+        roomId: "calls",
+        targetUserId: "72",
+        candidate: { candidate: "candidate:1", sdpMid: "0", sdpMLineIndex: 0 },
+      });
+      assert.equal((await candidate).candidate.candidate, "candidate:1");
+
+      await settle();
+      assert.deepEqual(eveOffers(), []);
+    });
+
+    it("refuses signals for rooms the sender is not in", async () => {
+      const target = await server.connectAs("74");
+      const outsider = await server.connectAs("75");
+      await joinRoom(target, "calls");
+      await joinRoom(outsider, "lobby");
+
+      const offers = recordEvents(target, "webrtc_offer");
+      const error = nextEvent(outsider, "signal_error");
+      outsider.emit("webrtc_offer", {
+        roomId: "calls",
+        targetUserId: "74",
+        sdp: { type: "offer", sdp: "v=0" },
+      });
+
+      assert.deepEqual(await error, {
+        success: false,
+        message: "Debes estar en la sala para enviar señales",
+        code: "NOT_IN_ROOM",
+        event: "webrtc_offer",
+        targetUserId: "74",
+      });
+      await settle();
+      assert.deepEqual(offers(), []);
+    });
+  });
+
+  describe("leaving", () => {
+    it("announces users that leave the room", async () => {
+      const alice = await server.connectAs("81");
+      const bob = await server.connectAs("82");
+      await joinRoom(alice, "lobby");
+      await joinRoom(bob, "lobby");
+
+      const left = nextEvent(alice, "userLeft");
+      const ack = await bob.timeout(2000).emitWithAck("leaveRoom", {
+        roomId: "lobby",
+        userId: "82",
+      });
+
+      assert.equal(ack.success, true);
+      assert.equal((await left).user?.id, "82");
+    });
+
+    it("announces users that disconnect", async () => {
+      const alice = await server.connectAs("83");
+      const bob = await server.connectAs("84");
+      await joinRoom(alice, "lobby");
+      await joinRoom(bob, "lobby");
+
+      const gone = nextEvent(alice, "userDisconnected");
+      bob.disconnect();
+
+      assert.equal((await gone).user?.id, "84");
+    });
+
+    it("ends the room for every participant", async () => {
+      const host = await server.connectAs("1");
+      const guest = await server.connectAs("92");
+      await joinRoom(host, "finale");
+      await joinRoom(guest, "finale");
+
+      const ended = nextEvent(guest, "room_ended");
+      host.emit("end_room");
+      assert.equal((await ended).roomId, "finale");
+
+      // Sockets were removed from the room: later messages are refused
+      const ack = await guest
+        .timeout(2000)
+        .emitWithAck("message", { msg: "¿hola?", visibility: "public" });
+      assert.equal(ack.success, false);
+    });
+  });
+});
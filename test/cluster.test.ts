@@ -0,0 +1,155 @@
+/**
+ * Cluster Integration Tests
+ * Two chat servers sharing a store and an in-process broker, as two
+ * replicas behind a load balancer would share Firestore and Redis.
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  startTestServer,
+  nextEvent,
+  settle,
+  joinRoom,
+  publicRoom,
+  type TestClient,
+  type TestServer,
+} from "./helpers";
+import { createInMemoryStore } from "../src/repositories";
+import {
+  createBrokerAdapter,
+  createLocalBroker,
+  type ClusterBroker,
+} from "../src/config/cluster";
+
+/**
+ * Wraps a broker so the node using it can be cut off, as if its process
+ * hung: it stops publishing and hearing messages, without saying goodbye.
+ */
+const crashableBroker = (broker: ClusterBroker) => {
+  let down = false;
+  const wrapped = new Map<(message: string) => void, (message: string) => void>();
+
+  return {
+    broker: {
+      publish: (channel, message) =>
+        down ? Promise.resolve() : broker.publish(channel, message),
+      subscribe: (channel, listener) => {
+        const guarded = (message: string) => {
+          if (!down) listener(message);
+        };
+        wrapped.set(listener, guarded);
+        return broker.subscribe(channel, guarded);
+      },
+      unsubscribe: (channel, listener) =>
+        broker.unsubscribe(channel, wrapped.get(listener) ?? listener),
+    } satisfies ClusterBroker,
+    crash: () => {
+      down = true;
+    },
+  };
+};
+
+describe("cluster", () => {
+  let nodeA: TestServer;
+  let nodeB: TestServer;
+  let nodeC: TestServer;
+  let crashNodeC: () => void;
+  const clients: TestClient[] = [];
+
+  /**
+   * Connects `userId` to `node` and joins `roomId`.
+   */
+  const joinOn = async (node: TestServer, userId: string, roomId: string) => {
+    const client = await node.connectAs(userId);
+    clients.push(client);
+    await joinRoom(client, roomId);
+    return client;
+  };
+
+  before(async () => {
+    const store = createInMemoryStore({
+      rooms: [
+        publicRoom("mesh", "1"),
+        publicRoom("plaza", "2"),
+        publicRoom("hall", "30"),
+      ],
+    });
+    const broker = createLocalBroker();
+    const faulty = crashableBroker(broker);
+    crashNodeC = faulty.crash;
+
+    // Short lookups, so the test does not wait long on the crashed node
+    const node = (nodeBroker: ClusterBroker) =>
+      startTestServer(
+        {},
+        { store, adapter: createBrokerAdapter(nodeBroker), clusterTimeoutMs: 200 }
+      );
+    nodeA = await node(broker);
+    nodeB = await node(broker);
+    nodeC = await node(faulty.broker);
+    // Let the adapters announce themselves to each other
+    await settle();
+  });
+
+  after(async () => {
+    // Leave while both nodes can still answer each other's presence checks
+    for (const client of clients) client.disconnect();
+    await settle();
+    await Promise.all([nodeA.close(), nodeB.close(), nodeC.close()]);
+  });
+
+  it("relays an offer to a peer connected to the other node", async () => {
+    const caller = await joinOn(nodeA, "10", "mesh");
+    const callee = await joinOn(nodeB, "11", "mesh");
+
+    const offered = nextEvent(callee, "webrtc_offer");
+    const ack = await caller.timeout(2000).emitWithAck("webrtc_offer", {
+      roomId: "mesh",
+      targetUserId: "11",
+      sdp: { type: "offer", sdp: "v=0 offer" },
+    });
+
+    assert.equal(ack.success, true);
+    const offer = await offered;
+    assert.equal(offer.senderId, "10");
+    assert.equal(offer.sdp.sdp, "v=0 offer");
+
+    // The answer goes back through the other node's signaling state
+    const answered = nextEvent(caller, "webrtc_answer");
+    const reply = await callee.timeout(2000).emitWithAck("webrtc_answer", {
+      roomId: "mesh",
+      targetUserId: "10",
+      sdp: { type: "answer", sdp: "v=0 answer" },
+    });
+    assert.equal(reply.success, true);
+    assert.equal((await answered).senderId, "11");
+  });
+
+  it("broadcasts room messages to participants on both nodes", async () => {
+    const sender = await joinOn(nodeA, "20", "plaza");
+    const listener = await joinOn(nodeB, "21", "plaza");
+
+    const received = nextEvent(listener, "new_success");
+    sender.emit("message", { msg: "hola desde A", visibility: "public" });
+
+    assert.equal((await received).content, "hola desde A");
+  });
+
+  it("keeps serving when another node stops answering", async () => {
+    const host = await joinOn(nodeA, "30", "hall");
+    const guest = await joinOn(nodeA, "31", "hall");
+    crashNodeC();
+
+    // Lookups time out on the crashed node and fall back to this one
+    const notice = nextEvent(guest, "moderation_notice");
+    const ack = await host
+      .timeout(4000)
+      .emitWithAck("kick_user", { roomId: "hall", targetUserId: "31" });
+    assert.equal(ack.success, true);
+    assert.equal((await notice).action, "kick");
+
+    const late = await joinOn(nodeA, "32", "hall");
+    assert.ok(late.connected);
+  });
+});
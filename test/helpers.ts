@@ -0,0 +1,214 @@
+/**
+ * Integration Test Helpers
+ * Starts in-process chat servers on in-memory storage and connects real
+ * Socket.IO clients with locally signed tokens.
+ */
+
+import jwt from "jsonwebtoken";
+import {
+  io as connect,
+  type ManagerOptions,
+  type Socket,
+  type SocketOptions,
+} from "socket.io-client";
+import { createChatServer, type ChatServer } from "../src/server";
+import { createInMemoryStore, type MemoryStoreSeed } from "../src/repositories";
+import type {
+  ClientToServerEvents,
+  JWTUser,
+  ServerToClientEvents,
+} from "../src/types";
+
+export type TestClient = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+const TEST_SECRET = "charlaton-test-secret";
+
+// The server logs every event; keep the test output readable unless asked
+if (!process.env.TEST_LOGS) {
+  console.log = () => undefined;
+  console.warn = () => undefined;
+}
+
+/**
+ * Signs an access token accepted by the test servers.
+ */
+export const signToken = (userId: string) =>
+  jwt.sign({ id: userId, email: `${userId}@test.local` }, TEST_SECRET);
+
+/**
+ * Calls the REST API of `server` as `userId`. JSON responses come back
+ * parsed, anything else (e.g. CSV) as text.
+ *
+ * @example
+ * const res = await api(server, "1", "POST", "/rooms", { name: "Sala" });
+ * assert.equal(res.status, 201);
+ */
+export const api = async (
+  server: TestServer,
+  userId: string,
+  method: string,
+  path: string,
+  body?: unknown
+) => {
+  const res = await fetch(`${server.url}${path}`, {
+    method,
+    headers: {
+      Authorization: `Bearer ${signToken(userId)}`,
+      ...(body !== undefined && { "Content-Type": "application/json" }),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const isJson = res.headers.get("content-type")?.includes("application/json");
+  return {
+    status: res.status,
+    headers: res.headers,
+    body: isJson ? await res.json() : await res.text(),
+  };
+};
+
+/**
+ * Verifies tokens signed by `signToken`, replacing the backend JWT /
+ * Firebase check so the tests need no credentials.
+ */
+export const verifyTestToken = async (token: string) =>
+  jwt.verify(token, TEST_SECRET) as JWTUser;
+
+/**
+ * A listening test server and the clients connected to it.
+ */
+export interface TestServer {
+  server: ChatServer;
+  url: string;
+  /**
+   * Connects a client as `userId` and waits for the handshake to finish.
+   * `options` override the client defaults (e.g. to turn reconnection on).
+   */
+  connectAs(
+    userId: string,
+    options?: Partial<ManagerOptions & SocketOptions>
+  ): Promise<TestClient>;
+  /** Disconnects every client and closes the server. */
+  close(): Promise<void>;
+}
+
+/**
+ * Starts a chat server on a random port with an in-memory store.
+ *
+ * @param {MemoryStoreSeed} [seed] - Rooms, users, messages and grants to start with
+ * @param {Partial<Parameters<typeof createChatServer>[0]>} [overrides] - Extra server options
+ * @returns {Promise<TestServer>} The running server
+ * @example
+ * const { connectAs, close } = await startTestServer({ rooms: [publicRoom("r1")] });
+ */
+export const startTestServer = async (
+  seed: MemoryStoreSeed = {},
+  overrides: Partial<Parameters<typeof createChatServer>[0]> = {}
+): Promise<TestServer> => {
+  const server = createChatServer({
+    store: createInMemoryStore(seed),
+    auth: verifyTestToken,
+    ...overrides,
+  });
+  const port = await server.listen(0);
+  const url = `http://localhost:${port}`;
+  const clients: TestClient[] = [];
+
+  return {
+    server,
+    url,
+
+    connectAs(userId, options = {}) {
+      const client: TestClient = connect(url, {
+        auth: { token: signToken(userId) },
+        transports: ["websocket"],
+        reconnection: false,
+        forceNew: true,
+        ...options,
+      });
+      clients.push(client);
+
+      return new Promise((resolve, reject) => {
+        client.once("connect", () => resolve(client));
+        client.once("connect_error", reject);
+      });
+    },
+
+    async close() {
+      for (const client of clients) client.disconnect();
+      await server.close();
+    },
+  };
+};
+
+/**
+ * Resolves with the arguments of the next `event` received by `client`,
+ * failing after `timeoutMs`.
+ */
+export const nextEvent = <E extends keyof ServerToClientEvents>(
+  client: TestClient,
+  event: E,
+  timeoutMs = 2000
+): Promise<Parameters<ServerToClientEvents[E]>[0]> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      client.off(event, listener as never);
+      reject(new Error(`Timed out waiting for "${event}"`));
+    }, timeoutMs);
+
+    const listener = (payload: Parameters<ServerToClientEvents[E]>[0]) => {
+      clearTimeout(timer);
+      resolve(payload);
+    };
+
+    client.once(event, listener as never);
+  });
+
+/**
+ * Collects every `event` received by `client` until the returned getter is
+ * read, to assert that something was NOT delivered.
+ */
+export const recordEvents = <E extends keyof ServerToClientEvents>(
+  client: TestClient,
+  event: E
+) => {
+  const received: Parameters<ServerToClientEvents[E]>[0][] = [];
+  client.on(event, ((payload: (typeof received)[number]) =>
+    received.push(payload)) as never);
+  return () => received;
+};
+
+/**
+ * Gives in-flight broadcasts time to arrive before a negative assertion.
+ */
+export const settle = (ms = 100) =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Joins `roomId` and resolves with the acknowledgement.
+ */
+export const joinRoom = (client: TestClient, roomId: string) =>
+  client.timeout(2000).emitWithAck("join_room", roomId);
+
+/**
+ * A public room with no admins.
+ */
+export const publicRoom = (id: string, creatorId = "1") => ({
+  id,
+  name: id,
+  isPrivate: false,
+  creatorId,
+  adminsId: [],
+  deletedAt: null,
+});
+
+/**
+ * A private room administered by `creatorId`.
+ */
+export const privateRoom = (id: string, creatorId = "1") => ({
+  id,
+  name: id,
+  isPrivate: true,
+  creatorId,
+  adminsId: [creatorId],
+  deletedAt: null,
+});
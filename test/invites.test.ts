@@ -0,0 +1,205 @@
+/**
+ * Room Invite Integration Tests
+ * Creating, redeeming, limiting and revoking invites to private rooms.
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  startTestServer,
+  api,
+  nextEvent,
+  joinRoom,
+  publicRoom,
+  privateRoom,
+  type TestClient,
+  type TestServer,
+} from "./helpers";
+import { signInviteToken } from "../src/services/inviteService";
+import { getStore } from "../src/repositories";
+
+describe("room invites", () => {
+  let server: TestServer;
+  let admin: TestClient;
+
+  const expiredInvite = {
+    id: "expired-invite",
+    roomId: "meeting",
+    createdBy: "1",
+    createdAt: new Date(Date.now() - 120_000).toISOString(),
+    expiresAt: new Date(Date.now() - 60_000).toISOString(),
+    maxUses: null,
+    uses: 0,
+    email: null,
+    revokedAt: null,
+    revokedBy: null,
+  };
+
+  /**
+   * Creates an invite to "meeting" as the owner and returns its token.
+   */
+  const invite = async (options: { maxUses?: number; email?: string } = {}) => {
+    const ack = await admin
+      .timeout(2000)
+      .emitWithAck("create_invite", { roomId: "meeting", ...options });
+    assert.equal(ack.success, true);
+    return ack.data!;
+  };
+
+  /**
+   * Joins "meeting" with an invite token.
+   */
+  const joinWith = (client: TestClient, token: string, roomId = "meeting") =>
+    client.timeout(2000).emitWithAck("join_room", { roomId, invite: token });
+
+  before(async () => {
+    server = await startTestServer({
+      rooms: [
+        privateRoom("meeting", "1"),
+        privateRoom("other", "1"),
+        publicRoom("open", "1"),
+      ],
+      invites: [expiredInvite],
+    });
+    admin = await server.connectAs("1");
+  });
+
+  after(() => server.close());
+
+  it("lets users with an invite into the private room", async () => {
+    const { invite: created, token } = await invite();
+    assert.equal(created.uses, 0);
+    assert.equal(created.maxUses, null);
+
+    const guest = await server.connectAs("10");
+    const joined = await joinWith(guest, token);
+
+    assert.equal(joined.success, true);
+    assert.equal(joined.data?.role, "member");
+
+    // The grant was stored: the invite is not needed any more
+    const again = await server.connectAs("10");
+    assert.equal((await joinRoom(again, "meeting")).success, true);
+  });
+
+  it("stops working when its uses run out", async () => {
+    const { token } = await invite({ maxUses: 1 });
+
+    const first = await server.connectAs("11");
+    assert.equal((await joinWith(first, token)).success, true);
+
+    const second = await server.connectAs("12");
+    const error = nextEvent(second, "join_room_error");
+    const refused = await joinWith(second, token);
+
+    assert.equal(refused.code, "INVITE_EXHAUSTED");
+    assert.equal((await error).success, false);
+    assert.equal(second.connected, true);
+  });
+
+  it("gives the use back when the grant fails", async () => {
+    const { invite: created, token } = await invite({ maxUses: 1 });
+
+    // One transient storage failure while granting access
+    const access = getStore().access;
+    const create = access.create;
+    access.create = async () => {
+      access.create = create;
+      throw new Error("firestore unavailable");
+    };
+
+    const guest = await server.connectAs("16");
+    assert.equal((await joinWith(guest, token)).success, false);
+    assert.equal((await getStore().invites.get("meeting", created.id))?.uses, 0);
+
+    assert.equal((await joinWith(guest, token)).success, true);
+  });
+
+  it("only admits the invited email when restricted", async () => {
+    const { token } = await invite({ email: "13@TEST.local" });
+
+    const stranger = await server.connectAs("14");
+    assert.equal((await joinWith(stranger, token)).code, "INVITE_EMAIL_MISMATCH");
+
+    const invited = await server.connectAs("13");
+    assert.equal((await joinWith(invited, token)).success, true);
+  });
+
+  it("refuses revoked, expired and foreign tokens", async () => {
+    const { invite: created, token } = await invite();
+    const revoked = await admin
+      .timeout(2000)
+      .emitWithAck("revoke_invite", { roomId: "meeting", inviteId: created.id });
+    assert.notEqual(revoked.data?.revokedAt, null);
+
+    const guest = await server.connectAs("15");
+    assert.equal((await joinWith(guest, token)).code, "INVITE_REVOKED");
+
+    const expired = signInviteToken(expiredInvite);
+    assert.equal((await joinWith(guest, expired)).code, "INVITE_EXPIRED");
+
+    const fresh = await invite();
+    assert.equal(
+      (await joinWith(guest, fresh.token, "other")).code,
+      "INVITE_INVALID"
+    );
+    assert.equal((await joinWith(guest, "not-a-token")).code, "INVITE_INVALID");
+  });
+
+  it("only lets users who can grant access create invites", async () => {
+    const member = await server.connectAs("10");
+    const error = nextEvent(member, "invite_error");
+
+    const ack = await member
+      .timeout(2000)
+      .emitWithAck("create_invite", { roomId: "meeting" });
+
+    assert.equal(ack.code, "FORBIDDEN");
+    assert.equal((await error).code, "FORBIDDEN");
+
+    const open = await admin
+      .timeout(2000)
+      .emitWithAck("create_invite", { roomId: "open" });
+    assert.equal(open.code, "ROOM_NOT_PRIVATE");
+  });
+
+  describe("REST API", () => {
+    it("creates, lists and revokes invites", async () => {
+      const created = await api(server, "1", "POST", "/rooms/meeting/invites", {
+        expiresInMinutes: 60,
+        maxUses: 5,
+      });
+      assert.equal(created.status, 201);
+      assert.equal(created.body.invite.maxUses, 5);
+      assert.equal(typeof created.body.token, "string");
+
+      const inviteId = created.body.invite.id;
+      const listed = await api(server, "1", "GET", "/rooms/meeting/invites");
+      assert.equal(listed.status, 200);
+      assert.equal(listed.body.invites[0].id, inviteId);
+
+      const forbidden = await api(server, "10", "GET", "/rooms/meeting/invites");
+      assert.equal(forbidden.status, 403);
+
+      const deleted = await api(
+        server,
+        "1",
+        "DELETE",
+        `/rooms/meeting/invites/${inviteId}`
+      );
+      assert.equal(deleted.status, 200);
+      assert.notEqual(deleted.body.invite.revokedAt, null);
+
+      const missing = await api(server, "1", "DELETE", "/rooms/meeting/invites/nope");
+      assert.equal(missing.status, 404);
+    });
+
+    it("validates invite limits", async () => {
+      const res = await api(server, "1", "POST", "/rooms/meeting/invites", {
+        maxUses: 0,
+      });
+      assert.equal(res.status, 400);
+      assert.equal(res.body.code, "INVALID_PAYLOAD");
+    });
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Lobby Integration Tests
+ * Waiting rooms: holding joins, admitting and rejecting users.
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  startTestServer,
+  nextEvent,
+  recordEvents,
+  settle,
+  joinRoom,
+  publicRoom,
+  privateRoom,
+  type TestServer,
+} from "./helpers";
+
+describe("lobby", () => {
+  let server: TestServer;
+
+  const withLobby = <T extends object>(room: T) => ({ ...room, lobbyEnabled: true });
+
+  before(async () => {
+    server = await startTestServer({
+      rooms: [
+        withLobby(publicRoom("standup", "1")),
+        withLobby(publicRoom("allhands", "2")),
+        withLobby(publicRoom("review", "3")),
+        withLobby(privateRoom("board", "4")),
+        withLobby(publicRoom("workshop", "5")),
+      ],
+    });
+  });
+
+  after(() => server.close());
+
+  it("holds users in the lobby until a host admits them", async () => {
+    const host = await server.connectAs("1");
+    await joinRoom(host, "standup");
+
+    const guest = await server.connectAs("10");
+    const presence = recordEvents(guest, "usersOnline");
+    const messages = recordEvents(guest, "new_success");
+    const offers = recordEvents(guest, "webrtc_offer");
+    const waiting = nextEvent(host, "lobby_updated");
+
+    const held = await joinRoom(guest, "standup");
+    assert.equal(held.success, false);
+    assert.equal(held.code, "IN_LOBBY");
+
+    const { users } = await waiting;
+    assert.deepEqual(users.map((u) => u.userId), ["10"]);
+    assert.equal(users[0].needsAccess, false);
+
+    // Nothing from the room reaches the lobby
+    await host.timeout(2000).emitWithAck("message", { msg: "hola", visibility: "public" });
+    host.emit("webrtc_offer", {
+      roomId: "standup",
+      targetUserId: "10",
+      sdp: { type: "offer", sdp: "v=0" },
+    });
+    await settle();
+    assert.deepEqual(presence(), []);
+    assert.deepEqual(messages(), []);
+    assert.deepEqual(offers(), []);
+
+    const joined = nextEvent(guest, "join_room_success");
+    const emptied = nextEvent(host, "lobby_updated");
+    const ack = await host
+      .timeout(2000)
+      .emitWithAck("lobby_admit", { roomId: "standup", targetUserId: "10" });
+
+    assert.deepEqual(ack.data?.userIds, ["10"]);
+    assert.equal((await joined).role, "member");
+    assert.deepEqual((await emptied).users, []);
+  });
+
+  it("admits everyone waiting at once", async () => {
+    const host = await server.connectAs("2");
+    await joinRoom(host, "allhands");
+    const first = await server.connectAs("20");
+    const second = await server.connectAs("21");
+    await joinRoom(first, "allhands");
+    await joinRoom(second, "allhands");
+
+    const joined = [
+      nextEvent(first, "join_room_success"),
+      nextEvent(second, "join_room_success"),
+    ];
+    const ack = await host
+      .timeout(2000)
+      .emitWithAck("lobby_admit", { roomId: "allhands" });
+
+    assert.deepEqual(ack.data?.userIds.sort(), ["20", "21"]);
+    await Promise.all(joined);
+
+    const sent = nextEvent(first, "new_success");
+    await second
+      .timeout(2000)
+      .emitWithAck("message", { msg: "dentro", visibility: "public" });
+    assert.equal((await sent).content, "dentro");
+  });
+
+  it("rejects users, who can ask again", async () => {
+    const host = await server.connectAs("3");
+    await joinRoom(host, "review");
+    const guest = await server.connectAs("30");
+    await joinRoom(guest, "review");
+
+    const rejected = nextEvent(guest, "lobby_rejected");
+    const ack = await host.timeout(2000).emitWithAck("lobby_reject", {
+      roomId: "review",
+      targetUserId: "30",
+      reason: "Reunión privada",
+    });
+
+    assert.equal(ack.success, true);
+    assert.equal((await rejected).message, "Reunión privada");
+
+    const missing = await host
+      .timeout(2000)
+      .emitWithAck("lobby_admit", { roomId: "review", targetUserId: "30" });
+    assert.equal(missing.code, "NOT_IN_LOBBY");
+
+    const waiting = nextEvent(host, "lobby_updated");
+    assert.equal((await joinRoom(guest, "review")).code, "IN_LOBBY");
+    assert.deepEqual((await waiting).users.map((u) => u.userId), ["30"]);
+  });
+
+  it("grants access to guests of a private room when admitted", async () => {
+    const host = await server.connectAs("4");
+    await joinRoom(host, "board");
+
+    const guest = await server.connectAs("40");
+    const waiting = nextEvent(host, "lobby_updated");
+    assert.equal((await joinRoom(guest, "board")).code, "IN_LOBBY");
+    assert.equal((await waiting).users[0].needsAccess, true);
+    assert.equal(guest.connected, true);
+
+    const joined = nextEvent(guest, "join_room_success");
+    const approved = nextEvent(host, "access_request_updated");
+    await host
+      .timeout(2000)
+      .emitWithAck("lobby_admit", { roomId: "board", targetUserId: "40" });
+
+    assert.equal((await joined).role, "member");
+    assert.equal((await approved).request.status, "approved");
+
+    // Admitted users are not hosts
+    const ack = await guest
+      .timeout(2000)
+      .emitWithAck("lobby_admit", { roomId: "board" });
+    assert.equal(ack.code, "FORBIDDEN");
+  });
+
+  it("lets everyone in when the lobby is turned off", async () => {
+    const host = await server.connectAs("5");
+    await joinRoom(host, "workshop");
+    const guest = await server.connectAs("50");
+    await joinRoom(guest, "workshop");
+
+    const joined = nextEvent(guest, "join_room_success");
+    const ack = await host
+      .timeout(2000)
+      .emitWithAck("update_room", { roomId: "workshop", lobbyEnabled: false });
+
+    assert.equal(ack.data?.lobbyEnabled, false);
+    assert.equal((await joined).roomId, "workshop");
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * Moderation Integration Tests
+ * Kicking, banning, locking rooms, mute requests and the audit log.
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  startTestServer,
+  signToken,
+  nextEvent,
+  recordEvents,
+  settle,
+  joinRoom,
+  publicRoom,
+  type TestServer,
+} from "./helpers";
+import { getStore } from "../src/repositories";
+
+describe("moderation", () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer({
+      rooms: [
+        publicRoom("arena", "1"),
+        publicRoom("hall", "2"),
+        publicRoom("studio", "3"),
+        publicRoom("forum", "4"),
+        publicRoom("vault", "7"),
+        { ...publicRoom("court", "5"), roles: { "50": "admin", "51": "moderator" } },
+        { ...publicRoom("stage", "6"), roles: { "61": "moderator" } },
+      ],
+    });
+  });
+
+  after(() => server.close());
+
+  it("removes a participant, who can join again", async () => {
+    const host = await server.connectAs("1");
+    await joinRoom(host, "arena");
+    const troll = await server.connectAs("10");
+    await joinRoom(troll, "arena");
+
+    const notice = nextEvent(troll, "moderation_notice");
+    const audit = nextEvent(host, "moderation_audit");
+    const ack = await host.timeout(2000).emitWithAck("kick_user", {
+      roomId: "arena",
+      targetUserId: "10",
+      reason: "Spam",
+    });
+
+    assert.equal(ack.success, true);
+    assert.equal(ack.data?.action, "kick");
+    assert.deepEqual(await notice, { roomId: "arena", action: "kick", message: "Spam" });
+    assert.equal((await audit).entry.targetUserId, "10");
+
+    const sent = await troll
+      .timeout(2000)
+      .emitWithAck("message", { msg: "sigo aquí", visibility: "public" });
+    assert.equal(sent.code, "NOT_IN_ROOM");
+
+    const missing = await host
+      .timeout(2000)
+      .emitWithAck("kick_user", { roomId: "arena", targetUserId: "10" });
+    assert.equal(missing.code, "USER_NOT_IN_ROOM");
+
+    assert.equal((await joinRoom(troll, "arena")).success, true);
+  });
+
+  it("bans users from rejoining until unbanned", async () => {
+    const host = await server.connectAs("2");
+    await joinRoom(host, "hall");
+    const troll = await server.connectAs("20");
+    await joinRoom(troll, "hall");
+
+    const notice = nextEvent(troll, "moderation_notice");
+    const ack = await host
+      .timeout(2000)
+      .emitWithAck("ban_user", { roomId: "hall", targetUserId: "20" });
+
+    assert.equal(ack.data?.action, "ban");
+    assert.equal((await notice).action, "ban");
+    assert.equal((await joinRoom(troll, "hall")).code, "BANNED");
+
+    await host
+      .timeout(2000)
+      .emitWithAck("unban_user", { roomId: "hall", targetUserId: "20" });
+    assert.equal((await joinRoom(troll, "hall")).success, true);
+
+    const twice = await host
+      .timeout(2000)
+      .emitWithAck("unban_user", { roomId: "hall", targetUserId: "20" });
+    assert.equal(twice.code, "BAN_NOT_FOUND");
+  });
+
+  it("locks the room against new joins except from hosts", async () => {
+    const host = await server.connectAs("3");
+    await joinRoom(host, "studio");
+    const inside = await server.connectAs("30");
+    await joinRoom(inside, "studio");
+
+    const updated = nextEvent(inside, "room_updated");
+    const ack = await host.timeout(2000).emitWithAck("lock_room", { roomId: "studio" });
+
+    assert.notEqual(ack.data?.lockedAt, null);
+    assert.equal((await updated).change, "locked");
+
+    const late = await server.connectAs("31");
+    assert.equal((await joinRoom(late, "studio")).code, "ROOM_LOCKED");
+
+    const hostAgain = await server.connectAs("3");
+    assert.equal((await joinRoom(hostAgain, "studio")).success, true);
+
+    await host
+      .timeout(2000)
+      .emitWithAck("lock_room", { roomId: "studio", locked: false });
+    assert.equal((await joinRoom(late, "studio")).success, true);
+  });
+
+  it("answers the host when the audit cannot reach the other hosts", async () => {
+    const host = await server.connectAs("7");
+    await joinRoom(host, "vault");
+
+    // The room read that looks up the hosts fails once the action is stored
+    const store = getStore();
+    const { create } = store.audit;
+    const { get } = store.rooms;
+    store.audit.create = async (roomId, data) => {
+      store.audit.create = create;
+      store.rooms.get = async () => {
+        store.rooms.get = get;
+        throw new Error("firestore unavailable");
+      };
+      return create(roomId, data);
+    };
+
+    const ack = await host.timeout(2000).emitWithAck("lock_room", { roomId: "vault" });
+    assert.equal(ack.success, true);
+    assert.notEqual(ack.data?.lockedAt, null);
+  });
+
+  it("asks everyone or one user to mute through user_media_changed", async () => {
+    const host = await server.connectAs("4");
+    await joinRoom(host, "forum");
+    const first = await server.connectAs("40");
+    await joinRoom(first, "forum");
+    const second = await server.connectAs("41");
+    await joinRoom(second, "forum");
+
+    first.emit("media_state_changed", { micEnabled: true, cameraEnabled: true });
+    await settle();
+
+    const hostMedia = recordEvents(host, "user_media_changed");
+    const toFirst = nextEvent(first, "user_media_changed");
+    const toSecond = nextEvent(second, "user_media_changed");
+    const all = await host
+      .timeout(2000)
+      .emitWithAck("request_mute", { roomId: "forum" });
+
+    assert.deepEqual(all.data?.userIds.sort(), ["40", "41"]);
+    assert.deepEqual(await toFirst, {
+      userId: "40",
+      micEnabled: false,
+      cameraEnabled: true,
+      requestedBy: "4",
+    });
+    assert.equal((await toSecond).micEnabled, false);
+    assert.deepEqual(hostMedia(), []);
+
+    const camera = nextEvent(second, "user_media_changed");
+    const one = await host.timeout(2000).emitWithAck("request_mute", {
+      roomId: "forum",
+      targetUserId: "41",
+      mic: false,
+      camera: true,
+    });
+    assert.deepEqual(one.data?.userIds, ["41"]);
+    assert.equal((await camera).cameraEnabled, false);
+
+    const nothing = await host
+      .timeout(2000)
+      .emitWithAck("request_mute", { roomId: "forum", mic: false });
+    assert.equal(nothing.code, "INVALID_PAYLOAD");
+  });
+
+  it("only lets hosts act on users of a lower role", async () => {
+    const admin = await server.connectAs("50");
+    await joinRoom(admin, "court");
+    const moderator = await server.connectAs("51");
+    await joinRoom(moderator, "court");
+    const member = await server.connectAs("52");
+    await joinRoom(member, "court");
+
+    const error = nextEvent(moderator, "moderation_error");
+    const kick = await moderator
+      .timeout(2000)
+      .emitWithAck("kick_user", { roomId: "court", targetUserId: "52" });
+    assert.equal(kick.code, "FORBIDDEN");
+    assert.equal((await error).code, "FORBIDDEN");
+
+    // Moderators may still ask members to mute
+    const mute = await moderator
+      .timeout(2000)
+      .emitWithAck("request_mute", { roomId: "court", targetUserId: "52" });
+    assert.equal(mute.success, true);
+
+    const owner = await admin
+      .timeout(2000)
+      .emitWithAck("ban_user", { roomId: "court", targetUserId: "5" });
+    assert.equal(owner.code, "FORBIDDEN");
+
+    const self = await admin
+      .timeout(2000)
+      .emitWithAck("kick_user", { roomId: "court", targetUserId: "50" });
+    assert.equal(self.code, "INVALID_TARGET");
+  });
+
+  it("only lets owners and admins end the room", async () => {
+    const host = await server.connectAs("6");
+    await joinRoom(host, "stage");
+    const moderator = await server.connectAs("61");
+    await joinRoom(moderator, "stage");
+
+    const error = nextEvent(moderator, "room_error");
+    const refused = await moderator.timeout(2000).emitWithAck("end_room", {});
+    assert.equal(refused.code, "FORBIDDEN");
+    assert.equal((await error).code, "FORBIDDEN");
+
+    const outside = await server.connectAs("62");
+    const notInRoom = await outside
+      .timeout(2000)
+      .emitWithAck("end_room", { roomId: "stage" });
+    assert.equal(notInRoom.code, "NOT_IN_ROOM");
+
+    const ended = nextEvent(moderator, "room_ended");
+    const updated = nextEvent(moderator, "room_updated");
+    const ack = await host.timeout(2000).emitWithAck("end_room", {});
+
+    assert.equal(ack.success, true);
+    assert.notEqual(ack.data?.endedAt, null);
+    assert.equal((await ended).roomId, "stage");
+    assert.equal((await updated).change, "ended");
+    assert.deepEqual(await getStore().connections.listActive("stage"), []);
+  });
+
+  describe("REST API", () => {
+    it("lists the audit log for hosts only", async () => {
+      const api = async (userId: string) => {
+        const res = await fetch(`${server.url}/rooms/arena/audit`, {
+          headers: { Authorization: `Bearer ${signToken(userId)}` },
+        });
+        return { status: res.status, body: await res.json() };
+      };
+
+      const listed = await api("1");
+      assert.equal(listed.status, 200);
+      assert.equal(listed.body.entries[0].action, "kick");
+      assert.equal(listed.body.entries[0].reason, "Spam");
+
+      const forbidden = await api("10");
+      assert.equal(forbidden.status, 403);
+    });
+  });
+});
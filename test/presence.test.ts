@@ -0,0 +1,157 @@
+/**
+ * Presence Integration Tests
+ * Users with several tabs, status merging, last seen and contact subscriptions.
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  startTestServer,
+  nextEvent,
+  recordEvents,
+  settle,
+  joinRoom,
+  publicRoom,
+  type TestServer,
+} from "./helpers";
+import { getStore } from "../src/repositories";
+
+describe("presence", () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer({
+      rooms: [
+        publicRoom("office", "1"),
+        publicRoom("team", "2"),
+        publicRoom("archive", "4"),
+      ],
+      // A room two users shared years ago
+      connections: ["4", "40"].map((userId) => ({
+        id: `old-${userId}`,
+        userId,
+        roomId: "archive",
+        joinedAt: "2020-01-10T09:00:00.000Z",
+        leftAt: "2020-01-10T10:00:00.000Z",
+      })),
+    });
+  });
+
+  after(() => server.close());
+
+  it("lists a user with several tabs once", async () => {
+    const host = await server.connectAs("1");
+    await joinRoom(host, "office");
+    const laptop = await server.connectAs("10");
+    await joinRoom(laptop, "office");
+    const phone = await server.connectAs("10");
+
+    const listed = nextEvent(host, "usersOnline");
+    const count = nextEvent(host, "number_usersOnline");
+    await joinRoom(phone, "office");
+
+    const users = await listed;
+    assert.equal(await count, 2);
+    assert.deepEqual(users.map((u) => [u.userId, u.devices]), [
+      ["1", 1],
+      ["10", 2],
+    ]);
+
+    const joined = nextEvent(laptop, "joins_users");
+    laptop.emit("joins");
+    assert.deepEqual((await joined).map((u) => u.id).sort(), ["1", "10"]);
+
+    // Closing one tab keeps the user in the room
+    const left = recordEvents(host, "userDisconnected");
+    const updated = nextEvent(host, "usersOnline");
+    phone.disconnect();
+
+    assert.equal((await updated).find((u) => u.userId === "10")?.devices, 1);
+    await settle();
+    assert.deepEqual(left(), []);
+    const active = await getStore().connections.listActive("office");
+    assert.ok(active.some((c) => c.userId === "10"));
+  });
+
+  it("merges statuses across devices and tells subscribers", async () => {
+    const host = await server.connectAs("2");
+    await joinRoom(host, "team");
+    const laptop = await server.connectAs("20");
+    await joinRoom(laptop, "team");
+
+    const ack = await host
+      .timeout(2000)
+      .emitWithAck("subscribe_presence", { userIds: ["20", "99"] });
+    assert.deepEqual(ack.data?.hidden, ["99"]);
+    assert.equal(ack.data?.users[0].status, "online");
+
+    const updates = recordEvents(host, "presence_updated");
+    const phone = await server.connectAs("20");
+    await phone.timeout(2000).emitWithAck("set_presence", { status: "away" });
+    await settle();
+    // The laptop is still active
+    assert.equal(updates().at(-1)?.status, "online");
+    assert.equal(updates().at(-1)?.devices, 2);
+
+    const room = nextEvent(host, "usersOnline");
+    const busy = await laptop
+      .timeout(2000)
+      .emitWithAck("set_presence", { status: "busy" });
+    assert.equal(busy.data?.status, "busy");
+    assert.equal((await room).find((u) => u.userId === "20")?.status, "busy");
+
+    laptop.disconnect();
+    phone.disconnect();
+    await settle();
+
+    const last = updates().at(-1);
+    assert.equal(last?.status, "offline");
+    assert.equal(last?.devices, 0);
+    assert.notEqual(last?.lastSeenAt, null);
+    assert.equal(
+      (await getStore().presence.get("20"))?.lastSeenAt,
+      last?.lastSeenAt
+    );
+  });
+
+  it("hides presence from users who never shared a room", async () => {
+    const stranger = await server.connectAs("30");
+
+    const ack = await stranger
+      .timeout(2000)
+      .emitWithAck("subscribe_presence", { userIds: ["2", "30"] });
+    assert.deepEqual(ack.data?.hidden, ["2"]);
+    assert.equal(ack.data?.users.length, 1);
+    assert.equal(ack.data?.users[0].userId, "30");
+
+    const everyone = nextEvent(stranger, "joins_users");
+    stranger.emit("joins");
+    assert.deepEqual(await everyone, []);
+
+    const error = nextEvent(stranger, "joins_in_room_error");
+    stranger.emit("joins_in_room", "team");
+    assert.equal((await error).success, false);
+
+    const invalid = await stranger
+      .timeout(2000)
+      .emitWithAck("set_presence", { status: "offline" as never });
+    assert.equal(invalid.code, "INVALID_PAYLOAD");
+  });
+
+  it("only counts rooms shared recently", async () => {
+    const viewer = await server.connectAs("4");
+
+    const ack = await viewer
+      .timeout(2000)
+      .emitWithAck("subscribe_presence", { userIds: ["40"] });
+    assert.deepEqual(ack.data?.hidden, ["40"]);
+
+    await joinRoom(viewer, "archive");
+    const contact = await server.connectAs("40");
+    await joinRoom(contact, "archive");
+    const again = await viewer
+      .timeout(2000)
+      .emitWithAck("subscribe_presence", { userIds: ["40"] });
+    assert.deepEqual(again.data?.hidden, []);
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Rate Limit Integration Tests
+ * Event budgets per user and room, and disconnecting repeat offenders.
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  startTestServer,
+  nextEvent,
+  joinRoom,
+  publicRoom,
+  type TestClient,
+  type TestServer,
+} from "./helpers";
+
+describe("rate limiting", () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer(
+      { rooms: [publicRoom("busy", "1"), publicRoom("quiet", "1")] },
+      {
+        rateLimit: {
+          budgets: { message: { capacity: 2, refillPerSecond: 0.01 } },
+          maxViolations: 2,
+        },
+      }
+    );
+  });
+
+  after(() => server.close());
+
+  const say = (client: TestClient, msg: string) =>
+    client.timeout(2000).emitWithAck("message", { msg, visibility: "public" });
+
+  it("refuses events over budget with rate_limited and a RATE_LIMITED ack", async () => {
+    const chatty = await server.connectAs("10");
+    await joinRoom(chatty, "busy");
+
+    assert.equal((await say(chatty, "uno")).success, true);
+    assert.equal((await say(chatty, "dos")).success, true);
+
+    const limited = nextEvent(chatty, "rate_limited");
+    const refused = await say(chatty, "tres");
+    assert.equal(refused.success, false);
+    assert.equal(refused.code, "RATE_LIMITED");
+
+    const payload = await limited;
+    assert.equal(payload.event, "message");
+    assert.ok(payload.retryAfterMs > 0);
+  });
+
+  it("disconnects users who keep going over budget", async () => {
+    const flooder = await server.connectAs("20");
+    await joinRoom(flooder, "quiet");
+    await say(flooder, "uno");
+    await say(flooder, "dos");
+
+    const dropped = new Promise((resolve) => flooder.once("disconnect", resolve));
+    assert.equal((await say(flooder, "tres")).code, "RATE_LIMITED");
+    flooder.emit("message", { msg: "cuatro", visibility: "public" });
+
+    assert.equal(await dropped, "io server disconnect");
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Stale Connection Reaper Integration Tests
+ * Instance heartbeats and the closing of connections left open by
+ * instances that crashed or shut down.
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  startTestServer,
+  settle,
+  joinRoom,
+  publicRoom,
+  type TestServer,
+} from "./helpers";
+import { getStore } from "../src/repositories";
+import { reapStaleConnections } from "../src/services/reaperService";
+
+describe("stale connection reaper", () => {
+  let server: TestServer;
+
+  const minutesAgo = (minutes: number) =>
+    new Date(Date.now() - minutes * 60_000).toISOString();
+  const instance = (id: string, heartbeatAt: string, stoppedAt: string | null = null) => ({
+    id,
+    startedAt: minutesAgo(24 * 60),
+    heartbeatAt,
+    stoppedAt,
+  });
+  const open = (id: string, userId: string, joinedAt: string, instanceId?: string) => ({
+    id,
+    userId,
+    roomId: "hall",
+    joinedAt,
+    leftAt: null,
+    ...(instanceId && { instanceId }),
+  });
+
+  const crashed = instance("crashed", minutesAgo(10));
+  const drained = instance("drained", minutesAgo(5), minutesAgo(5));
+
+  before(async () => {
+    server = await startTestServer({
+      rooms: [publicRoom("hall", "1"), publicRoom("atrium", "2")],
+      instances: [
+        crashed,
+        drained,
+        instance("peer", new Date().toISOString()),
+        instance("ancient", minutesAgo(30 * 24 * 60)),
+      ],
+      connections: [
+        open("a", "10", minutesAgo(30), "crashed"),
+        open("b", "11", minutesAgo(30), "peer"),
+        open("c", "12", minutesAgo(20)), // from before instances were tracked
+        open("d", "13", minutesAgo(30), "drained"),
+      ],
+    });
+    await settle();
+  });
+
+  after(() => server.close());
+
+  it("closes the sessions of gone instances on startup", async () => {
+    const sessions = new Map(
+      (await getStore().connections.listByRoom("hall")).map((c) => [c.id, c])
+    );
+
+    assert.equal(sessions.get("a")?.leftAt, crashed.heartbeatAt);
+    assert.equal(sessions.get("b")?.leftAt, null);
+    assert.equal(sessions.get("c")?.leftAt, sessions.get("c")?.joinedAt);
+    assert.equal(sessions.get("d")?.leftAt, drained.stoppedAt);
+
+    const instances = (await getStore().instances.list()).map((i) => i.id);
+    assert.ok(!instances.includes("ancient"));
+    assert.ok(instances.includes(server.server.instanceId));
+  });
+
+  it("starts a new session instead of continuing one from a crash", async () => {
+    const stale = await getStore().connections.create("atrium", {
+      userId: "20",
+      roomId: "atrium",
+      joinedAt: minutesAgo(60),
+      leftAt: null,
+      instanceId: "crashed",
+    });
+
+    const guest = await server.connectAs("20");
+    await joinRoom(guest, "atrium");
+
+    const sessions = await getStore().connections.listByRoom("atrium");
+    assert.equal(sessions.find((c) => c.id === stale.id)?.leftAt, crashed.heartbeatAt);
+
+    const active = await getStore().connections.findActive("atrium", "20");
+    assert.notEqual(active?.id, stale.id);
+    assert.equal(active?.instanceId, server.server.instanceId);
+  });
+
+  it("hands the sessions of users still connected over to a live instance", async () => {
+    const guest = await server.connectAs("30");
+    await joinRoom(guest, "hall");
+    const session = await getStore().connections.findActive("hall", "30");
+    // As if the user's other tab had been on the crashed instance
+    await getStore().connections.update("hall", session!.id, { instanceId: "crashed" });
+
+    // Without the sockets, only heartbeats count
+    const preview = await reapStaleConnections({ dryRun: true });
+    assert.equal(preview.success, true);
+    assert.deepEqual(
+      preview.success && preview.reaped.map((c) => c.userId),
+      ["30"]
+    );
+
+    const result = await server.server.reapConnections();
+    assert.equal(result.success && result.adopted, 1);
+    assert.equal(result.success && result.reaped.length, 0);
+
+    const after = await getStore().connections.findActive("hall", "30");
+    assert.equal(after?.id, session?.id);
+    assert.equal(after?.instanceId, server.server.instanceId);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Reconnection Integration Tests
+ * Grace window after a dropped connection, session resume and replay.
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  startTestServer,
+  nextEvent,
+  recordEvents,
+  settle,
+  joinRoom,
+  publicRoom,
+  type TestClient,
+  type TestServer,
+} from "./helpers";
+import { getStore } from "../src/repositories";
+
+describe("reconnection", () => {
+  let server: TestServer;
+
+  /** Reconnects after 300 ms, well within the 1 s grace window. */
+  const resuming = { reconnection: true, reconnectionDelay: 300, randomizationFactor: 0 };
+
+  /**
+   * Drops the transport of a client as a network failure would, and waits
+   * until the server has noticed.
+   */
+  const dropConnection = async (client: TestClient) => {
+    const dropped = new Promise((resolve) => client.once("disconnect", resolve));
+    client.io.engine.close();
+    await dropped;
+    await settle(50);
+  };
+
+  before(async () => {
+    server = await startTestServer(
+      {
+        rooms: [
+          publicRoom("lounge", "1"),
+          publicRoom("kitchen", "2"),
+          publicRoom("garden", "3"),
+        ],
+      },
+      { reconnectGraceMs: 1000 }
+    );
+  });
+
+  after(() => server.close());
+
+  it("keeps the room through a drop and replays what was missed", async () => {
+    const host = await server.connectAs("1");
+    await joinRoom(host, "lounge");
+    const guest = await server.connectAs("10", resuming);
+    await joinRoom(guest, "lounge");
+    const before = await getStore().connections.findActive("lounge", "10");
+
+    const left = recordEvents(host, "userDisconnected");
+    await dropConnection(guest);
+
+    const resumed = nextEvent(guest, "session_resumed");
+    const replayed = nextEvent(guest, "new_success");
+    await host
+      .timeout(2000)
+      .emitWithAck("message", { msg: "mientras tanto", visibility: "public" });
+
+    assert.deepEqual(await resumed, {
+      roomId: "lounge",
+      role: "member",
+      message: "sesión reanudada",
+    });
+    assert.equal(guest.recovered, true);
+    assert.equal((await replayed).content, "mientras tanto");
+    assert.deepEqual(left(), []);
+
+    const after = await getStore().connections.findActive("lounge", "10");
+    assert.equal(after?.id, before?.id);
+
+    const sent = await guest
+      .timeout(2000)
+      .emitWithAck("message", { msg: "de vuelta", visibility: "public" });
+    assert.equal(sent.success, true);
+  });
+
+  it("leaves the room when the grace window runs out", async () => {
+    const host = await server.connectAs("2");
+    await joinRoom(host, "kitchen");
+    const guest = await server.connectAs("20");
+    await joinRoom(guest, "kitchen");
+
+    const left = nextEvent(host, "userDisconnected");
+    const started = Date.now();
+    await dropConnection(guest);
+
+    await left;
+    assert.ok(Date.now() - started >= 900);
+    assert.equal(await getStore().connections.findActive("kitchen", "20"), null);
+  });
+
+  it("does not resume users banned while they were away", async () => {
+    const host = await server.connectAs("3");
+    await joinRoom(host, "garden");
+    const guest = await server.connectAs("30", resuming);
+    await joinRoom(guest, "garden");
+
+    await dropConnection(guest);
+    const resumed = nextEvent(guest, "session_resumed");
+    await host
+      .timeout(2000)
+      .emitWithAck("ban_user", { roomId: "garden", targetUserId: "30" });
+
+    const { roomId, code } = await resumed;
+    assert.equal(roomId, null);
+    assert.equal(code, "BANNED");
+    assert.equal(await getStore().connections.findActive("garden", "30"), null);
+
+    const sent = await guest
+      .timeout(2000)
+      .emitWithAck("message", { msg: "sigo aquí", visibility: "public" });
+    assert.equal(sent.code, "NOT_IN_ROOM");
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Room Roles Integration Tests
+ * Role resolution, the permission matrix and promote/demote.
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  startTestServer,
+  nextEvent,
+  settle,
+  joinRoom,
+  publicRoom,
+  privateRoom,
+  type TestServer,
+} from "./helpers";
+import { resolveRole, hasPermission } from "../src/services/roleService";
+import { deleteRoomAccess } from "../src/services/roomAcessService";
+
+describe("room roles", () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer({
+      rooms: [
+        // Admins stored as numbers by the main backend
+        { ...privateRoom("board", "1"), adminsId: [2] },
+        { ...privateRoom("club", "1"), adminsId: [] },
+        { ...publicRoom("forum", "1"), adminsId: ["2"] },
+      ],
+      access: [
+        {
+          roomId: "club",
+          id: "legacy-grant",
+          userId: 5,
+          grantedBy: 1,
+          grantedAt: new Date(0).toISOString(),
+        },
+      ],
+    });
+  });
+
+  after(() => server.close());
+
+  it("resolves roles from the room document", () => {
+    const room = {
+      ...privateRoom("r", "1"),
+      adminsId: [2, "3"],
+      adminId: ["4"],
+      roles: { "3": "moderator" as const, "6": "member" as const },
+    };
+
+    assert.equal(resolveRole(room, "1", false), "owner");
+    assert.equal(resolveRole(room, "2", false), "admin");
+    assert.equal(resolveRole(room, "3", false), "moderator");
+    assert.equal(resolveRole(room, "4", false), "admin");
+    assert.equal(resolveRole(room, "6", false), "member");
+    assert.equal(resolveRole(room, "7", true), "member");
+    assert.equal(resolveRole(room, "7", false), "guest");
+    assert.equal(hasPermission("moderator", "grant_access"), false);
+    assert.equal(hasPermission("guest", "send_message"), false);
+  });
+
+  it("lets owners and admins into private rooms without a grant", async () => {
+    const owner = await server.connectAs("1");
+    const admin = await server.connectAs("2");
+
+    const ownerJoin = await joinRoom(owner, "board");
+    const adminJoin = await joinRoom(admin, "board");
+
+    assert.equal(ownerJoin.data?.role, "owner");
+    assert.equal(adminJoin.data?.role, "admin");
+  });
+
+  it("matches grants stored with numeric user IDs", async () => {
+    const member = await server.connectAs("5");
+    const joined = await joinRoom(member, "club");
+
+    assert.equal(joined.success, true);
+    assert.equal(joined.data?.role, "member");
+  });
+
+  it("lets admins listed in adminsId grant access", async () => {
+    const admin = await server.connectAs("2");
+    await joinRoom(admin, "board");
+
+    const granted = await admin
+      .timeout(2000)
+      .emitWithAck("grant_access", { roomId: "board", targetUserId: "30" });
+    assert.equal(granted.success, true);
+
+    const guest = await server.connectAs("30");
+    assert.equal((await joinRoom(guest, "board")).data?.role, "member");
+  });
+
+  it("announces promotions and demotions to the room", async () => {
+    const admin = await server.connectAs("2");
+    const member = await server.connectAs("31");
+    await joinRoom(admin, "forum");
+    await joinRoom(member, "forum");
+
+    const promoted = nextEvent(member, "role_changed");
+    const ack = await admin.timeout(2000).emitWithAck("promote", {
+      roomId: "forum",
+      targetUserId: "31",
+      role: "moderator",
+    });
+
+    assert.equal(ack.success, true);
+    assert.deepEqual(await promoted, {
+      roomId: "forum",
+      userId: "31",
+      role: "moderator",
+      previousRole: "member",
+      changedBy: "2",
+    });
+
+    const demoted = nextEvent(member, "role_changed");
+    await admin
+      .timeout(2000)
+      .emitWithAck("demote", { roomId: "forum", targetUserId: "31" });
+    assert.equal((await demoted).role, "member");
+  });
+
+  it("only lets the owner appoint or remove admins", async () => {
+    const admin = await server.connectAs("2");
+    const owner = await server.connectAs("1");
+
+    const denied = await admin.timeout(2000).emitWithAck("promote", {
+      roomId: "forum",
+      targetUserId: "32",
+      role: "admin",
+    });
+    assert.equal(denied.code, "FORBIDDEN");
+
+    const promoted = await owner.timeout(2000).emitWithAck("promote", {
+      roomId: "forum",
+      targetUserId: "32",
+      role: "admin",
+    });
+    assert.equal(promoted.success, true);
+    assert.equal(promoted.data?.previousRole, "member");
+
+    const ownerDemotion = await admin
+      .timeout(2000)
+      .emitWithAck("demote", { roomId: "forum", targetUserId: "1" });
+    assert.equal(ownerDemotion.code, "FORBIDDEN");
+  });
+
+  it("leaves demoted users of a private room with their grant only", async () => {
+    const owner = await server.connectAs("1");
+    await joinRoom(owner, "club");
+    await owner
+      .timeout(2000)
+      .emitWithAck("grant_access", { roomId: "club", targetUserId: "34" });
+    await owner.timeout(2000).emitWithAck("promote", {
+      roomId: "club",
+      targetUserId: "34",
+      role: "moderator",
+    });
+
+    const demoted = await owner
+      .timeout(2000)
+      .emitWithAck("demote", { roomId: "club", targetUserId: "34" });
+    assert.equal(demoted.data?.role, "member");
+
+    const revoked = await deleteRoomAccess("34", "club");
+    assert.equal(revoked.success, true);
+    const former = await server.connectAs("34");
+    assert.equal((await joinRoom(former, "club")).code, "ACCESS_DENIED");
+
+    // Demoting a guest does not let them in
+    const guest = await owner
+      .timeout(2000)
+      .emitWithAck("demote", { roomId: "club", targetUserId: "35" });
+    assert.equal(guest.data?.role, "guest");
+    const outsider = await server.connectAs("35");
+    assert.equal((await joinRoom(outsider, "club")).code, "ACCESS_DENIED");
+  });
+
+  it("refuses role changes from members", async () => {
+    const member = await server.connectAs("33");
+    const error = nextEvent(member, "role_error");
+
+    const ack = await member.timeout(2000).emitWithAck("promote", {
+      roomId: "forum",
+      targetUserId: "33",
+      role: "moderator",
+    });
+
+    assert.equal(ack.code, "FORBIDDEN");
+    assert.equal((await error).code, "FORBIDDEN");
+  });
+
+  it("lets moderators delete messages of others, but not members", async () => {
+    const author = await server.connectAs("34");
+    const moderator = await server.connectAs("35");
+    const member = await server.connectAs("36");
+    const owner = await server.connectAs("1");
+    await owner.timeout(2000).emitWithAck("promote", {
+      roomId: "forum",
+      targetUserId: "35",
+      role: "moderator",
+    });
+    for (const client of [author, moderator, member]) {
+      await joinRoom(client, "forum");
+    }
+
+    const sent = await author
+      .timeout(2000)
+      .emitWithAck("message", { msg: "spam", visibility: "public" });
+    const messageId = sent.data!.id;
+
+    const refused = nextEvent(member, "delete_message_error");
+    member.emit("delete_message", { messageId });
+    assert.equal((await refused).success, false);
+
+    const deleted = nextEvent(author, "message_deleted");
+    moderator.emit("delete_message", { messageId });
+    assert.equal((await deleted).id, messageId);
+    await settle();
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Room Lifecycle Integration Tests
+ * Creating, updating, archiving and deleting rooms over REST and sockets.
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  startTestServer,
+  api,
+  nextEvent,
+  joinRoom,
+  publicRoom,
+  type TestServer,
+} from "./helpers";
+
+describe("room lifecycle", () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer({
+      rooms: [
+        { ...publicRoom("legacy", "1"), private: false, adminId: ["2"] },
+      ],
+    });
+  });
+
+  after(() => server.close());
+
+  it("creates rooms over the socket with the caller as creator", async () => {
+    const owner = await server.connectAs("10");
+
+    const ack = await owner.timeout(2000).emitWithAck("create_room", {
+      name: "  Daily  ",
+      isPrivate: true,
+    });
+
+    assert.equal(ack.success, true);
+    assert.equal(ack.data?.name, "Daily");
+    assert.equal(ack.data?.isPrivate, true);
+    assert.equal(ack.data?.creatorId, "10");
+    assert.equal(ack.data?.archivedAt, null);
+  });
+
+  it("broadcasts room_updated to the participants", async () => {
+    const owner = await server.connectAs("11");
+    const guest = await server.connectAs("12");
+    const created = await owner
+      .timeout(2000)
+      .emitWithAck("create_room", { name: "Retro" });
+    const roomId = created.data!.id;
+    await joinRoom(owner, roomId);
+    await joinRoom(guest, roomId);
+
+    const updated = nextEvent(guest, "room_updated");
+    const ack = await owner.timeout(2000).emitWithAck("update_room", {
+      roomId,
+      name: "Retro Q3",
+      description: "Cierre de trimestre",
+    });
+
+    assert.equal(ack.success, true);
+    const payload = await updated;
+    assert.equal(payload.change, "updated");
+    assert.equal(payload.room.name, "Retro Q3");
+    assert.equal(payload.room.description, "Cierre de trimestre");
+    assert.equal(payload.updatedBy, "11");
+  });
+
+  it("only lets the creator or admins change a room", async () => {
+    const stranger = await server.connectAs("13");
+    const error = nextEvent(stranger, "room_error");
+
+    const ack = await stranger
+      .timeout(2000)
+      .emitWithAck("update_room", { roomId: "legacy", name: "Mía" });
+
+    assert.equal(ack.success, false);
+    assert.equal(ack.code, "FORBIDDEN");
+    assert.equal((await error).code, "FORBIDDEN");
+
+    // Legacy `adminId` entries count as admins
+    const admin = await server.connectAs("2");
+    const allowed = await admin
+      .timeout(2000)
+      .emitWithAck("update_room", { roomId: "legacy", isPrivate: true });
+    assert.equal(allowed.success, true);
+    assert.equal(allowed.data?.isPrivate, true);
+  });
+
+  it("rejects updates without changes", async () => {
+    const owner = await server.connectAs("1");
+
+    const ack = await owner
+      .timeout(2000)
+      .emitWithAck("update_room", { roomId: "legacy" });
+
+    assert.equal(ack.success, false);
+    assert.equal(ack.code, "INVALID_PAYLOAD");
+  });
+
+  it("archives rooms, closing them until they are restored", async () => {
+    const owner = await server.connectAs("14");
+    const guest = await server.connectAs("15");
+    const created = await owner
+      .timeout(2000)
+      .emitWithAck("create_room", { name: "Archivo" });
+    const roomId = created.data!.id;
+    await joinRoom(guest, roomId);
+
+    const archived = nextEvent(guest, "room_updated");
+    const ack = await owner
+      .timeout(2000)
+      .emitWithAck("archive_room", { roomId });
+    assert.equal(ack.success, true);
+    assert.equal((await archived).change, "archived");
+
+    // The guest was removed from the room and cannot come back
+    const message = await guest
+      .timeout(2000)
+      .emitWithAck("message", { msg: "¿sigo aquí?", visibility: "public" });
+    assert.equal(message.success, false);
+
+    const rejoin = await joinRoom(guest, roomId);
+    assert.equal(rejoin.code, "ROOM_ARCHIVED");
+
+    const edit = await owner
+      .timeout(2000)
+      .emitWithAck("update_room", { roomId, name: "Otro" });
+    assert.equal(edit.code, "ROOM_ARCHIVED");
+
+    const restored = await owner
+      .timeout(2000)
+      .emitWithAck("archive_room", { roomId, archived: false });
+    assert.equal(restored.data?.archivedAt, null);
+    assert.equal((await joinRoom(guest, roomId)).success, true);
+  });
+
+  describe("REST API", () => {
+    it("requires authentication", async () => {
+      const res = await fetch(`${server.url}/rooms`, { method: "POST" });
+      assert.equal(res.status, 401);
+    });
+
+    it("creates, reads, updates and deletes rooms", async () => {
+      const created = await api(server, "20", "POST", "/rooms", {
+        name: "Planning",
+        description: "Sprint 12",
+      });
+      assert.equal(created.status, 201);
+      const roomId = created.body.room.id;
+
+      const read = await api(server, "21", "GET", `/rooms/${roomId}`);
+      assert.equal(read.status, 200);
+      assert.equal(read.body.room.description, "Sprint 12");
+
+      const forbidden = await api(server, "21", "PATCH", `/rooms/${roomId}`, {
+        isPrivate: true,
+      });
+      assert.equal(forbidden.status, 403);
+
+      const updated = await api(server, "20", "PATCH", `/rooms/${roomId}`, {
+        description: null,
+      });
+      assert.equal(updated.status, 200);
+      assert.equal(updated.body.room.description, null);
+
+      const guest = await server.connectAs("21");
+      await joinRoom(guest, roomId);
+      const deletedEvent = nextEvent(guest, "room_updated");
+
+      const deleted = await api(server, "20", "DELETE", `/rooms/${roomId}`);
+      assert.equal(deleted.status, 200);
+      assert.equal((await deletedEvent).change, "deleted");
+
+      assert.equal((await api(server, "20", "GET", `/rooms/${roomId}`)).status, 403);
+      assert.equal((await api(server, "20", "DELETE", `/rooms/${roomId}`)).status, 404);
+      assert.equal((await joinRoom(guest, roomId)).code, "ROOM_NOT_FOUND");
+    });
+
+    it("validates bodies with the socket schemas", async () => {
+      const res = await api(server, "20", "POST", "/rooms", { name: "" });
+      assert.equal(res.status, 400);
+      assert.equal(res.body.code, "INVALID_PAYLOAD");
+
+      const archived = await api(server, "1", "POST", "/rooms/legacy/archive", {
+        archived: "yes",
+      });
+      assert.equal(archived.status, 400);
+    });
+  });
+});
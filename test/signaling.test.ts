@@ -0,0 +1,147 @@
+/**
+ * WebRTC Signaling Integration Tests
+ * Negotiation state per pair: glare, stale answers, held ICE candidates and
+ * targets that left.
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  startTestServer,
+  nextEvent,
+  recordEvents,
+  settle,
+  joinRoom,
+  publicRoom,
+  type TestClient,
+  type TestServer,
+} from "./helpers";
+
+describe("WebRTC signaling", () => {
+  let server: TestServer;
+
+  const offer = { type: "offer" as const, sdp: "v=0 offer" };
+  const answer = { type: "answer" as const, sdp: "v=0 answer" };
+  const candidate = (n: number) => ({
+    candidate: `candidate:${n}`,
+    sdpMid: "0",
+    sdpMLineIndex: 0,
+  });
+
+  /**
+   * Connects two users and puts both in `roomId`.
+   */
+  const pairIn = async (roomId: string, a: string, b: string) => {
+    const first = await server.connectAs(a);
+    await joinRoom(first, roomId);
+    const second = await server.connectAs(b);
+    await joinRoom(second, roomId);
+    return [first, second];
+  };
+
+  const send = (
+    client: TestClient,
+    event: "webrtc_offer" | "webrtc_answer",
+    roomId: string,
+    targetUserId: string,
+    sdp: typeof offer | typeof answer
+  ) => client.timeout(2000).emitWithAck(event, { roomId, targetUserId, sdp });
+
+  before(async () => {
+    server = await startTestServer({
+      rooms: [
+        publicRoom("glare", "1"),
+        publicRoom("early", "2"),
+        publicRoom("gone", "3"),
+      ],
+    });
+  });
+
+  after(() => server.close());
+
+  it("settles glare in favour of the impolite peer", async () => {
+    // "11" is polite towards "10"
+    const [impolite, polite] = await pairIn("glare", "10", "11");
+
+    const received = nextEvent(impolite, "webrtc_offer");
+    const first = await send(polite, "webrtc_offer", "glare", "10", offer);
+    assert.deepEqual(first.data, { polite: true, buffered: false });
+    assert.equal((await received).polite, false);
+
+    // The impolite peer offers too: its offer wins
+    const winning = nextEvent(polite, "webrtc_offer");
+    const second = await send(impolite, "webrtc_offer", "glare", "11", offer);
+    assert.equal(second.success, true);
+    assert.equal((await winning).polite, true);
+
+    // Answering the offer that lost is refused
+    const stale = nextEvent(impolite, "signal_error");
+    const refused = await send(impolite, "webrtc_answer", "glare", "11", answer);
+    assert.equal(refused.code, "NO_PENDING_OFFER");
+    assert.equal((await stale).event, "webrtc_answer");
+
+    // A new offer of the polite peer is refused while the other is pending
+    const glare = await send(polite, "webrtc_offer", "glare", "10", offer);
+    assert.equal(glare.code, "GLARE");
+
+    const answered = nextEvent(impolite, "webrtc_answer");
+    const ok = await send(polite, "webrtc_answer", "glare", "10", answer);
+    assert.equal(ok.success, true);
+    assert.equal((await answered).senderId, "11");
+  });
+
+  it("holds ICE candidates until the offer is delivered", async () => {
+    const [caller, callee] = await pairIn("early", "20", "21");
+    const candidates = recordEvents(callee, "webrtc_ice_candidate");
+
+    const held = await caller
+      .timeout(2000)
+      .emitWithAck("webrtc_ice_candidate", {
+        roomId: "early",
+        targetUserId: "21",
+        candidate: candidate(1),
+      });
+    assert.deepEqual(held.data, { polite: false, buffered: true });
+    await settle();
+    assert.deepEqual(candidates(), []);
+
+    const offered = nextEvent(callee, "webrtc_offer");
+    await send(caller, "webrtc_offer", "early", "21", offer);
+    await offered;
+    caller.emit("webrtc_ice_candidate", {
+      roomId: "early",
+      targetUserId: "21",
+      candidate: candidate(2),
+    });
+    await settle();
+
+    assert.deepEqual(
+      candidates().map((c) => c.candidate.candidate),
+      ["candidate:1", "candidate:2"]
+    );
+  });
+
+  it("tells the sender when the target has left", async () => {
+    const [caller, callee] = await pairIn("gone", "30", "31");
+    await send(caller, "webrtc_offer", "gone", "31", offer);
+
+    await callee.timeout(2000).emitWithAck("leaveRoom");
+
+    const error = nextEvent(caller, "signal_error");
+    caller.emit("webrtc_ice_candidate", {
+      roomId: "gone",
+      targetUserId: "31",
+      candidate: candidate(1),
+    });
+    assert.deepEqual(await error, {
+      success: false,
+      message: "El participante ya no está en la sala",
+      code: "TARGET_NOT_IN_ROOM",
+      event: "webrtc_ice_candidate",
+      targetUserId: "31",
+    });
+
+    const refused = await send(caller, "webrtc_offer", "gone", "31", offer);
+    assert.equal(refused.code, "TARGET_NOT_IN_ROOM");
+  });
+});